@@ -1,10 +1,11 @@
-import { chromium, firefox, webkit, type Browser, type BrowserContext, type Page } from 'playwright';
-import { writeFileSync, existsSync, readFileSync } from 'fs';
+import { chromium, firefox, webkit, type BrowserContext, type Page } from 'playwright';
+import { existsSync, readFileSync } from 'fs';
 import type { AuthState, ServerConfig } from './types.js';
 import { logger } from './logger.js';
-
-// Allow overriding the cache path via env var so Docker volumes can be used
-const TOKEN_CACHE_FILE = process.env.TOKEN_CACHE_PATH || 'token-cache.json';
+import { getBrowserPool, type BrowserContextLease } from './browser-pool.js';
+import { createTokenStore, type CachedToken, type TokenStore } from './token-store.js';
+import { CookieJar, SapHttpClient } from './sap-http-client.js';
+import { sessionCookieExpiry, sessionExpiresAt } from './session-cookies.js';
 
 /**
  * Custom error classes for better error handling
@@ -40,34 +41,43 @@ class AuthenticationError extends Error {
   }
 }
 
+/**
+ * Snapshot of the current SAP session
+ */
+export interface SapSessionState {
+  authenticated: boolean;   // A token exists and is not about to expire
+  token?: string;
+  issuedAt?: number;
+  expiresAt?: number;
+  authenticating: boolean;  // A login (foreground or background refresh) is in progress
+}
+
+interface AuthenticateOptions {
+  useCache: boolean;                // false when the cached session is the one being replaced
+  keepSessionOnFailure?: boolean;   // Background refresh: a failed login leaves the current session in place
+}
+
 export class SapAuthenticator {
   private authState: AuthState = { isAuthenticated: false };
   private authPromise: Promise<void> | null = null;
-  private browser: Browser | null = null;
+  private authOptions: AuthenticateOptions | null = null;   // Options of the login in authPromise
+  private browserLease: BrowserContextLease | null = null;
   private context: BrowserContext | null = null;
   private page: Page | null = null;
 
-  constructor(private config: ServerConfig) {}
+  constructor(private config: ServerConfig, private tokenStore: TokenStore = createTokenStore()) {}
 
   /**
    * Ensures authentication is valid, performing login if needed
    * Includes single-flight guard to prevent concurrent authentication attempts
    */
   async ensureAuthenticated(): Promise<string> {
-    // Single-flight guard - if authentication is in progress, wait for it
-    if (this.authPromise) {
-      await this.authPromise;
-    }
-
-    // Check if current token is still valid
+    // Checked first: the current session keeps serving calls while a background refresh runs
     if (this.isTokenValid()) {
       return this.authState.token!;
     }
 
-    // Start new authentication flow
-    this.authPromise = this.authenticate();
-    await this.authPromise;
-    this.authPromise = null;
+    await this.runAuthentication({ useCache: true });
 
     if (!this.authState.token) {
       throw new Error('Authentication failed - no token received');
@@ -76,6 +86,70 @@ export class SapAuthenticator {
     return this.authState.token;
   }
 
+  /**
+   * Log in again while the current session is still in use (background refresh).
+   * The new session replaces the old one only once the login has succeeded;
+   * if it fails, the old session stays in place and the error is thrown.
+   */
+  async refreshSession(): Promise<string> {
+    await this.runAuthentication({ useCache: false, keepSessionOnFailure: true });
+    return this.authState.token!;
+  }
+
+  /**
+   * Replace a session that SAP has rejected. Concurrent callers holding the same
+   * stale token share one login; callers arriving after it get the new token
+   * without another login. The token cache is skipped, it holds the rejected session.
+   */
+  async renewSession(staleToken: string): Promise<string> {
+    if (this.authState.token !== staleToken && this.isTokenValid()) {
+      return this.authState.token!;
+    }
+
+    if (this.authState.token === staleToken) {
+      this.invalidateAuth();
+    }
+    await this.runAuthentication({ useCache: false });
+
+    if (!this.authState.token) {
+      throw new Error('Re-authentication failed - no token received');
+    }
+    return this.authState.token;
+  }
+
+  /**
+   * Current session for monitoring and the background refresher
+   */
+  getSessionState(): SapSessionState {
+    return {
+      authenticated: this.isTokenValid(),
+      token: this.authState.token,
+      issuedAt: this.authState.issuedAt,
+      expiresAt: this.authState.expiresAt,
+      authenticating: this.authPromise !== null
+    };
+  }
+
+  /**
+   * Single-flight guard: concurrent callers (and the background refresher) share one login.
+   * A caller that must skip the token cache does not join a login that reads it - that
+   * login may hand back the very session being replaced - but waits and runs its own.
+   */
+  private async runAuthentication(options: AuthenticateOptions): Promise<void> {
+    if (this.authPromise && !options.useCache && this.authOptions?.useCache) {
+      await this.authPromise.catch(() => undefined);
+      return this.runAuthentication(options);
+    }
+    if (!this.authPromise) {
+      this.authOptions = options;
+      this.authPromise = this.authenticate(options).finally(() => {
+        this.authPromise = null;
+        this.authOptions = null;
+      });
+    }
+    await this.authPromise;
+  }
+
   /**
    * Invalidate current authentication and force fresh login
    * Call this when session cookies have expired or been rejected by SAP
@@ -245,21 +319,6 @@ export class SapAuthenticator {
     }
   }
 
-  /**
-   * Get the appropriate browser launcher
-   */
-  private getBrowserLauncher() {
-    const browserType = process.env.PLAYWRIGHT_BROWSER_TYPE || 'chromium';
-    const browsers = { chromium, firefox, webkit };
-    const browser = browsers[browserType as keyof typeof browsers];
-    
-    if (!browser) {
-      throw new BrowserNotFoundError(browserType);
-    }
-    
-    return browser;
-  }
-
   /**
    * Prepare client certificate configuration
    */
@@ -287,14 +346,15 @@ export class SapAuthenticator {
   /**
    * Perform the full authentication flow using direct Playwright implementation
    */
-  private async authenticate(): Promise<void> {
+  private async authenticate(options: AuthenticateOptions = { useCache: true }): Promise<void> {
     // First try to load cached token
-    const cachedToken = this.loadCachedToken();
-    if (cachedToken && this.isTokenValidFromCache(cachedToken)) {
+    const cachedToken = options.useCache ? await this.loadCachedToken() : null;
+    if (cachedToken && await this.isCachedSessionAlive(cachedToken)) {
       logger.warn('🔄 Using cached SAP authentication token');
       this.authState = {
         token: cachedToken.access_token,
-        expiresAt: cachedToken.expiresAt,
+        issuedAt: cachedToken.issuedAt,
+        expiresAt: this.cachedExpiresAt(cachedToken),
         isAuthenticated: true
       };
       return;
@@ -309,7 +369,6 @@ export class SapAuthenticator {
       await SapAuthenticator.validateCertificate(this.config.pfxPath, this.config.pfxPassphrase);
       
       // Check browser availability
-      const browserLauncher = this.getBrowserLauncher();
       const browserType = process.env.PLAYWRIGHT_BROWSER_TYPE || 'chromium';
       
       if (!(await SapAuthenticator.checkBrowserAvailable(browserType))) {
@@ -321,120 +380,14 @@ export class SapAuthenticator {
       // Prepare client certificate
       const clientCertificate = this.prepareClientCertificate();
 
-      // Prepare browser launch options
-      const headless = process.env.HEADFUL !== 'true';
-      const launchOptions = {
-        headless,
-        ignoreHTTPSErrors: true
-      };
-
-      logger.warn(`🚀 Launching browser (headless: ${headless})`);
-      
       // Special handling for MCP mode - detect if we're running from Cursor
+      const headless = process.env.HEADFUL !== 'true';
       const isMcpMode = !process.stdin.isTTY || !process.stdout.isTTY || process.env.MCP_MODE === 'true';
       if (isMcpMode && headless) {
         logger.warn('⚠️ Running in MCP mode with headless browser - authentication may fail');
         logger.warn('💡 Consider setting HEADFUL=true in your Cursor MCP configuration for debugging');
       }
 
-      // Launch browser with retry logic for transient resource errors
-      logger.warn('🎬 Browser launching...');
-      logger.warn(`   Launch options: ${JSON.stringify(launchOptions, null, 2)}`);
-      
-      const maxRetries = 3;
-      let lastError: Error | null = null;
-      
-      for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-          logger.warn(`🚀 Browser launch attempt ${attempt}/${maxRetries}...`);
-          this.browser = await browserLauncher.launch(launchOptions);
-          logger.warn(`✅ Browser launched successfully (attempt ${attempt}/${maxRetries})`);
-          break;
-        } catch (error) {
-          lastError = error as Error;
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          
-          // Log the FULL error details for debugging
-          logger.error(`❌ Browser launch failed (attempt ${attempt}/${maxRetries}):`);
-          logger.error(`   Error type: ${error instanceof Error ? error.name : 'Unknown'}`);
-          logger.error(`   Error message: ${errorMsg}`);
-          
-          if (error instanceof Error && error.stack) {
-            logger.error(`   Stack trace: ${error.stack}`);
-          }
-          
-          // Log additional error properties if available
-          if (error && typeof error === 'object') {
-            const errorObj = error as any;
-            if (errorObj.code) logger.error(`   Error code: ${errorObj.code}`);
-            if (errorObj.errno) logger.error(`   Error number: ${errorObj.errno}`);
-            if (errorObj.syscall) logger.error(`   System call: ${errorObj.syscall}`);
-            if (errorObj.path) logger.error(`   Path: ${errorObj.path}`);
-          }
-          
-          // Debug browser environment on first failure
-          if (attempt === 1) {
-            await SapAuthenticator.debugBrowserEnvironment(browserType);
-          }
-          
-          // Check if it's a resource exhaustion error
-          if (errorMsg.includes('pthread_create') || errorMsg.includes('Resource temporarily unavailable')) {
-            if (attempt < maxRetries) {
-              const delayMs = Math.pow(2, attempt) * 1000; // Exponential backoff: 2s, 4s, 8s
-              logger.warn(`⚠️ Resource exhaustion detected, retrying in ${delayMs/1000}s...`);
-              await new Promise(resolve => setTimeout(resolve, delayMs));
-              continue;
-            }
-          }
-          
-          // Check for executable not found errors (common in Docker)
-          if (errorMsg.includes('Executable doesn\'t exist') || 
-              errorMsg.includes('ENOENT') ||
-              errorMsg.includes('No such file or directory')) {
-            logger.error(`💡 Browser executable issue detected. Common Docker/Alpine Linux fixes:`);
-            logger.error(`   1. Install Playwright browsers: npx playwright install chromium`);
-            logger.error(`   2. Install system dependencies: apk add chromium nss freetype harfbuzz`);
-            logger.error(`   3. Set PLAYWRIGHT_CHROMIUM_EXECUTABLE_PATH to system chromium`);
-            logger.error(`   4. Check if running in headless mode works: HEADFUL=false`);
-          }
-          
-          // Check for permission errors
-          if (errorMsg.includes('EACCES') || errorMsg.includes('Permission denied')) {
-            logger.error(`💡 Permission error detected. Common fixes:`);
-            logger.error(`   1. Check file permissions on browser executable`);
-            logger.error(`   2. Run with different user (non-root may be required)`);
-            logger.error(`   3. Check Docker container security settings`);
-          }
-          
-          // For Alpine Linux / Docker specific issues
-          if (errorMsg.includes('error while loading shared libraries')) {
-            logger.error(`💡 Shared library error detected. Alpine Linux fixes:`);
-            logger.error(`   1. Install missing dependencies: apk add ${errorMsg.match(/lib\w+\.so[\.\d]*/g)?.join(' ')}`);
-            logger.error(`   2. Install browser dependencies: apk add nss freetype harfbuzz ca-certificates`);
-          }
-          
-          // If max retries reached, don't retry
-          if (attempt >= maxRetries) {
-            logger.error(`❌ Max retries (${maxRetries}) reached. Browser launch failed permanently.`);
-            throw error;
-          }
-          
-          // Wait before retry
-          const delayMs = 1000;
-          logger.warn(`⏳ Retrying in ${delayMs/1000}s...`);
-          await new Promise(resolve => setTimeout(resolve, delayMs));
-        }
-      }
-      
-      if (!this.browser) {
-        const finalErrorMsg = `Failed to launch browser after ${maxRetries} attempts`;
-        logger.error(`❌ ${finalErrorMsg}`);
-        if (lastError) {
-          logger.error(`   Last error: ${lastError.message}`);
-        }
-        throw new Error(`${finalErrorMsg}: ${lastError?.message || 'Unknown error'}`);
-      }
-
       // Prepare context options
       const contextOptions = {
         ignoreHTTPSErrors: true,
@@ -444,8 +397,14 @@ export class SapAuthenticator {
       };
 
       logger.warn('🔧 Creating browser context with client certificate...');
-      // Create a new context with the client certificate
-      this.context = await this.browser.newContext(contextOptions);
+      // The shared browser pool launches (or reuses) the browser; the certificate context is single-use
+      try {
+        this.browserLease = await getBrowserPool().acquire('auth', browser => browser.newContext(contextOptions));
+      } catch (error) {
+        await SapAuthenticator.debugBrowserEnvironment(browserType);
+        throw error;
+      }
+      this.context = this.browserLease.context;
       logger.warn('✅ Browser context created');
       
       logger.warn('📄 Creating new page...');
@@ -552,20 +511,27 @@ export class SapAuthenticator {
         `${cookie.name}=${cookie.value}`
       ).join('; ');
       
-      // Calculate expiry time
-      const expiresAt = Date.now() + (this.config.maxJwtAgeH * 60 * 60 * 1000);
+      // The session ends when its first SAP session cookie expires, at the latest after MAX_JWT_AGE_H
+      const issuedAt = Date.now();
+      const expiresAt = sessionExpiresAt(allCookies, issuedAt, this.config.maxJwtAgeH * 60 * 60 * 1000);
+      const cookieExpiry = sessionCookieExpiry(allCookies);
+      if (cookieExpiry && cookieExpiry.expiresAt === expiresAt) {
+        logger.warn(`⏰ Session cookie ${cookieExpiry.cookie} expires at ${new Date(expiresAt).toISOString()} (before MAX_JWT_AGE_H)`);
+      }
 
-      // Save authentication state using cookie-based approach
+      // Save authentication state using cookie-based approach (one assignment, so callers never see a mix)
       this.authState = {
         token: cookieString,
+        issuedAt,
         expiresAt,
         isAuthenticated: true
       };
 
       // Cache the cookies for future use
-      this.saveCachedToken({
+      await this.saveCachedToken({
         access_token: cookieString,
         cookies: allCookies,
+        issuedAt,
         expiresAt
       });
 
@@ -577,7 +543,9 @@ export class SapAuthenticator {
       if (error instanceof Error) {
         logger.error('Error message:', error.message);
       }
-      this.authState = { isAuthenticated: false };
+      if (!options.keepSessionOnFailure) {
+        this.authState = { isAuthenticated: false };
+      }
       
       // Re-throw with appropriate error type
       if (error instanceof AuthenticationTimeoutError || 
@@ -597,14 +565,15 @@ export class SapAuthenticator {
    * Clean up browser resources
    */
   private async cleanup(): Promise<void> {
-    if (this.browser) {
+    if (this.browserLease) {
       try {
-        await this.browser.close();
+        // Certificate contexts are never reused; the shared browser stays up for note retrieval
+        await this.browserLease.release({ discard: true });
         logger.warn('🧹 Browser session closed');
       } catch (closeError) {
         logger.error('Error closing browser:', closeError);
       } finally {
-        this.browser = null;
+        this.browserLease = null;
         this.context = null;
         this.page = null;
       }
@@ -612,14 +581,11 @@ export class SapAuthenticator {
   }
 
   /**
-   * Load cached token from disk
+   * Load cached token from the token store
    */
-  private loadCachedToken(): any {
+  private async loadCachedToken(): Promise<CachedToken | null> {
     try {
-      if (existsSync(TOKEN_CACHE_FILE)) {
-        const cached = JSON.parse(readFileSync(TOKEN_CACHE_FILE, 'utf-8'));
-        return cached;
-      }
+      return await this.tokenStore.load();
     } catch (error) {
       logger.warn('Failed to load cached token:', error);
     }
@@ -627,45 +593,74 @@ export class SapAuthenticator {
   }
 
   /**
-   * Check if cached token is still valid
+   * Expiry of a cached session; caches written by earlier versions only carry the time-based expiry
    */
-  private isTokenValidFromCache(cachedToken: any): boolean {
+  private cachedExpiresAt(cachedToken: CachedToken): number {
+    return Math.min(cachedToken.expiresAt, sessionCookieExpiry(cachedToken.cookies)?.expiresAt ?? Infinity);
+  }
+
+  /**
+   * Check if cached token is still valid: its session cookies must not have expired,
+   * and SAP must still accept them. A dead cache is cleared so it is not tried again.
+   */
+  private async isCachedSessionAlive(cachedToken: CachedToken): Promise<boolean> {
     if (!cachedToken.access_token || !cachedToken.expiresAt) {
       return false;
     }
 
     // Add 5 minute buffer before expiry
     const bufferMs = 5 * 60 * 1000;
-    return Date.now() < (cachedToken.expiresAt - bufferMs);
+    if (Date.now() >= this.cachedExpiresAt(cachedToken) - bufferMs) {
+      logger.warn('⏰ Cached SAP session has expired');
+      await this.clearCachedToken();
+      return false;
+    }
+
+    const jar = cachedToken.cookies?.length > 0
+      ? new CookieJar(cachedToken.cookies)
+      : CookieJar.fromCookieHeader(cachedToken.access_token);
+    try {
+      if (!(await new SapHttpClient(jar).probe())) {
+        logger.warn('🔒 SAP no longer accepts the cached session');
+        await this.clearCachedToken();
+        return false;
+      }
+    } catch (error) {
+      // Network trouble says nothing about the session; the first request will tell
+      logger.warn(`⚠️ Could not verify the cached session: ${error instanceof Error ? error.message : error}`);
+    }
+    return true;
   }
 
   /**
-   * Save token to disk cache
+   * Save token to the token store
    */
-  private saveCachedToken(tokenData: any): void {
+  private async saveCachedToken(tokenData: CachedToken): Promise<void> {
     try {
-      writeFileSync(TOKEN_CACHE_FILE, JSON.stringify(tokenData, null, 2));
-      logger.warn('💾 Token cached for future use');
+      await this.tokenStore.save(tokenData);
+      logger.warn(`💾 Token cached for future use (${this.tokenStore.backend} store)`);
     } catch (error) {
       logger.warn('Failed to cache token:', error);
     }
   }
 
+  /**
+   * Remove a dead session from the token store
+   */
+  private async clearCachedToken(): Promise<void> {
+    try {
+      await this.tokenStore.clear();
+    } catch (error) {
+      logger.warn('Failed to clear cached token:', error);
+    }
+  }
+
   /**
    * Force cleanup and reset authentication state
    */
   async destroy(): Promise<void> {
     this.authState = { isAuthenticated: false };
     await this.cleanup();
-    
-    // Clean up cached token
-    try {
-      if (existsSync(TOKEN_CACHE_FILE)) {
-        // Could delete the file or leave it for next time
-        // unlinkSync(TOKEN_CACHE_FILE);
-      }
-    } catch (error) {
-      logger.warn('Error cleaning up cache:', error);
-    }
+    // The cached token is kept in the token store for the next start
   }
 } 
\ No newline at end of file
@@ -0,0 +1,363 @@
+import { chromium, firefox, webkit, type Browser, type BrowserContext } from 'playwright';
+import { createHash } from 'crypto';
+import { logger } from './logger.js';
+
+const LAUNCH_MAX_RETRIES = 3;
+
+export interface BrowserPoolOptions {
+  maxConcurrency?: number;   // Contexts leased at the same time (further requests wait)
+  idleTimeoutMs?: number;    // Idle contexts (and finally the browser) are closed after this time
+}
+
+/**
+ * Counters and gauges for monitoring (exposed on /health)
+ */
+export interface BrowserPoolMetrics {
+  browserConnected: boolean;
+  launches: number;
+  crashes: number;
+  contextsCreated: number;
+  contextsReused: number;
+  contextsEvicted: number;
+  activeLeases: number;
+  idleContexts: number;
+  waitingRequests: number;
+  maxConcurrency: number;
+}
+
+/**
+ * A browser context borrowed from the pool. Release it when done; pass
+ * discard: true if the context must not be reused (single-use logins,
+ * expired sessions, broken pages).
+ */
+export interface BrowserContextLease {
+  context: BrowserContext;
+  release(options?: { discard?: boolean }): Promise<void>;
+}
+
+interface IdleContext {
+  key: string;
+  context: BrowserContext;
+  idleSince: number;
+}
+
+/**
+ * Shared Playwright browser with a warm context pool.
+ *
+ * One browser process serves authentication, Coveo token extraction and note
+ * retrieval. Contexts are pooled per key (e.g. "notes:EN:<session>") so that
+ * cookies and warm connections are reused; the number of contexts in use is
+ * capped, idle contexts are evicted after the idle timeout and the browser is
+ * relaunched transparently if it crashes.
+ */
+export class BrowserPool {
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private idle: IdleContext[] = [];
+  private activeLeases = 0;
+  private waiters: Array<() => void> = [];
+  private lastActivity = Date.now();
+  private evictionTimer: NodeJS.Timeout | null = null;
+  private closing = false;
+  private maxConcurrency: number;
+  private idleTimeoutMs: number;
+  private metrics = { launches: 0, crashes: 0, contextsCreated: 0, contextsReused: 0, contextsEvicted: 0 };
+
+  constructor(options: BrowserPoolOptions = {}) {
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? parseInt(process.env.BROWSER_POOL_MAX_CONCURRENCY || '3'));
+    this.idleTimeoutMs = options.idleTimeoutMs ?? parseInt(process.env.BROWSER_IDLE_TIMEOUT_S || '300') * 1000;
+  }
+
+  /**
+   * Borrow a context for the given key, reusing an idle one if available.
+   * Waits while maxConcurrency contexts are in use.
+   */
+  async acquire(key: string, createContext: (browser: Browser) => Promise<BrowserContext>): Promise<BrowserContextLease> {
+    await this.acquireSlot();
+
+    try {
+      let context = this.takeIdleContext(key);
+      if (context) {
+        this.metrics.contextsReused++;
+        logger.debug(`♻️  Reusing pooled browser context (${key})`);
+      } else {
+        const browser = await this.getBrowser();
+        context = await createContext(browser);
+        this.metrics.contextsCreated++;
+        logger.debug(`🆕 Created browser context (${key})`);
+      }
+      return this.createLease(key, context);
+    } catch (error) {
+      this.releaseSlot();
+      throw error;
+    }
+  }
+
+  /**
+   * Run a callback with a pooled context; the context is discarded if the callback fails
+   */
+  async withContext<T>(
+    key: string,
+    createContext: (browser: Browser) => Promise<BrowserContext>,
+    callback: (context: BrowserContext) => Promise<T>
+  ): Promise<T> {
+    const lease = await this.acquire(key, createContext);
+    try {
+      const result = await callback(lease.context);
+      await lease.release();
+      return result;
+    } catch (error) {
+      await lease.release({ discard: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Close all idle contexts whose key starts with the given prefix (e.g. after a session expired)
+   */
+  async discard(keyPrefix: string): Promise<void> {
+    const discarded = this.idle.filter(entry => entry.key.startsWith(keyPrefix));
+    this.idle = this.idle.filter(entry => !entry.key.startsWith(keyPrefix));
+    await Promise.all(discarded.map(entry => entry.context.close().catch(() => {})));
+    if (discarded.length > 0) {
+      logger.debug(`🗑️ Discarded ${discarded.length} pooled browser context(s) (${keyPrefix}*)`);
+    }
+  }
+
+  getMetrics(): BrowserPoolMetrics {
+    return {
+      browserConnected: !!this.browser?.isConnected(),
+      ...this.metrics,
+      activeLeases: this.activeLeases,
+      idleContexts: this.idle.length,
+      waitingRequests: this.waiters.length,
+      maxConcurrency: this.maxConcurrency
+    };
+  }
+
+  /**
+   * Close all contexts and the browser (server shutdown)
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+    this.stopEvictionTimer();
+    await this.discard('');
+    if (this.browser) {
+      logger.debug('🧹 Closing shared browser');
+      await this.browser.close().catch(() => {});
+      this.browser = null;
+    }
+    this.closing = false;
+  }
+
+  /**
+   * Stable, non-reversible identifier for a session token, for use in context keys
+   */
+  static sessionKey(token: string): string {
+    return createHash('sha256').update(token).digest('hex').substring(0, 12);
+  }
+
+  private createLease(key: string, context: BrowserContext): BrowserContextLease {
+    let released = false;
+    return {
+      context,
+      release: async (options = {}) => {
+        if (released) {
+          return;
+        }
+        released = true;
+        this.lastActivity = Date.now();
+
+        const reusable = !options.discard && !this.closing && !!this.browser?.isConnected();
+        if (reusable && this.idle.length < this.maxConcurrency) {
+          this.idle.push({ key, context, idleSince: Date.now() });
+        } else {
+          await context.close().catch(() => {});
+        }
+        this.releaseSlot();
+      }
+    };
+  }
+
+  private takeIdleContext(key: string): BrowserContext | null {
+    const index = this.idle.findIndex(entry => entry.key === key);
+    if (index === -1) {
+      return null;
+    }
+    return this.idle.splice(index, 1)[0].context;
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.activeLeases >= this.maxConcurrency) {
+      logger.debug(`⏳ Browser pool at capacity (${this.maxConcurrency}), waiting for a free context`);
+      // The releasing lease hands its slot over directly, so activeLeases stays unchanged
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    } else {
+      this.activeLeases++;
+    }
+    this.lastActivity = Date.now();
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.activeLeases--;
+    }
+  }
+
+  /**
+   * Return the shared browser, launching (or relaunching after a crash) if needed
+   */
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.isConnected()) {
+      return this.browser;
+    }
+    this.launching ??= this.launch().finally(() => {
+      this.launching = null;
+    });
+    return this.launching;
+  }
+
+  private async launch(): Promise<Browser> {
+    const browserType = process.env.PLAYWRIGHT_BROWSER_TYPE || 'chromium';
+    const launcher = { chromium, firefox, webkit }[browserType as 'chromium' | 'firefox' | 'webkit'];
+    if (!launcher) {
+      throw new Error(`Unsupported browser type: ${browserType}`);
+    }
+
+    // Headful only for local debugging (HEADFUL=true); containers and servers always run headless
+    const isDocker = process.env.DOCKER_ENV === 'true' ||
+                    process.env.NODE_ENV === 'production' ||
+                    process.env.CI === 'true' ||
+                    (process.platform === 'linux' && !process.env.DISPLAY);
+    const headless = isDocker || process.env.HEADFUL !== 'true';
+
+    const launchOptions = {
+      headless,
+      args: browserType === 'chromium' ? [
+        '--disable-dev-shm-usage',
+        '--no-sandbox',
+        '--disable-gpu',
+        '--disable-web-security',
+        '--disable-features=VizDisplayCompositor',
+        '--no-first-run',
+        '--disable-background-timer-throttling',
+        '--disable-backgrounding-occluded-windows',
+        '--disable-renderer-backgrounding'
+      ] : []
+    };
+
+    logger.debug(`🔧 Browser pool launch configuration: ${JSON.stringify({ browserType, ...launchOptions })}`);
+
+    for (let attempt = 1; attempt <= LAUNCH_MAX_RETRIES; attempt++) {
+      try {
+        logger.info(`🚀 Launching shared ${browserType} browser (attempt ${attempt}/${LAUNCH_MAX_RETRIES}, headless: ${headless})`);
+        const browser = await launcher.launch(launchOptions);
+        this.metrics.launches++;
+        this.browser = browser;
+        browser.on('disconnected', () => this.handleDisconnect(browser));
+        this.startEvictionTimer();
+        return browser;
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.error(`❌ Browser launch failed (attempt ${attempt}/${LAUNCH_MAX_RETRIES}): ${errorMsg}`);
+        this.logLaunchHints(errorMsg);
+
+        if (attempt >= LAUNCH_MAX_RETRIES) {
+          throw error;
+        }
+        // Exponential backoff for transient resource exhaustion (2s, 4s), 1s otherwise
+        const resourceExhausted = errorMsg.includes('pthread_create') || errorMsg.includes('Resource temporarily unavailable');
+        const delayMs = resourceExhausted ? Math.pow(2, attempt) * 1000 : 1000;
+        logger.warn(`⏳ Retrying browser launch in ${delayMs / 1000}s...`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+    throw new Error('Browser launch failed');
+  }
+
+  private logLaunchHints(errorMsg: string): void {
+    if (errorMsg.includes('Executable doesn\'t exist') || errorMsg.includes('ENOENT') || errorMsg.includes('No such file or directory')) {
+      logger.error(`💡 Browser executable issue detected. Common Docker/Alpine Linux fixes:`);
+      logger.error(`   1. Install Playwright browsers: npx playwright install chromium`);
+      logger.error(`   2. Install system dependencies: apk add chromium nss freetype harfbuzz`);
+      logger.error(`   3. Set PLAYWRIGHT_CHROMIUM_EXECUTABLE_PATH to system chromium`);
+    }
+    if (errorMsg.includes('EACCES') || errorMsg.includes('Permission denied')) {
+      logger.error(`💡 Permission error detected. Check file permissions on the browser executable and container security settings`);
+    }
+    if (errorMsg.includes('error while loading shared libraries')) {
+      logger.error(`💡 Shared library error detected: apk add ${errorMsg.match(/lib\w+\.so[\.\d]*/g)?.join(' ')} nss freetype harfbuzz ca-certificates`);
+    }
+  }
+
+  /**
+   * Crash recovery: forget the dead browser and its contexts; the next acquire relaunches
+   */
+  private handleDisconnect(browser: Browser): void {
+    if (this.browser !== browser) {
+      return;
+    }
+    this.browser = null;
+    this.idle = [];
+    this.stopEvictionTimer();
+    if (!this.closing) {
+      this.metrics.crashes++;
+      logger.warn('💥 Shared browser disconnected unexpectedly - it will be relaunched on next use');
+    }
+  }
+
+  private startEvictionTimer(): void {
+    if (this.evictionTimer || this.idleTimeoutMs <= 0) {
+      return;
+    }
+    this.evictionTimer = setInterval(() => {
+      this.evictIdle().catch(error => logger.debug(`Browser pool eviction failed: ${error}`));
+    }, Math.min(this.idleTimeoutMs / 2, 60 * 1000));
+    // Never keep the process alive just for eviction
+    this.evictionTimer.unref();
+  }
+
+  private stopEvictionTimer(): void {
+    if (this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+  }
+
+  /**
+   * Close contexts idle for longer than the timeout, and the browser once nothing uses it
+   */
+  private async evictIdle(): Promise<void> {
+    const now = Date.now();
+    const expired = this.idle.filter(entry => now - entry.idleSince > this.idleTimeoutMs);
+    if (expired.length > 0) {
+      this.idle = this.idle.filter(entry => !expired.includes(entry));
+      this.metrics.contextsEvicted += expired.length;
+      await Promise.all(expired.map(entry => entry.context.close().catch(() => {})));
+      logger.debug(`🧹 Evicted ${expired.length} idle browser context(s)`);
+    }
+
+    if (this.browser && this.activeLeases === 0 && this.idle.length === 0 && now - this.lastActivity > this.idleTimeoutMs) {
+      logger.debug('🧹 Closing idle shared browser');
+      this.closing = true;
+      await this.browser.close().catch(() => {});
+      this.browser = null;
+      this.closing = false;
+      this.stopEvictionTimer();
+    }
+  }
+}
+
+let sharedPool: BrowserPool | null = null;
+
+/**
+ * Process-wide pool shared by SapAuthenticator and SapNotesApiClient, created on
+ * first use so that it sees the settings loaded from .env
+ */
+export function getBrowserPool(): BrowserPool {
+  sharedPool ??= new BrowserPool();
+  return sharedPool;
+}
@@ -0,0 +1,266 @@
+/**
+ * CVSS v3.0 / v3.1 vector parsing and base score calculation
+ * (FIRST specification, https://www.first.org/cvss/v3.1/specification-document).
+ * SAP security notes carry a base score and usually a vector; the vector is
+ * decoded here so the score can be cross-checked and the metrics exposed.
+ */
+
+export type CvssVersion = '3.0' | '3.1';
+export type CvssSeverity = 'None' | 'Low' | 'Medium' | 'High' | 'Critical';
+
+export interface CvssBaseMetrics {
+  attackVector: 'Network' | 'Adjacent' | 'Local' | 'Physical';
+  attackComplexity: 'Low' | 'High';
+  privilegesRequired: 'None' | 'Low' | 'High';
+  userInteraction: 'None' | 'Required';
+  scope: 'Unchanged' | 'Changed';
+  confidentiality: 'None' | 'Low' | 'High';
+  integrity: 'None' | 'Low' | 'High';
+  availability: 'None' | 'Low' | 'High';
+}
+
+export interface CvssVector {
+  version: CvssVersion;
+  vector: string;                   // Canonical base vector, e.g. "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H"
+  codes: Record<CvssBaseMetricKey, string>;
+  metrics: CvssBaseMetrics;
+}
+
+/**
+ * Outcome of parsing a vector: either the decoded vector or why it is invalid
+ */
+export interface CvssParseResult {
+  vector?: CvssVector;
+  error?: string;
+}
+
+/**
+ * Everything known about a note's CVSS rating, combining SAP's score with the decoded vector
+ */
+export interface CvssAssessment {
+  version?: CvssVersion;
+  vector?: string;
+  baseScore?: number;       // SAP's score, or the computed one if SAP gave none
+  computedScore?: number;   // Base score calculated from the vector
+  scoreMatches?: boolean;   // false if SAP's score disagrees with the vector
+  severity?: CvssSeverity;
+  metrics?: CvssBaseMetrics;
+  error?: string;           // Why the vector could not be decoded
+}
+
+const BASE_METRIC_KEYS = ['AV', 'AC', 'PR', 'UI', 'S', 'C', 'I', 'A'] as const;
+export type CvssBaseMetricKey = typeof BASE_METRIC_KEYS[number];
+
+// Metric names as shown on the CVSS tab of a note, and the value labels per code
+const BASE_METRICS: Record<CvssBaseMetricKey, { field: keyof CvssBaseMetrics; label: string; values: Record<string, string> }> = {
+  AV: { field: 'attackVector', label: 'Attack Vector', values: { N: 'Network', A: 'Adjacent', L: 'Local', P: 'Physical' } },
+  AC: { field: 'attackComplexity', label: 'Attack Complexity', values: { L: 'Low', H: 'High' } },
+  PR: { field: 'privilegesRequired', label: 'Privileges Required', values: { N: 'None', L: 'Low', H: 'High' } },
+  UI: { field: 'userInteraction', label: 'User Interaction', values: { N: 'None', R: 'Required' } },
+  S: { field: 'scope', label: 'Scope', values: { U: 'Unchanged', C: 'Changed' } },
+  C: { field: 'confidentiality', label: 'Confidentiality', values: { N: 'None', L: 'Low', H: 'High' } },
+  I: { field: 'integrity', label: 'Integrity', values: { N: 'None', L: 'Low', H: 'High' } },
+  A: { field: 'availability', label: 'Availability', values: { N: 'None', L: 'Low', H: 'High' } }
+};
+
+// Temporal and environmental metrics may follow the base metrics; they do not change the base score
+const OPTIONAL_METRICS: Record<string, string[]> = {
+  E: ['X', 'U', 'P', 'F', 'H'],
+  RL: ['X', 'O', 'T', 'W', 'U'],
+  RC: ['X', 'U', 'R', 'C'],
+  CR: ['X', 'L', 'M', 'H'],
+  IR: ['X', 'L', 'M', 'H'],
+  AR: ['X', 'L', 'M', 'H'],
+  MAV: ['X', 'N', 'A', 'L', 'P'],
+  MAC: ['X', 'L', 'H'],
+  MPR: ['X', 'N', 'L', 'H'],
+  MUI: ['X', 'N', 'R'],
+  MS: ['X', 'U', 'C'],
+  MC: ['X', 'N', 'L', 'H'],
+  MI: ['X', 'N', 'L', 'H'],
+  MA: ['X', 'N', 'L', 'H']
+};
+
+// Metric weights from the specification (identical in 3.0 and 3.1)
+const WEIGHTS = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 } as Record<string, number>,
+  AC: { L: 0.77, H: 0.44 } as Record<string, number>,
+  PR: {
+    U: { N: 0.85, L: 0.62, H: 0.27 } as Record<string, number>,
+    C: { N: 0.85, L: 0.68, H: 0.5 } as Record<string, number>
+  },
+  UI: { N: 0.85, R: 0.62 } as Record<string, number>,
+  CIA: { H: 0.56, L: 0.22, N: 0 } as Record<string, number>
+};
+
+export const CVSS_BASE_METRIC_LABELS = BASE_METRIC_KEYS.map(key => BASE_METRICS[key].label);
+
+/**
+ * Parse and validate a CVSS v3.0/v3.1 vector string
+ */
+export function parseCvssVector(input: string): CvssParseResult {
+  const match = input.trim().match(/^CVSS:(\d+\.\d+)\/(.+)$/i);
+  if (!match) {
+    return { error: 'Not a CVSS vector (expected "CVSS:3.x/AV:.../...")' };
+  }
+  const version = match[1];
+  if (version !== '3.0' && version !== '3.1') {
+    return { error: `Unsupported CVSS version ${version} (only 3.0 and 3.1)` };
+  }
+
+  const codes: Partial<Record<string, string>> = {};
+  for (const part of match[2].replace(/\/$/, '').split('/')) {
+    const [key, value, ...rest] = part.toUpperCase().split(':');
+    if (!key || !value || rest.length > 0) {
+      return { error: `Malformed metric "${part}"` };
+    }
+    if (codes[key] !== undefined) {
+      return { error: `Metric ${key} appears more than once` };
+    }
+    const allowed = key in BASE_METRICS
+      ? Object.keys(BASE_METRICS[key as CvssBaseMetricKey].values)
+      : OPTIONAL_METRICS[key];
+    if (!allowed) {
+      return { error: `Unknown metric ${key}` };
+    }
+    if (!allowed.includes(value)) {
+      return { error: `Invalid value ${key}:${value} (allowed: ${allowed.join(', ')})` };
+    }
+    codes[key] = value;
+  }
+
+  const missing = BASE_METRIC_KEYS.filter(key => codes[key] === undefined);
+  if (missing.length > 0) {
+    return { error: `Missing base metric(s) ${missing.join(', ')}` };
+  }
+
+  const baseCodes = Object.fromEntries(BASE_METRIC_KEYS.map(key => [key, codes[key]!])) as Record<CvssBaseMetricKey, string>;
+  return {
+    vector: {
+      version,
+      vector: formatCvssVector(version, baseCodes),
+      codes: baseCodes,
+      metrics: Object.fromEntries(
+        BASE_METRIC_KEYS.map(key => [BASE_METRICS[key].field, BASE_METRICS[key].values[baseCodes[key]]])
+      ) as unknown as CvssBaseMetrics
+    }
+  };
+}
+
+/**
+ * Build the canonical base vector string from metric codes
+ */
+export function formatCvssVector(version: CvssVersion, codes: Record<CvssBaseMetricKey, string>): string {
+  return `CVSS:${version}/` + BASE_METRIC_KEYS.map(key => `${key}:${codes[key]}`).join('/');
+}
+
+/**
+ * Round up to one decimal. 3.1 defines an integer-based Roundup to avoid
+ * floating point artefacts (e.g. 4.000000001 must not become 4.1).
+ */
+function roundUp(value: number, version: CvssVersion): number {
+  if (version === '3.0') {
+    return Math.ceil(value * 10) / 10;
+  }
+  const scaled = Math.round(value * 100000);
+  return scaled % 10000 === 0 ? scaled / 100000 : (Math.floor(scaled / 10000) + 1) / 10;
+}
+
+/**
+ * Calculate the base score of a parsed vector
+ */
+export function computeCvssBaseScore(vector: Pick<CvssVector, 'version' | 'codes'>): number {
+  const { version, codes } = vector;
+  const scopeChanged = codes.S === 'C';
+
+  const iss = 1 - (1 - WEIGHTS.CIA[codes.C]) * (1 - WEIGHTS.CIA[codes.I]) * (1 - WEIGHTS.CIA[codes.A]);
+  const impact = scopeChanged
+    ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15)
+    : 6.42 * iss;
+  const exploitability = 8.22 *
+    WEIGHTS.AV[codes.AV] *
+    WEIGHTS.AC[codes.AC] *
+    WEIGHTS.PR[scopeChanged ? 'C' : 'U'][codes.PR] *
+    WEIGHTS.UI[codes.UI];
+
+  if (impact <= 0) {
+    return 0;
+  }
+  return scopeChanged
+    ? roundUp(Math.min(1.08 * (impact + exploitability), 10), version)
+    : roundUp(Math.min(impact + exploitability, 10), version);
+}
+
+/**
+ * Qualitative severity rating of a score
+ */
+export function cvssSeverity(score: number): CvssSeverity {
+  if (score <= 0) return 'None';
+  if (score < 4) return 'Low';
+  if (score < 7) return 'Medium';
+  if (score < 9) return 'High';
+  return 'Critical';
+}
+
+/**
+ * CVSS version named in a text such as "CVSS v3.1 Base Score" or "CVSS:3.0/..."
+ */
+export function detectCvssVersion(text: string): CvssVersion | undefined {
+  const match = text.match(/CVSS\s*(?:v(?:ersion)?\s*|:)?(3\.[01])\b/i);
+  return match ? (match[1] as CvssVersion) : undefined;
+}
+
+/**
+ * Build a vector from the metric table of a note's CVSS tab ("Attack Vector" → "Network (N)").
+ * Returns undefined unless all base metrics can be read.
+ */
+export function cvssVectorFromLabels(version: CvssVersion, values: Record<string, string>): string | undefined {
+  const codes: Partial<Record<CvssBaseMetricKey, string>> = {};
+  for (const key of BASE_METRIC_KEYS) {
+    const value = (values[BASE_METRICS[key].label] || '').trim().toLowerCase();
+    // Prefix match, so "Adjacent Network" is Adjacent and not Network
+    const code = Object.entries(BASE_METRICS[key].values).find(([short, long]) =>
+      value.startsWith(long.toLowerCase()) || value === short.toLowerCase() || value.includes(`(${short.toLowerCase()})`)
+    )?.[0];
+    if (!code) {
+      return undefined;
+    }
+    codes[key] = code;
+  }
+  return formatCvssVector(version, codes as Record<CvssBaseMetricKey, string>);
+}
+
+/**
+ * Combine SAP's score and vector into one assessment (undefined if the note has no CVSS data)
+ */
+export function assessCvss(score: string | undefined, vector: string | undefined): CvssAssessment | undefined {
+  if (!score && !vector) {
+    return undefined;
+  }
+
+  const parsedScore = score !== undefined ? parseFloat(score) : NaN;
+  const sapScore = isNaN(parsedScore) || parsedScore < 0 || parsedScore > 10 ? undefined : parsedScore;
+  const assessment: CvssAssessment = { baseScore: sapScore };
+
+  if (vector) {
+    const parsed = parseCvssVector(vector);
+    if (parsed.vector) {
+      const computedScore = computeCvssBaseScore(parsed.vector);
+      assessment.version = parsed.vector.version;
+      assessment.vector = parsed.vector.vector;
+      assessment.metrics = parsed.vector.metrics;
+      assessment.computedScore = computedScore;
+      assessment.baseScore = sapScore ?? computedScore;
+      if (sapScore !== undefined) {
+        assessment.scoreMatches = Math.abs(sapScore - computedScore) < 0.05;
+      }
+    } else {
+      assessment.error = parsed.error;
+    }
+  }
+
+  if (assessment.baseScore !== undefined) {
+    assessment.severity = cvssSeverity(assessment.baseScore);
+  }
+  return assessment;
+}
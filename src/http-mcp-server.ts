@@ -7,16 +7,51 @@ import { z } from 'zod';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import type { ServerConfig } from './types.js';
-import { SapAuthenticator } from './auth.js';
-import { SapNotesApiClient } from './sap-notes-api.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { decodeSearchCursor } from './sap-notes-api.js';
 import { logger } from './logger.js';
+import { getBrowserPool } from './browser-pool.js';
+import { renderNoteContent } from './note-format.js';
+import { chunkNoteContent } from './note-chunker.js';
+import { assessNoteApplicability, loadLandscapeProfile } from './landscape.js';
+import { formatSecurityPatchDayDigest } from './patch-day.js';
+import { assessCvss } from './cvss.js';
+import { IDENTITY_HEADER, IdentityRegistry, IdentitySelectionError, type SapIdentity } from './identities.js';
+import type { NoteWatchEntry } from './note-watchlist.js';
 import {
   NoteSearchInputSchema,
   NoteSearchOutputSchema,
   NoteGetInputSchema,
   NoteGetOutputSchema,
+  NoteGetManyInputSchema,
+  NoteGetManyOutputSchema,
+  NoteReferencesInputSchema,
+  NoteReferencesOutputSchema,
+  NoteApplicabilityInputSchema,
+  NoteApplicabilityOutputSchema,
+  SecurityPatchDayInputSchema,
+  SecurityPatchDayOutputSchema,
+  NoteByCveInputSchema,
+  NoteByCveOutputSchema,
+  NoteWatchAddInputSchema,
+  NoteWatchAddOutputSchema,
+  NoteWatchRemoveInputSchema,
+  NoteWatchRemoveOutputSchema,
+  NoteWatchListInputSchema,
+  NoteWatchListOutputSchema,
+  NoteWatchCheckInputSchema,
+  NoteWatchCheckOutputSchema,
   SAP_NOTE_SEARCH_DESCRIPTION,
-  SAP_NOTE_GET_DESCRIPTION
+  SAP_NOTE_GET_DESCRIPTION,
+  SAP_NOTE_GET_MANY_DESCRIPTION,
+  SAP_NOTE_REFERENCES_DESCRIPTION,
+  SAP_NOTE_APPLICABILITY_DESCRIPTION,
+  SAP_SECURITY_PATCH_DAY_DESCRIPTION,
+  SAP_NOTE_BY_CVE_DESCRIPTION,
+  SAP_NOTE_WATCH_ADD_DESCRIPTION,
+  SAP_NOTE_WATCH_REMOVE_DESCRIPTION,
+  SAP_NOTE_WATCH_LIST_DESCRIPTION,
+  SAP_NOTE_WATCH_CHECK_DESCRIPTION
 } from './schemas/sap-notes.js';
 
 // Get the directory of this module for resolving paths
@@ -32,16 +67,15 @@ config({ path: join(__dirname, '..', '.env') });
  */
 class HttpSapNoteMcpServer {
   private config: ServerConfig;
-  private authenticator: SapAuthenticator;
-  private sapNotesClient: SapNotesApiClient;
+  private identities: IdentityRegistry;
   private mcpServer: McpServer;
   private app: express.Application;
   private server: any;
 
   constructor() {
     this.config = this.loadConfig();
-    this.authenticator = new SapAuthenticator(this.config);
-    this.sapNotesClient = new SapNotesApiClient(this.config);
+    // One identity from PFX_PATH, or the named identities of SAP_IDENTITIES_PATH
+    this.identities = IdentityRegistry.fromEnvironment(this.config);
     
     // Create MCP server with SDK
     this.mcpServer = new McpServer({
@@ -59,22 +93,23 @@ class HttpSapNoteMcpServer {
    * Load configuration from environment variables
    */
   private loadConfig(): ServerConfig {
-    const requiredEnvVars = ['PFX_PATH', 'PFX_PASSPHRASE'];
+    // With an identities file, every identity brings its own certificate
+    const requiredEnvVars = process.env.SAP_IDENTITIES_PATH ? [] : ['PFX_PATH', 'PFX_PASSPHRASE'];
     const missing = requiredEnvVars.filter(envVar => !process.env[envVar]);
     
     if (missing.length > 0) {
       throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
     }
     
-    // Warn if ACCESS_TOKEN is not set (optional but recommended)
-    if (!process.env.ACCESS_TOKEN) {
+    // Warn if ACCESS_TOKEN is not set (optional but recommended; identities may bring their own tokens)
+    if (!process.env.ACCESS_TOKEN && !process.env.SAP_IDENTITIES_PATH) {
       logger.warn('⚠️  ACCESS_TOKEN not set - server will run WITHOUT authentication');
       logger.warn('⚠️  Set ACCESS_TOKEN in .env to enable bearer token authentication');
     }
 
     // Resolve PFX path relative to the project root (where package.json is)
     const projectRoot = join(__dirname, '..');
-    let pfxPath = process.env.PFX_PATH!;
+    let pfxPath = process.env.PFX_PATH || '';
 
     // Expand tilde to user home on all platforms
     if (pfxPath.startsWith('~')) {
@@ -83,7 +118,7 @@ class HttpSapNoteMcpServer {
     }
 
     // If it's not absolute, resolve against project root (works on win32 and posix)
-    if (!isAbsolute(pfxPath)) {
+    if (pfxPath && !isAbsolute(pfxPath)) {
       pfxPath = join(projectRoot, pfxPath);
     }
 
@@ -108,7 +143,7 @@ class HttpSapNoteMcpServer {
     
     return {
       pfxPath: pfxPath,
-      pfxPassphrase: process.env.PFX_PASSPHRASE!,
+      pfxPassphrase: process.env.PFX_PASSPHRASE || '',
       maxJwtAgeH: parseInt(process.env.MAX_JWT_AGE_H || '12'),
       headful: headful,
       logLevel: process.env.LOG_LEVEL || 'info'
@@ -123,7 +158,7 @@ class HttpSapNoteMcpServer {
     this.app.use(cors({
       origin: '*', // Allow all origins for development
       methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'mcp-session-id'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'mcp-session-id', 'X-SAP-Identity'],
       exposedHeaders: ['Mcp-Session-Id'],
       credentials: false
     }));
@@ -139,15 +174,16 @@ class HttpSapNoteMcpServer {
   }
 
   /**
-   * Simple bearer token authentication middleware
+   * Simple bearer token authentication middleware; also selects the caller's SAP identity
    */
   private authMiddleware = (req: express.Request, res: express.Response, next: Function): void => {
     const accessToken = process.env.ACCESS_TOKEN;
+    const requestedIdentity = req.headers[IDENTITY_HEADER] as string | undefined;
     
-    // If no token is configured or it's empty, allow all requests
-    if (!accessToken || accessToken.trim() === '') {
+    // If no token is configured (neither ACCESS_TOKEN nor identity tokens), allow all requests
+    if ((!accessToken || accessToken.trim() === '') && !this.identities.hasAccessTokens) {
       logger.debug('🔓 No ACCESS_TOKEN configured - allowing request without authentication');
-      return next();
+      return this.selectIdentity(req, res, next, undefined, requestedIdentity);
     }
 
     // Try multiple header sources (supports Microsoft Power Platform proxy and standard clients)
@@ -188,8 +224,9 @@ class HttpSapNoteMcpServer {
       return;
     }
 
-    // Validate the token
-    if (token !== accessToken) {
+    // Validate the token: the server-wide ACCESS_TOKEN or a token bound to one identity
+    const boundIdentity = this.identities.forAccessToken(token);
+    if (!boundIdentity && token !== accessToken) {
       logger.warn(`❌ Authentication failed: Invalid token (length: ${token.length})`);
       res.status(401).json({
         jsonrpc: '2.0',
@@ -204,9 +241,58 @@ class HttpSapNoteMcpServer {
 
     // Token is valid, proceed
     logger.info('✅ Authentication successful');
-    next();
+    this.selectIdentity(req, res, next, boundIdentity, requestedIdentity, token);
   };
 
+  /**
+   * Attach the caller's SAP identity to the request; the MCP transport passes it
+   * on to the tool handlers as authInfo
+   */
+  private selectIdentity(
+    req: express.Request,
+    res: express.Response,
+    next: Function,
+    boundIdentity: SapIdentity | undefined,
+    requestedIdentity: string | undefined,
+    token: string = ''
+  ): void {
+    let identity: SapIdentity;
+    try {
+      identity = this.identities.select(boundIdentity, requestedIdentity);
+    } catch (error) {
+      if (!(error instanceof IdentitySelectionError)) {
+        throw error;
+      }
+      logger.warn(`❌ Identity selection failed: ${error.message}`);
+      res.status(error.status).json({
+        jsonrpc: '2.0',
+        id: req.body?.id || null,
+        error: {
+          code: -32001,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    logger.info(`👤 SAP identity: ${identity.name}`);
+    (req as express.Request & { auth?: AuthInfo }).auth = {
+      token,
+      clientId: identity.name,
+      scopes: [],
+      extra: { identity: identity.name }
+    };
+    next();
+  }
+
+  /**
+   * Identity chosen for the calling request by the auth middleware
+   */
+  private identityFor(extra: { authInfo?: AuthInfo }): SapIdentity {
+    const name = extra.authInfo?.extra?.identity;
+    return (typeof name === 'string' && this.identities.get(name)) || this.identities.default;
+  }
+
   /**
    * Setup Express routes
    */
@@ -219,7 +305,10 @@ class HttpSapNoteMcpServer {
         version: '0.3.0',
         sdk: 'mcp-sdk-v1.20.0',
         protocol: 'streamable-http',
-        features: ['enhanced-tool-descriptions']
+        features: ['enhanced-tool-descriptions'],
+        browserPool: getBrowserPool().getMetrics(),
+        session: this.identities.default.refresher.getStatus(),
+        identities: this.identities.getStatus()
       });
     });
 
@@ -278,17 +367,42 @@ class HttpSapNoteMcpServer {
         inputSchema: NoteSearchInputSchema,
         outputSchema: NoteSearchOutputSchema
       },
-      async ({ q, lang = 'EN' }) => {
-        logger.info(`🔎 [sap_note_search] Starting search for query: "${q}"`);
+      async ({
+        q,
+        lang = 'EN',
+        limit = 10,
+        offset = 0,
+        cursor,
+        component,
+        priority,
+        category,
+        releasedAfter,
+        releasedBefore,
+        documentType = 'note',
+        includeFacets = false,
+        sort = 'relevance'
+      }, extra) => {
+        const identity = this.identityFor(extra);
+        logger.info(`🔎 [sap_note_search] Starting search for query: "${q}" (${lang})`);
         
         try {
+          // A cursor takes precedence over offset and pins the language of the first page
+          const filters = { component, priority, category, releasedAfter, releasedBefore, documentType };
+          const page = cursor ? decodeSearchCursor(cursor, q, filters, sort) : { offset, lang };
+
           // Ensure authentication
           logger.warn('🔐 Starting authentication for search...');
-          const token = await this.authenticator.ensureAuthenticated();
+          const token = await identity.authenticator.ensureAuthenticated();
           logger.warn('✅ Authentication successful for search');
 
           // Execute search
-          const searchResponse = await this.sapNotesClient.searchNotes(q, token, 10);
+          const searchResponse = await identity.client.searchNotes(q, token, limit, {
+            lang: page.lang,
+            offset: page.offset,
+            filters,
+            includeFacets,
+            sort
+          });
 
           // Format results
           const output = {
@@ -299,25 +413,57 @@ class HttpSapNoteMcpServer {
               title: note.title,
               summary: note.summary,
               component: note.component || null,
+              priority: note.priority || null,
+              category: note.category || null,
               releaseDate: note.releaseDate,
               language: note.language,
               url: note.url
-            }))
+            })),
+            offset: searchResponse.offset,
+            hasMore: searchResponse.hasMore,
+            nextCursor: searchResponse.nextCursor || null,
+            facets: searchResponse.facets || null
           };
 
           // Format display text
-          let resultText = `Found ${output.totalResults} SAP Note(s) for query: "${output.query}"\n\n`;
+          let resultText = `Found ${output.totalResults} SAP Note(s) for query: "${output.query}"\n`;
+          if (output.results.length > 0) {
+            resultText += `Showing results ${output.offset + 1}-${output.offset + output.results.length}\n`;
+          }
+          resultText += '\n';
           
           for (const note of output.results) {
             resultText += `**SAP Note ${note.id}**\n`;
             resultText += `Title: ${note.title}\n`;
             resultText += `Summary: ${note.summary}\n`;
             resultText += `Component: ${note.component || 'Not specified'}\n`;
+            if (note.priority) {
+              resultText += `Priority: ${note.priority}\n`;
+            }
+            if (note.category) {
+              resultText += `Category: ${note.category}\n`;
+            }
             resultText += `Release Date: ${note.releaseDate}\n`;
             resultText += `Language: ${note.language}\n`;
             resultText += `URL: ${note.url}\n\n`;
           }
 
+          if (output.facets) {
+            const facetLabels = { component: 'Component', priority: 'Priority', category: 'Category', year: 'Year' };
+            resultText += `**Breakdown of all matching notes**\n`;
+            for (const [facetId, label] of Object.entries(facetLabels)) {
+              const values = output.facets[facetId as keyof typeof facetLabels];
+              if (values.length > 0) {
+                resultText += `${label}: ${values.map(v => `${v.value} (${v.count})`).join(', ')}\n`;
+              }
+            }
+            resultText += '\n';
+          }
+
+          if (output.nextCursor) {
+            resultText += `More results available. Call sap_note_search again with the same query and cursor: ${output.nextCursor}\n`;
+          }
+
           logger.info(`✅ [sap_note_search] Successfully completed search, returning ${output.totalResults} results`);
 
           return {
@@ -349,17 +495,18 @@ class HttpSapNoteMcpServer {
         inputSchema: NoteGetInputSchema,
         outputSchema: NoteGetOutputSchema
       },
-      async ({ id, lang = 'EN' }) => {
-        logger.info(`📄 [sap_note_get] Getting note details for ID: ${id}`);
+      async ({ id, lang = 'EN', format = 'markdown', maxChars, part = 1, refresh = false }, extra) => {
+        const identity = this.identityFor(extra);
+        logger.info(`📄 [sap_note_get] Getting note details for ID: ${id} (${lang}, ${format})`);
         
         try {
           // Ensure authentication
           logger.warn('🔐 Starting authentication for note retrieval...');
-          const token = await this.authenticator.ensureAuthenticated();
+          const token = await identity.authenticator.ensureAuthenticated();
           logger.warn('✅ Authentication successful for note retrieval');
 
           // Get note details
-          const noteDetail = await this.sapNotesClient.getNote(id, token);
+          const noteDetail = await identity.client.getNote(id, token, { lang, refresh });
 
           if (!noteDetail) {
             return {
@@ -371,6 +518,23 @@ class HttpSapNoteMcpServer {
             };
           }
 
+          // Render content and sections in the requested format, split into parts if requested
+          const render = (html?: string) => html ? renderNoteContent(html, format) : null;
+          const chunked = chunkNoteContent(renderNoteContent(noteDetail.content, format), format, maxChars);
+          const totalParts = chunked.parts.length;
+
+          if (part > totalParts) {
+            return {
+              content: [{
+                type: 'text',
+                text: `SAP Note ${id} has only ${totalParts} part(s) at maxChars=${maxChars ?? 'unlimited'}. Requested part: ${part}.`
+              }],
+              isError: true
+            };
+          }
+
+          const cvss = assessCvss(noteDetail.cvssScore, noteDetail.cvssVector);
+
           // Structure the output
           const output = {
             id: noteDetail.id,
@@ -382,10 +546,71 @@ class HttpSapNoteMcpServer {
             releaseDate: noteDetail.releaseDate,
             language: noteDetail.language,
             url: noteDetail.url,
-            content: noteDetail.content,
+            fromCache: noteDetail.fromCache || false,
+            fetchedAt: noteDetail.fetchedAt || new Date().toISOString(),
+            format,
+            content: chunked.parts[part - 1],
+            part,
+            totalParts,
+            tableOfContents: chunked.tableOfContents.map(entry => ({
+              title: entry.title,
+              section: entry.section || null,
+              part: entry.part
+            })),
+            sections: noteDetail.sections && totalParts === 1 ? {
+              symptom: render(noteDetail.sections.symptom),
+              reasonAndPrerequisites: render(noteDetail.sections.reasonAndPrerequisites),
+              solution: render(noteDetail.sections.solution),
+              otherTerms: render(noteDetail.sections.otherTerms),
+              seeAlso: render(noteDetail.sections.seeAlso)
+            } : null,
+            references: noteDetail.references ? noteDetail.references.map(reference => ({
+              noteId: reference.noteId,
+              title: reference.title || null,
+              direction: reference.direction,
+              kind: reference.kind,
+              source: reference.source
+            })) : null,
             cvssScore: noteDetail.cvssScore || null,
             cvssVector: noteDetail.cvssVector || null,
-            affectedVersions: noteDetail.affectedVersions || null
+            cves: noteDetail.cves || null,
+            cvss: cvss ? {
+              version: cvss.version || null,
+              vector: cvss.vector || null,
+              baseScore: cvss.baseScore ?? null,
+              computedScore: cvss.computedScore ?? null,
+              scoreMatches: cvss.scoreMatches ?? null,
+              severity: cvss.severity || null,
+              metrics: cvss.metrics || null,
+              error: cvss.error || null
+            } : null,
+            affectedVersions: noteDetail.affectedVersions || null,
+            validity: noteDetail.validity ? noteDetail.validity.map(range => ({
+              softwareComponent: range.softwareComponent,
+              from: range.from || null,
+              to: range.to || null
+            })) : null,
+            correctionInstructions: noteDetail.correctionInstructions ? noteDetail.correctionInstructions.map(instruction => ({
+              id: instruction.id || null,
+              softwareComponent: instruction.softwareComponent || null,
+              validFrom: instruction.validFrom || null,
+              validTo: instruction.validTo || null,
+              lastChanged: instruction.lastChanged || null
+            })) : null,
+            manualActivities: noteDetail.manualActivities ? noteDetail.manualActivities.map(activity => ({
+              phase: activity.phase,
+              title: activity.title || null,
+              description: render(activity.description),
+              softwareComponent: activity.softwareComponent || null,
+              validFrom: activity.validFrom || null,
+              validTo: activity.validTo || null
+            })) : null,
+            attachments: noteDetail.attachments ? noteDetail.attachments.map(attachment => ({
+              fileName: attachment.fileName,
+              url: attachment.url || null,
+              size: attachment.size || null,
+              mimeType: attachment.mimeType || null
+            })) : null
           };
 
           // Format display text
@@ -403,14 +628,73 @@ class HttpSapNoteMcpServer {
           if (output.cvssVector) {
             resultText += `**CVSS Vector:** ${output.cvssVector}\n`;
           }
+          if (output.cves && output.cves.length > 0) {
+            resultText += `**CVE:** ${output.cves.join(', ')}\n`;
+          }
+          if (output.cvss?.severity) {
+            resultText += `**CVSS Severity:** ${output.cvss.severity}${output.cvss.version ? ` (CVSS ${output.cvss.version})` : ''}\n`;
+          }
+          if (output.cvss?.metrics) {
+            const metrics = output.cvss.metrics;
+            resultText += `**CVSS Metrics:** Attack Vector ${metrics.attackVector}, Attack Complexity ${metrics.attackComplexity}, Privileges Required ${metrics.privilegesRequired}, User Interaction ${metrics.userInteraction}, Scope ${metrics.scope}, Impact C/I/A ${metrics.confidentiality}/${metrics.integrity}/${metrics.availability}\n`;
+          }
+          if (output.cvss?.scoreMatches === false) {
+            resultText += `⚠️ CVSS score ${output.cvssScore} does not match the vector (computed ${output.cvss.computedScore})\n`;
+          }
+          if (output.cvss?.error) {
+            resultText += `⚠️ CVSS vector could not be decoded: ${output.cvss.error}\n`;
+          }
           if (output.affectedVersions && output.affectedVersions.length > 0) {
             resultText += `**Affected Versions (${output.affectedVersions.length}):**\n`;
             for (const version of output.affectedVersions) {
               resultText += `  - ${version.component} ${version.version} → ${version.supportPackage}\n`;
             }
           }
+          if (output.validity && output.validity.length > 0) {
+            const releases = (range: { from: string | null; to: string | null }) =>
+              range.from && range.to && range.from !== range.to ? `${range.from} - ${range.to}` : range.from || range.to || 'all releases';
+            resultText += `**Validity:** ${output.validity.map(range => `${range.softwareComponent} ${releases(range)}`).join(', ')}\n`;
+          }
+          if (output.correctionInstructions && output.correctionInstructions.length > 0) {
+            resultText += `**Correction Instructions (${output.correctionInstructions.length}):**\n`;
+            for (const instruction of output.correctionInstructions) {
+              resultText += `  - ${instruction.id || 'n/a'}: ${instruction.softwareComponent || 'component n/a'} ${instruction.validFrom || '?'} - ${instruction.validTo || '?'}\n`;
+            }
+          }
+          if (output.manualActivities && output.manualActivities.length > 0) {
+            const phaseLabels = { pre: 'Pre-implementation', post: 'Post-implementation', other: 'Manual step' };
+            resultText += `**Manual Activities (${output.manualActivities.length}):**\n`;
+            for (const activity of output.manualActivities) {
+              const scope = activity.softwareComponent ? ` [${activity.softwareComponent} ${activity.validFrom || '?'} - ${activity.validTo || '?'}]` : '';
+              resultText += `  - ${phaseLabels[activity.phase]}: ${activity.title || 'see description'}${scope}\n`;
+              if (activity.description) {
+                resultText += `    ${activity.description.replace(/\n/g, '\n    ')}\n`;
+              }
+            }
+          }
+          if (output.attachments && output.attachments.length > 0) {
+            resultText += `**Attachments (${output.attachments.length}):** ${output.attachments.map(attachment => attachment.url ? `[${attachment.fileName}](${attachment.url})` : attachment.fileName).join(', ')}\n`;
+          }
+          if (output.references && output.references.length > 0) {
+            const outbound = output.references.filter(reference => reference.direction === 'outbound');
+            resultText += `**Referenced Notes (${outbound.length}):** ${outbound.map(reference => `${reference.noteId} (${reference.kind})`).join(', ') || 'None'}\n`;
+          }
+          if (output.fromCache) {
+            resultText += `**Cached:** fetched ${output.fetchedAt} (use refresh=true for the latest version)\n`;
+          }
           resultText += `**URL:** ${output.url}\n\n`;
+          if (output.totalParts > 1) {
+            resultText += `**Part:** ${output.part} of ${output.totalParts}\n`;
+            resultText += `**Table of Contents:**\n`;
+            for (const entry of output.tableOfContents) {
+              resultText += `  - ${entry.title} (part ${entry.part})\n`;
+            }
+            resultText += `\n`;
+          }
           resultText += `**Content:**\n${output.content}\n\n`;
+          if (output.part < output.totalParts) {
+            resultText += `*Continue with part=${output.part + 1} (maxChars=${maxChars}) for the next part.*\n`;
+          }
 
           logger.info(`✅ [sap_note_get] Successfully retrieved note ${id}`);
 
@@ -433,6 +717,687 @@ class HttpSapNoteMcpServer {
         }
       }
     );
+
+    // SAP Note Get Many Tool
+    this.mcpServer.registerTool(
+      'sap_note_get_many',
+      {
+        title: 'Get Multiple SAP Notes',
+        description: SAP_NOTE_GET_MANY_DESCRIPTION,
+        inputSchema: NoteGetManyInputSchema,
+        outputSchema: NoteGetManyOutputSchema
+      },
+      async ({ ids, lang = 'EN', format = 'markdown', maxCharsPerNote, refresh = false }, extra) => {
+        const identity = this.identityFor(extra);
+        logger.info(`📚 [sap_note_get_many] Getting ${ids.length} notes: ${ids.join(', ')} (${lang}, ${format})`);
+
+        try {
+          // Ensure authentication
+          const token = await identity.authenticator.ensureAuthenticated();
+
+          const batch = await identity.client.getNotes(ids, token, { lang, refresh });
+
+          // Structure the output (first part only if maxCharsPerNote cuts a note)
+          const results = batch.map(({ id, note, error }) => {
+            if (!note) {
+              return { id, success: false, error: error || 'Unknown retrieval error', note: null };
+            }
+            const chunked = chunkNoteContent(renderNoteContent(note.content, format), format, maxCharsPerNote);
+            return {
+              id,
+              success: true,
+              error: null,
+              note: {
+                title: note.title,
+                noteVersion: note.noteVersion || null,
+                summary: note.summary,
+                component: note.component || null,
+                priority: note.priority || null,
+                category: note.category || null,
+                releaseDate: note.releaseDate,
+                language: note.language,
+                url: note.url,
+                content: chunked.parts[0],
+                totalParts: chunked.parts.length,
+                fromCache: note.fromCache || false,
+                fetchedAt: note.fetchedAt || new Date().toISOString(),
+                cvssScore: note.cvssScore || null,
+                cvssVector: note.cvssVector || null,
+                cves: note.cves || null
+              }
+            };
+          });
+
+          const output = {
+            results,
+            retrieved: results.filter(result => result.success).length,
+            failed: results.filter(result => !result.success).length
+          };
+
+          // Format display text
+          let resultText = `**Retrieved ${output.retrieved} of ${results.length} SAP Notes**\n\n`;
+          for (const result of results) {
+            if (!result.note) {
+              resultText += `---\n**SAP Note ${result.id}** ❌ ${result.error}\n\n`;
+              continue;
+            }
+            resultText += `---\n**SAP Note ${result.id} - ${result.note.title}**\n`;
+            resultText += `**Component:** ${result.note.component || 'Not specified'} | **Priority:** ${result.note.priority || 'Not specified'} | **Release Date:** ${result.note.releaseDate}\n`;
+            resultText += `**URL:** ${result.note.url}\n\n`;
+            resultText += `${result.note.content}\n\n`;
+            if (result.note.totalParts > 1) {
+              resultText += `*Cut at ${maxCharsPerNote} characters - ${result.note.totalParts - 1} more part(s) via sap_note_get(id="${result.id}", maxChars=${maxCharsPerNote}, part=2).*\n\n`;
+            }
+          }
+
+          logger.info(`✅ [sap_note_get_many] ${output.retrieved} retrieved, ${output.failed} failed`);
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ Batch note retrieval failed:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown retrieval error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to retrieve SAP Notes ${ids.join(', ')}: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // SAP Note References Tool
+    this.mcpServer.registerTool(
+      'sap_note_references',
+      {
+        title: 'SAP Note Reference Graph',
+        description: SAP_NOTE_REFERENCES_DESCRIPTION,
+        inputSchema: NoteReferencesInputSchema,
+        outputSchema: NoteReferencesOutputSchema
+      },
+      async ({ id, depth = 1, direction = 'outbound', kinds, maxNotes = 25, lang = 'EN' }, extra) => {
+        const identity = this.identityFor(extra);
+        logger.info(`🕸️ [sap_note_references] Walking references of note ${id} (depth ${depth}, ${direction})`);
+
+        try {
+          // Ensure authentication
+          const token = await identity.authenticator.ensureAuthenticated();
+
+          const graph = await identity.client.getReferenceGraph(id, token, { depth, direction, kinds, maxNotes, lang });
+
+          if (!graph) {
+            return {
+              content: [{
+                type: 'text',
+                text: `SAP Note ${id} not found or not accessible.`
+              }],
+              isError: true
+            };
+          }
+
+          // Structure the output
+          const output = {
+            root: graph.root,
+            depth: graph.depth,
+            nodes: graph.nodes.map(node => ({
+              id: node.id,
+              title: node.title || null,
+              component: node.component || null,
+              depth: node.depth,
+              resolved: node.resolved
+            })),
+            edges: graph.edges,
+            truncated: graph.truncated
+          };
+
+          // Format display text
+          let resultText = `**Reference graph for SAP Note ${output.root}** (depth ${output.depth}, ${direction})\n\n`;
+          resultText += `**Notes (${output.nodes.length}):**\n`;
+          for (const node of output.nodes) {
+            resultText += `${'  '.repeat(node.depth)}- ${node.id}${node.title ? ` - ${node.title}` : ''}${node.resolved ? '' : ' (not fetched)'}\n`;
+          }
+          resultText += `\n**References (${output.edges.length}):**\n`;
+          for (const edge of output.edges) {
+            resultText += `- ${edge.from} → ${edge.to} (${edge.kind})\n`;
+          }
+          if (output.truncated) {
+            resultText += `\n⚠️ Stopped after ${maxNotes} notes - increase maxNotes or restrict kinds for a complete graph.\n`;
+          }
+
+          logger.info(`✅ [sap_note_references] ${output.nodes.length} notes, ${output.edges.length} references`);
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ Reference graph failed for ${id}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown retrieval error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to build reference graph for SAP Note ${id}: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // SAP Note Applicability Tool
+    this.mcpServer.registerTool(
+      'sap_note_applicability',
+      {
+        title: 'SAP Note Applicability Check',
+        description: SAP_NOTE_APPLICABILITY_DESCRIPTION,
+        inputSchema: NoteApplicabilityInputSchema,
+        outputSchema: NoteApplicabilityOutputSchema
+      },
+      async ({ id, systems, lang = 'EN', refresh = false }, extra) => {
+        const identity = this.identityFor(extra);
+        logger.info(`🏭 [sap_note_applicability] Checking note ${id} against the landscape profile`);
+
+        try {
+          const { path: profilePath, profile } = await loadLandscapeProfile();
+          const selected = systems
+            ? profile.systems.filter(system => systems.includes(system.id))
+            : profile.systems;
+
+          if (selected.length === 0) {
+            return {
+              content: [{
+                type: 'text',
+                text: `None of the requested systems (${systems?.join(', ')}) is defined in ${profilePath}. Known systems: ${profile.systems.map(system => system.id).join(', ')}.`
+              }],
+              isError: true
+            };
+          }
+
+          // Ensure authentication
+          const token = await identity.authenticator.ensureAuthenticated();
+
+          const noteDetail = await identity.client.getNote(id, token, { lang, refresh });
+
+          if (!noteDetail) {
+            return {
+              content: [{
+                type: 'text',
+                text: `SAP Note ${id} not found or not accessible.`
+              }],
+              isError: true
+            };
+          }
+
+          const verdicts = assessNoteApplicability(noteDetail, selected);
+
+          // Structure the output
+          const output = {
+            noteId: noteDetail.id,
+            title: noteDetail.title,
+            noteVersion: noteDetail.noteVersion || null,
+            profilePath,
+            systems: verdicts.map(verdict => ({
+              system: verdict.system,
+              description: verdict.description || null,
+              role: verdict.role || null,
+              status: verdict.status,
+              reason: verdict.reason,
+              components: verdict.components.map(component => ({
+                component: component.component,
+                installedRelease: component.installedRelease,
+                installedSupportPackage: component.installedSupportPackage || null,
+                fixSupportPackage: component.fixSupportPackage || null,
+                status: component.status,
+                reason: component.reason
+              }))
+            })),
+            summary: {
+              relevant: verdicts.filter(verdict => verdict.status === 'relevant').length,
+              contained: verdicts.filter(verdict => verdict.status === 'contained').length,
+              notApplicable: verdicts.filter(verdict => verdict.status === 'notApplicable').length,
+              unknown: verdicts.filter(verdict => verdict.status === 'unknown').length
+            }
+          };
+
+          // Format display text
+          const statusLabels = { relevant: '🔴 Relevant', contained: '🟢 Contained', notApplicable: '⚪ Not applicable', unknown: '🟡 Unknown' };
+          let resultText = `**Applicability of SAP Note ${output.noteId}** - ${output.title}\n`;
+          if (output.noteVersion) {
+            resultText += `**Version:** ${output.noteVersion}\n`;
+          }
+          resultText += `**Summary:** ${output.summary.relevant} relevant, ${output.summary.contained} contained, ${output.summary.notApplicable} not applicable, ${output.summary.unknown} unknown\n\n`;
+          for (const system of output.systems) {
+            resultText += `**${system.system}**${system.description ? ` (${system.description})` : ''}: ${statusLabels[system.status]}\n`;
+            resultText += `  ${system.reason}\n`;
+            for (const component of system.components) {
+              resultText += `  - ${component.component} ${component.installedRelease}${component.installedSupportPackage ? ` SP ${component.installedSupportPackage}` : ''}: ${statusLabels[component.status]} - ${component.reason}\n`;
+            }
+          }
+
+          logger.info(`✅ [sap_note_applicability] Note ${id}: ${output.summary.relevant} of ${output.systems.length} systems affected`);
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ Applicability check failed for ${id}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown applicability error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to check applicability of SAP Note ${id}: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // SAP Security Patch Day Tool
+    this.mcpServer.registerTool(
+      'sap_security_patch_day',
+      {
+        title: 'SAP Security Patch Day Digest',
+        description: SAP_SECURITY_PATCH_DAY_DESCRIPTION,
+        inputSchema: SecurityPatchDayInputSchema,
+        outputSchema: SecurityPatchDayOutputSchema
+      },
+      async ({ month, format = 'markdown', maxNotes = 50, lang = 'EN', refresh = false }, extra) => {
+        const identity = this.identityFor(extra);
+        logger.info(`🛡️ [sap_security_patch_day] Building digest for ${month || 'the current month'}`);
+
+        try {
+          // Ensure authentication
+          const token = await identity.authenticator.ensureAuthenticated();
+
+          const digest = await identity.client.getSecurityPatchDay(month, token, { maxNotes, lang, refresh });
+
+          // Structure the output
+          const output = {
+            month: digest.month,
+            patchDay: digest.patchDay,
+            from: digest.from,
+            to: digest.to,
+            notes: digest.notes.map(note => ({
+              id: note.id,
+              title: note.title,
+              cvssScore: note.cvssScore ?? null,
+              cvssVector: note.cvssVector || null,
+              priority: note.priority || null,
+              category: note.category || null,
+              component: note.component || null,
+              releaseDate: note.releaseDate,
+              affectedComponents: note.affectedComponents,
+              url: note.url,
+              error: note.error || null
+            })),
+            truncated: digest.truncated
+          };
+
+          const resultText = format === 'json'
+            ? JSON.stringify(output, null, 2)
+            : formatSecurityPatchDayDigest(digest);
+
+          logger.info(`✅ [sap_security_patch_day] ${output.notes.length} security notes for ${output.month}`);
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ Security patch day digest failed for ${month || 'the current month'}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown patch day error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to build the security patch day digest: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // SAP Note by CVE Tool
+    this.mcpServer.registerTool(
+      'sap_note_by_cve',
+      {
+        title: 'Find SAP Notes by CVE',
+        description: SAP_NOTE_BY_CVE_DESCRIPTION,
+        inputSchema: NoteByCveInputSchema,
+        outputSchema: NoteByCveOutputSchema
+      },
+      async ({ cve, maxCandidates = 10, lang = 'EN' }, extra) => {
+        const identity = this.identityFor(extra);
+        logger.info(`🔐 [sap_note_by_cve] Looking up ${cve}`);
+
+        try {
+          // Ensure authentication
+          const token = await identity.authenticator.ensureAuthenticated();
+
+          const lookup = await identity.client.findNotesByCve(cve, token, { maxCandidates, lang });
+
+          // Structure the output
+          const output = {
+            cve: lookup.cve,
+            notes: lookup.notes.map(note => ({
+              id: note.id,
+              title: note.title,
+              component: note.component || null,
+              priority: note.priority || null,
+              category: note.category || null,
+              releaseDate: note.releaseDate,
+              noteVersion: note.noteVersion || null,
+              cvssScore: note.cvssScore || null,
+              cvssVector: note.cvssVector || null,
+              severity: assessCvss(note.cvssScore, note.cvssVector)?.severity || null,
+              cves: note.cves || [],
+              url: note.url
+            })),
+            unverified: lookup.unverified,
+            candidates: lookup.candidates
+          };
+
+          // Format display text
+          let resultText = `**SAP Notes for ${output.cve}** (${output.notes.length} found, ${output.candidates} search hit(s) checked)\n\n`;
+          if (output.notes.length === 0) {
+            resultText += `No SAP Note naming ${output.cve} was found.\n`;
+          }
+          for (const note of output.notes) {
+            resultText += `**SAP Note ${note.id}** - ${note.title}\n`;
+            resultText += `  Component: ${note.component || 'Not specified'} | Priority: ${note.priority || 'Not specified'} | Released: ${note.releaseDate}\n`;
+            if (note.cvssScore) {
+              resultText += `  CVSS: ${note.cvssScore}${note.severity ? ` (${note.severity})` : ''}${note.cvssVector ? ` - ${note.cvssVector}` : ''}\n`;
+            }
+            if (note.cves.length > 1) {
+              resultText += `  Also fixes: ${note.cves.filter(id => id !== output.cve).join(', ')}\n`;
+            }
+            resultText += `  URL: ${note.url}\n\n`;
+          }
+          if (output.unverified.length > 0) {
+            resultText += `⚠️ Could not check ${output.unverified.length} search hit(s): ${output.unverified.map(hit => `${hit.id} (${hit.error})`).join(', ')}\n`;
+          }
+
+          logger.info(`✅ [sap_note_by_cve] ${output.cve}: ${output.notes.length} note(s)`);
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ CVE lookup failed for ${cve}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown lookup error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to look up SAP Notes for ${cve}: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // SAP Note Watchlist Tools
+    const watchedNote = (entry: NoteWatchEntry) => ({
+      id: entry.id,
+      lang: entry.lang,
+      title: entry.snapshot.title,
+      noteVersion: entry.snapshot.noteVersion || null,
+      releaseDate: entry.snapshot.releaseDate,
+      comment: entry.comment || null,
+      addedAt: entry.addedAt,
+      lastCheckedAt: entry.lastCheckedAt || null,
+      lastChangedAt: entry.lastChangedAt || null
+    });
+
+    this.mcpServer.registerTool(
+      'sap_note_watch_add',
+      {
+        title: 'Watch SAP Note',
+        description: SAP_NOTE_WATCH_ADD_DESCRIPTION,
+        inputSchema: NoteWatchAddInputSchema,
+        outputSchema: NoteWatchAddOutputSchema
+      },
+      async ({ id, lang = 'EN', comment }, extra) => {
+        const identity = this.identityFor(extra);
+        logger.info(`👀 [sap_note_watch_add] Adding note ${id} (${lang}) to the watchlist`);
+
+        try {
+          // Ensure authentication
+          const token = await identity.authenticator.ensureAuthenticated();
+
+          // The baseline is the note as it is on SAP right now, not a cached copy
+          const noteDetail = await identity.client.getNote(id, token, { lang, refresh: true });
+
+          if (!noteDetail) {
+            return {
+              content: [{
+                type: 'text',
+                text: `SAP Note ${id} not found or not accessible.`
+              }],
+              isError: true
+            };
+          }
+
+          const { entry, added } = await identity.watchlist.add(noteDetail, lang, comment);
+          const output = {
+            note: watchedNote(entry),
+            added,
+            total: (await identity.watchlist.list()).length
+          };
+
+          const resultText = added
+            ? `👀 Now watching SAP Note ${output.note.id} - ${output.note.title} (version ${output.note.noteVersion || 'unknown'}, released ${output.note.releaseDate}). ${output.total} note(s) on the watchlist.`
+            : `SAP Note ${output.note.id} is already watched (baseline version ${output.note.noteVersion || 'unknown'} kept).`;
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ Failed to watch note ${id}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown watchlist error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to add SAP Note ${id} to the watchlist: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    this.mcpServer.registerTool(
+      'sap_note_watch_remove',
+      {
+        title: 'Stop Watching SAP Note',
+        description: SAP_NOTE_WATCH_REMOVE_DESCRIPTION,
+        inputSchema: NoteWatchRemoveInputSchema,
+        outputSchema: NoteWatchRemoveOutputSchema
+      },
+      async ({ id, lang }, extra) => {
+        const identity = this.identityFor(extra);
+        logger.info(`👀 [sap_note_watch_remove] Removing note ${id} from the watchlist`);
+
+        try {
+          const removed = await identity.watchlist.remove(id, lang);
+          const output = {
+            id,
+            removed,
+            total: (await identity.watchlist.list()).length
+          };
+
+          return {
+            content: [{
+              type: 'text',
+              text: removed > 0
+                ? `Stopped watching SAP Note ${id}. ${output.total} note(s) left on the watchlist.`
+                : `SAP Note ${id} was not on the watchlist.`
+            }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ Failed to unwatch note ${id}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown watchlist error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to remove SAP Note ${id} from the watchlist: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    this.mcpServer.registerTool(
+      'sap_note_watch_list',
+      {
+        title: 'List Watched SAP Notes',
+        description: SAP_NOTE_WATCH_LIST_DESCRIPTION,
+        inputSchema: NoteWatchListInputSchema,
+        outputSchema: NoteWatchListOutputSchema
+      },
+      async (_args, extra) => {
+        const identity = this.identityFor(extra);
+        try {
+          const output = {
+            path: identity.watchlist.path,
+            notes: (await identity.watchlist.list()).map(watchedNote)
+          };
+
+          let resultText = `**Watched SAP Notes (${output.notes.length})**\n\n`;
+          if (output.notes.length === 0) {
+            resultText += 'The watchlist is empty. Add notes with sap_note_watch_add.\n';
+          }
+          for (const note of output.notes) {
+            resultText += `- **${note.id}** (${note.lang}) ${note.title} - version ${note.noteVersion || 'unknown'}, released ${note.releaseDate}`;
+            resultText += note.lastCheckedAt ? `, checked ${note.lastCheckedAt}` : ', not checked yet';
+            resultText += note.comment ? ` - ${note.comment}\n` : '\n';
+          }
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error('❌ Failed to list the watchlist:', error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown watchlist error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to read the watchlist: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    this.mcpServer.registerTool(
+      'sap_note_watch_check',
+      {
+        title: 'Check Watched SAP Notes',
+        description: SAP_NOTE_WATCH_CHECK_DESCRIPTION,
+        inputSchema: NoteWatchCheckInputSchema,
+        outputSchema: NoteWatchCheckOutputSchema
+      },
+      async ({ ids }, extra) => {
+        const identity = this.identityFor(extra);
+        logger.info(`👀 [sap_note_watch_check] Checking ${ids ? ids.join(', ') : 'all watched notes'}`);
+
+        try {
+          // Ensure authentication
+          const token = await identity.authenticator.ensureAuthenticated();
+
+          const checked = await identity.watchlist.check(
+            (noteIds, lang) => identity.client.getNotes(noteIds, token, { lang, refresh: true }),
+            ids
+          );
+
+          const results = checked.map(result => ({
+            id: result.id,
+            lang: result.lang,
+            title: result.title,
+            previousVersion: result.previousVersion || null,
+            currentVersion: result.currentVersion || null,
+            changed: result.changes.length > 0,
+            changes: result.changes.map(change => ({
+              field: change.field,
+              summary: change.summary,
+              before: change.before ?? null,
+              after: change.after ?? null
+            })),
+            error: result.error || null
+          }));
+          const output = {
+            results,
+            changed: results.filter(result => result.changed).length,
+            failed: results.filter(result => result.error).length
+          };
+
+          // Format display text
+          let resultText = `**Watchlist check:** ${output.changed} of ${results.length} note(s) changed`;
+          resultText += output.failed > 0 ? `, ${output.failed} could not be checked\n\n` : '\n\n';
+          for (const result of results.filter(result => result.changed)) {
+            resultText += `🔔 **SAP Note ${result.id}** - ${result.title} (version ${result.previousVersion || 'unknown'} → ${result.currentVersion || 'unknown'})\n`;
+            for (const change of result.changes) {
+              resultText += `  - ${change.summary}\n`;
+            }
+            resultText += '\n';
+          }
+          for (const result of results.filter(result => result.error)) {
+            resultText += `❌ **SAP Note ${result.id}**: ${result.error}\n`;
+          }
+          const unchanged = results.filter(result => !result.changed && !result.error);
+          if (unchanged.length > 0) {
+            resultText += `Unchanged: ${unchanged.map(result => result.id).join(', ')}\n`;
+          }
+
+          logger.info(`✅ [sap_note_watch_check] ${output.changed} changed, ${output.failed} failed`);
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error('❌ Watchlist check failed:', error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown watchlist error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to check the watchlist: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
   }
 
   /**
@@ -450,6 +1415,7 @@ class HttpSapNoteMcpServer {
         logger.warn(`🔗 MCP endpoint: http://localhost:${port}/mcp`);
         logger.warn(`💡 Health check: http://localhost:${port}/health`);
         logger.warn('✅ Server ready to accept connections');
+        this.identities.start();
         resolve();
       });
     });
@@ -476,8 +1442,7 @@ class HttpSapNoteMcpServer {
     logger.info('Shutting down HTTP MCP server...');
     try {
       await this.stop();
-      await this.sapNotesClient.cleanup();
-      await this.authenticator.destroy();
+      await this.identities.shutdown();
       logger.info('Server shutdown completed');
     } catch (error) {
       logger.error('Error during shutdown:', error);
@@ -0,0 +1,306 @@
+import { readFileSync } from 'fs';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import YAML from 'yaml';
+import type { ServerConfig } from './types.js';
+import { logger } from './logger.js';
+import { SapAuthenticator } from './auth.js';
+import { NoteCache } from './note-cache.js';
+import { NoteWatchlist } from './note-watchlist.js';
+import { SapNotesApiClient, type SapNoteDetail } from './sap-notes-api.js';
+import { SessionRefresher, type SessionRefreshStatus } from './session-refresher.js';
+import { createTokenStore } from './token-store.js';
+import { SapIdentitiesFileSchema, type SapIdentitiesFile } from './schemas/identities.js';
+
+// Name of the identity built from PFX_PATH / PFX_PASSPHRASE when no identities file is configured
+export const DEFAULT_IDENTITY_NAME = 'default';
+
+// Request header that selects an identity by name
+export const IDENTITY_HEADER = 'x-sap-identity';
+
+class IdentityConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdentityConfigError';
+  }
+}
+
+/**
+ * The caller may not use the requested identity (HTTP status for the response included)
+ */
+export class IdentitySelectionError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'IdentitySelectionError';
+    this.status = status;
+  }
+}
+
+/**
+ * One S-user: its certificate, session and everything that caches data fetched with it
+ */
+export interface SapIdentity {
+  readonly name: string;
+  readonly description?: string;
+  readonly config: ServerConfig;
+  readonly authenticator: SapAuthenticator;
+  readonly client: SapNotesApiClient;
+  readonly watchlist: NoteWatchlist;
+  readonly refresher: SessionRefresher;
+}
+
+/**
+ * Where an identity keeps its state; unset fields use the process-wide defaults
+ */
+export interface SapIdentityOptions {
+  name: string;
+  description?: string;
+  tokenCachePath?: string;
+  noteCacheNamespace?: string;
+  watchlistPath?: string;
+}
+
+export interface SapIdentityStatus {
+  name: string;
+  description?: string;
+  default: boolean;
+  session: SessionRefreshStatus;
+}
+
+/**
+ * Wire up the authenticator, notes client, watchlist and refresher of one identity
+ */
+export function createSapIdentity(config: ServerConfig, options: SapIdentityOptions): SapIdentity {
+  // One store for both, so the client sees the session the authenticator saved
+  const tokenStore = createTokenStore({ path: options.tokenCachePath });
+  const authenticator = new SapAuthenticator(config, tokenStore);
+  const client = new SapNotesApiClient(
+    config,
+    tokenStore,
+    authenticator,
+    new NoteCache<SapNoteDetail>({ namespace: options.noteCacheNamespace })
+  );
+  const refresher = new SessionRefresher(
+    authenticator,
+    token => client.probeSession(token),
+    {
+      maxAgeMs: config.maxJwtAgeH * 60 * 60 * 1000,
+      onSessionReplaced: (previousToken, token) => client.replaceSession(previousToken, token)
+    }
+  );
+
+  return {
+    name: options.name,
+    description: options.description,
+    config,
+    authenticator,
+    client,
+    watchlist: new NoteWatchlist(options.watchlistPath),
+    refresher
+  };
+}
+
+/**
+ * Replace `${NAME}` references with environment variables, so secrets stay out of the file
+ */
+function expandEnv(value: unknown, missing: Set<string>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => {
+      const resolved = process.env[name];
+      if (resolved === undefined) {
+        missing.add(name);
+        return '';
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => expandEnv(item, missing));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, expandEnv(item, missing)]));
+  }
+  return value;
+}
+
+/**
+ * Resolve a path from the identities file: "~" is the home directory, relative paths start at the file
+ */
+function resolveFrom(baseDir: string, path: string): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return join(process.env.HOME || process.env.USERPROFILE || '', path.slice(1));
+  }
+  return isAbsolute(path) ? path : resolve(baseDir, path);
+}
+
+/**
+ * Read and validate an identities file (JSON or YAML)
+ */
+export function loadIdentitiesFile(path: string): SapIdentitiesFile {
+  const fullPath = resolve(path);
+
+  let raw: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser covers both formats
+    raw = YAML.parse(readFileSync(fullPath, 'utf-8'));
+  } catch (error) {
+    throw new IdentityConfigError(`Cannot read identities file ${fullPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const missing = new Set<string>();
+  const expanded = expandEnv(raw, missing);
+  if (missing.size > 0) {
+    throw new IdentityConfigError(`Identities file ${fullPath} references unset environment variables: ${Array.from(missing).join(', ')}`);
+  }
+
+  const parsed = SapIdentitiesFileSchema.safeParse(expanded);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+    throw new IdentityConfigError(`Identities file ${fullPath} is invalid: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Named SAP identities served by one server.
+ *
+ * Callers are mapped to an identity by the bearer token they present (tokens
+ * listed under an identity are bound to it) or, with the server-wide
+ * ACCESS_TOKEN, by the X-SAP-Identity header. Everything fetched with an
+ * identity's session - token cache, note cache, watchlist - is kept apart,
+ * since entitlements differ between S-users.
+ */
+export class IdentityRegistry {
+  private identities = new Map<string, SapIdentity>();
+  private accessTokens = new Map<string, string>();
+  private defaultName: string;
+
+  constructor(identities: SapIdentity[], defaultName: string = identities[0]?.name, accessTokens: Record<string, string[]> = {}) {
+    for (const identity of identities) {
+      this.identities.set(identity.name, identity);
+    }
+    for (const [name, tokens] of Object.entries(accessTokens)) {
+      for (const token of tokens) {
+        this.accessTokens.set(token, name);
+      }
+    }
+    if (!this.identities.has(defaultName)) {
+      throw new IdentityConfigError(`Default identity "${defaultName}" is not configured`);
+    }
+    this.defaultName = defaultName;
+  }
+
+  /**
+   * Build the registry from SAP_IDENTITIES_PATH, or a single identity from the
+   * server configuration (PFX_PATH / PFX_PASSPHRASE) if no file is configured
+   */
+  static fromEnvironment(baseConfig: ServerConfig, path: string | undefined = process.env.SAP_IDENTITIES_PATH): IdentityRegistry {
+    if (!path) {
+      return new IdentityRegistry([createSapIdentity(baseConfig, { name: DEFAULT_IDENTITY_NAME })]);
+    }
+
+    const file = loadIdentitiesFile(path);
+    const baseDir = dirname(resolve(path));
+    // Per-identity token caches and watchlists default to the directories of the single-identity files
+    const tokenCacheDir = dirname(resolve(process.env.TOKEN_CACHE_PATH || 'token-cache.json'));
+    const watchlistDir = dirname(resolve(process.env.NOTE_WATCHLIST_PATH || 'note-watchlist.json'));
+    const identities = file.identities.map(definition => createSapIdentity(
+      {
+        ...baseConfig,
+        pfxPath: resolveFrom(baseDir, definition.pfxPath),
+        pfxPassphrase: definition.pfxPassphrase,
+        maxJwtAgeH: definition.maxJwtAgeH ?? baseConfig.maxJwtAgeH
+      },
+      {
+        name: definition.name,
+        description: definition.description,
+        tokenCachePath: definition.tokenCachePath
+          ? resolveFrom(baseDir, definition.tokenCachePath)
+          : join(tokenCacheDir, `token-cache-${definition.name}.json`),
+        noteCacheNamespace: definition.name,
+        watchlistPath: definition.watchlistPath
+          ? resolveFrom(baseDir, definition.watchlistPath)
+          : join(watchlistDir, `note-watchlist-${definition.name}.json`)
+      }
+    ));
+
+    const accessTokens = Object.fromEntries(file.identities.map(definition => [definition.name, definition.accessTokens]));
+    const registry = new IdentityRegistry(identities, file.default, accessTokens);
+    logger.warn(`👥 Loaded ${identities.length} SAP identities from ${resolve(path)} (default: ${registry.default.name})`);
+    return registry;
+  }
+
+  get default(): SapIdentity {
+    return this.identities.get(this.defaultName)!;
+  }
+
+  get names(): string[] {
+    return Array.from(this.identities.keys());
+  }
+
+  /**
+   * Whether identity-bound access tokens are configured (they require authentication)
+   */
+  get hasAccessTokens(): boolean {
+    return this.accessTokens.size > 0;
+  }
+
+  get(name: string): SapIdentity | undefined {
+    return this.identities.get(name);
+  }
+
+  /**
+   * Identity bound to a bearer token, if any
+   */
+  forAccessToken(token: string): SapIdentity | undefined {
+    const name = this.accessTokens.get(token);
+    return name ? this.identities.get(name) : undefined;
+  }
+
+  /**
+   * Pick the identity for a caller. A bound token decides on its own (a header
+   * naming another identity is rejected); otherwise the header selects, and
+   * without it the default identity serves the call.
+   */
+  select(boundIdentity: SapIdentity | undefined, requested: string | undefined): SapIdentity {
+    const name = requested?.trim();
+    if (boundIdentity) {
+      if (name && name !== boundIdentity.name) {
+        throw new IdentitySelectionError(`Access token is not valid for identity "${name}"`, 403);
+      }
+      return boundIdentity;
+    }
+    if (!name) {
+      return this.default;
+    }
+    const identity = this.identities.get(name);
+    if (!identity) {
+      throw new IdentitySelectionError(`Unknown SAP identity "${name}" (available: ${this.names.join(', ')})`, 400);
+    }
+    return identity;
+  }
+
+  start(): void {
+    for (const identity of this.identities.values()) {
+      identity.refresher.start();
+    }
+  }
+
+  getStatus(): SapIdentityStatus[] {
+    return Array.from(this.identities.values()).map(identity => ({
+      name: identity.name,
+      description: identity.description,
+      default: identity.name === this.defaultName,
+      session: identity.refresher.getStatus()
+    }));
+  }
+
+  async shutdown(): Promise<void> {
+    for (const identity of this.identities.values()) {
+      identity.refresher.stop();
+      await identity.client.cleanup();
+      await identity.authenticator.destroy();
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import { readFile, stat } from 'fs/promises';
+import { resolve } from 'path';
+import YAML from 'yaml';
+import { logger } from './logger.js';
+import type { SapNoteDetail } from './sap-notes-api.js';
+import {
+  LandscapeProfileSchema,
+  type LandscapeComponent,
+  type LandscapeProfile,
+  type LandscapeSystem
+} from './schemas/landscape.js';
+
+/**
+ * Verdict for a system (or one of its components)
+ * - relevant: the system runs an affected release below the SP that contains the fix
+ * - contained: the installed SP already contains the fix
+ * - notApplicable: the note's components or releases are not installed
+ * - unknown: the note or the profile lacks the data to decide
+ */
+export type NoteApplicabilityStatus = 'relevant' | 'contained' | 'notApplicable' | 'unknown';
+
+export interface ComponentApplicability {
+  component: string;
+  installedRelease: string;
+  installedSupportPackage?: string;
+  fixSupportPackage?: string;
+  status: NoteApplicabilityStatus;
+  reason: string;
+}
+
+export interface SystemApplicability {
+  system: string;
+  description?: string;
+  role?: string;
+  status: NoteApplicabilityStatus;
+  reason: string;
+  components: ComponentApplicability[];
+}
+
+// Which component verdict decides the system verdict (highest wins)
+const STATUS_RANK: Record<NoteApplicabilityStatus, number> = {
+  relevant: 4,
+  unknown: 3,
+  contained: 2,
+  notApplicable: 1
+};
+
+class LandscapeProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LandscapeProfileError';
+  }
+}
+
+let loadedProfile: { path: string; mtimeMs: number; profile: LandscapeProfile } | null = null;
+
+/**
+ * Load the landscape profile (JSON or YAML), re-reading it when the file changes
+ */
+export async function loadLandscapeProfile(path: string = process.env.LANDSCAPE_PROFILE_PATH || 'landscape.yaml'): Promise<{ path: string; profile: LandscapeProfile }> {
+  const fullPath = resolve(path);
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await stat(fullPath)).mtimeMs;
+  } catch {
+    throw new LandscapeProfileError(
+      `No landscape profile found at ${fullPath}. Create one (see landscape.example.yaml) or set LANDSCAPE_PROFILE_PATH.`
+    );
+  }
+
+  if (loadedProfile && loadedProfile.path === fullPath && loadedProfile.mtimeMs === mtimeMs) {
+    return { path: fullPath, profile: loadedProfile.profile };
+  }
+
+  let raw: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser covers both formats
+    raw = YAML.parse(await readFile(fullPath, 'utf-8'));
+  } catch (error) {
+    throw new LandscapeProfileError(`Landscape profile ${fullPath} is not valid JSON/YAML: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = LandscapeProfileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+    throw new LandscapeProfileError(`Landscape profile ${fullPath} is invalid: ${issues}`);
+  }
+
+  loadedProfile = { path: fullPath, mtimeMs, profile: parsed.data };
+  logger.info(`🏭 Loaded landscape profile with ${parsed.data.systems.length} systems from ${fullPath}`);
+  return { path: fullPath, profile: parsed.data };
+}
+
+/**
+ * Compare release/SP strings numerically where possible ("99" < "102", "7.50" < "7.52")
+ */
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * SP level from the notations used by SAP and in profiles:
+ * "SAPK-10208INS4CORE" (release 102, SP 08), "SAPKB75706", "SP04", "SPS 04", "0004", "4"
+ */
+export function parseSupportPackageLevel(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const normalized = value.trim().toUpperCase();
+  const patchName = normalized.match(/^SAPK[A-Z]*-?\d{3}(\d{2})/);
+  if (patchName) {
+    return parseInt(patchName[1], 10);
+  }
+  const level = normalized.match(/^(?:SPS?)?\s*0*(\d+)\b/);
+  return level ? parseInt(level[1], 10) : undefined;
+}
+
+function formatRange(from?: string, to?: string): string {
+  if (from && to && from !== to) {
+    return `${from}-${to}`;
+  }
+  return from || to || 'all releases';
+}
+
+/**
+ * Decide whether the note affects one installed component
+ */
+function assessComponent(installed: LandscapeComponent, note: SapNoteDetail): ComponentApplicability {
+  const result = {
+    component: installed.name,
+    installedRelease: installed.release,
+    installedSupportPackage: installed.supportPackage
+  };
+
+  const ranges = (note.validity || []).filter(range => range.softwareComponent === installed.name);
+  const fixes = (note.affectedVersions || []).filter(version => version.component === installed.name);
+  const inRange = ranges.some(range =>
+    (!range.from || compareVersions(installed.release, range.from) >= 0) &&
+    (!range.to || compareVersions(installed.release, range.to) <= 0)
+  );
+
+  if (ranges.length > 0 && !inRange) {
+    return {
+      ...result,
+      status: 'notApplicable',
+      reason: `Release ${installed.release} is outside the note's validity (${ranges.map(range => formatRange(range.from, range.to)).join(', ')})`
+    };
+  }
+
+  const fix = fixes.find(version => compareVersions(version.version, installed.release) === 0);
+  if (!fix) {
+    if (ranges.length === 0) {
+      // Without validity data the SP list is the only statement about affected releases
+      return {
+        ...result,
+        status: 'notApplicable',
+        reason: `No support package listed for release ${installed.release} (listed: ${fixes.map(version => version.version).join(', ')})`
+      };
+    }
+    const corrections = (note.correctionInstructions || []).filter(instruction => instruction.softwareComponent === installed.name);
+    return {
+      ...result,
+      status: 'relevant',
+      reason: `Release ${installed.release} is within the validity, no support package with the fix is listed - implement the note` +
+        (corrections.length > 0 ? ` (${corrections.length} correction instruction(s))` : '')
+    };
+  }
+
+  const fixLevel = parseSupportPackageLevel(fix.supportPackage);
+  const installedLevel = parseSupportPackageLevel(installed.supportPackage);
+  if (fixLevel === undefined) {
+    return {
+      ...result,
+      fixSupportPackage: fix.supportPackage || undefined,
+      status: 'relevant',
+      reason: `Release ${installed.release} is affected; the SP containing the fix is not stated`
+    };
+  }
+  if (installedLevel === undefined) {
+    return {
+      ...result,
+      fixSupportPackage: fix.supportPackage,
+      status: 'unknown',
+      reason: `Fix is shipped with SP ${fixLevel} (${fix.supportPackage}), but the profile has no SP level for ${installed.name}`
+    };
+  }
+  if (installedLevel >= fixLevel) {
+    return {
+      ...result,
+      fixSupportPackage: fix.supportPackage,
+      status: 'contained',
+      reason: `Installed SP ${installedLevel} already contains the fix (SP ${fixLevel}, ${fix.supportPackage})`
+    };
+  }
+  return {
+    ...result,
+    fixSupportPackage: fix.supportPackage,
+    status: 'relevant',
+    reason: `Installed SP ${installedLevel} is below SP ${fixLevel} (${fix.supportPackage}) - implement the note or update to SP ${fixLevel}`
+  };
+}
+
+/**
+ * Decide per system whether a note is relevant, already contained in the installed SP, or not applicable.
+ * Based on the note's validity ranges and its support package list (affectedVersions).
+ */
+export function assessNoteApplicability(note: SapNoteDetail, systems: LandscapeSystem[]): SystemApplicability[] {
+  const noteComponents = new Set([
+    ...(note.validity || []).map(range => range.softwareComponent),
+    ...(note.affectedVersions || []).map(version => version.component)
+  ]);
+
+  return systems.map(system => {
+    const base = { system: system.id, description: system.description, role: system.role };
+
+    if (noteComponents.size === 0) {
+      return {
+        ...base,
+        status: 'unknown' as const,
+        reason: 'The note lists no validity or support package data (e.g. a consulting note or KBA) - check the note text',
+        components: []
+      };
+    }
+
+    const components = system.components
+      .filter(component => noteComponents.has(component.name))
+      .map(component => assessComponent(component, note));
+
+    if (components.length === 0) {
+      return {
+        ...base,
+        status: 'notApplicable' as const,
+        reason: `None of the note's components (${Array.from(noteComponents).join(', ')}) is installed`,
+        components
+      };
+    }
+
+    const decisive = components.reduce((best, component) =>
+      STATUS_RANK[component.status] > STATUS_RANK[best.status] ? component : best
+    );
+    return {
+      ...base,
+      status: decisive.status,
+      reason: `${decisive.component} ${decisive.installedRelease}: ${decisive.reason}`,
+      components
+    };
+  });
+}
@@ -6,15 +6,50 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import type { ServerConfig } from './types.js';
 import { SapAuthenticator } from './auth.js';
-import { SapNotesApiClient } from './sap-notes-api.js';
+import { SapNotesApiClient, decodeSearchCursor } from './sap-notes-api.js';
 import { logger } from './logger.js';
+import { renderNoteContent } from './note-format.js';
+import { chunkNoteContent } from './note-chunker.js';
+import { assessNoteApplicability, loadLandscapeProfile } from './landscape.js';
+import { formatSecurityPatchDayDigest } from './patch-day.js';
+import { assessCvss } from './cvss.js';
+import { createTokenStore } from './token-store.js';
+import { SessionRefresher } from './session-refresher.js';
+import { NoteWatchlist, type NoteWatchEntry } from './note-watchlist.js';
 import {
   NoteSearchInputSchema,
   NoteSearchOutputSchema,
   NoteGetInputSchema,
   NoteGetOutputSchema,
+  NoteGetManyInputSchema,
+  NoteGetManyOutputSchema,
+  NoteReferencesInputSchema,
+  NoteReferencesOutputSchema,
+  NoteApplicabilityInputSchema,
+  NoteApplicabilityOutputSchema,
+  SecurityPatchDayInputSchema,
+  SecurityPatchDayOutputSchema,
+  NoteByCveInputSchema,
+  NoteByCveOutputSchema,
+  NoteWatchAddInputSchema,
+  NoteWatchAddOutputSchema,
+  NoteWatchRemoveInputSchema,
+  NoteWatchRemoveOutputSchema,
+  NoteWatchListInputSchema,
+  NoteWatchListOutputSchema,
+  NoteWatchCheckInputSchema,
+  NoteWatchCheckOutputSchema,
   SAP_NOTE_SEARCH_DESCRIPTION,
-  SAP_NOTE_GET_DESCRIPTION
+  SAP_NOTE_GET_DESCRIPTION,
+  SAP_NOTE_GET_MANY_DESCRIPTION,
+  SAP_NOTE_REFERENCES_DESCRIPTION,
+  SAP_NOTE_APPLICABILITY_DESCRIPTION,
+  SAP_SECURITY_PATCH_DAY_DESCRIPTION,
+  SAP_NOTE_BY_CVE_DESCRIPTION,
+  SAP_NOTE_WATCH_ADD_DESCRIPTION,
+  SAP_NOTE_WATCH_REMOVE_DESCRIPTION,
+  SAP_NOTE_WATCH_LIST_DESCRIPTION,
+  SAP_NOTE_WATCH_CHECK_DESCRIPTION
 } from './schemas/sap-notes.js';
 
 // Get the directory of this module for resolving paths
@@ -32,12 +67,25 @@ class SapNoteMcpServer {
   private config: ServerConfig;
   private authenticator: SapAuthenticator;
   private sapNotesClient: SapNotesApiClient;
+  private noteWatchlist: NoteWatchlist;
+  private sessionRefresher: SessionRefresher;
   private mcpServer: McpServer;
 
   constructor() {
     this.config = this.loadConfig();
-    this.authenticator = new SapAuthenticator(this.config);
-    this.sapNotesClient = new SapNotesApiClient(this.config);
+    // One store for both, so the client sees the session the authenticator saved
+    const tokenStore = createTokenStore();
+    this.authenticator = new SapAuthenticator(this.config, tokenStore);
+    this.sapNotesClient = new SapNotesApiClient(this.config, tokenStore, this.authenticator);
+    this.noteWatchlist = new NoteWatchlist();
+    this.sessionRefresher = new SessionRefresher(
+      this.authenticator,
+      token => this.sapNotesClient.probeSession(token),
+      {
+        maxAgeMs: this.config.maxJwtAgeH * 60 * 60 * 1000,
+        onSessionReplaced: (previousToken, token) => this.sapNotesClient.replaceSession(previousToken, token)
+      }
+    );
     
     // Create MCP server with official SDK
     this.mcpServer = new McpServer({
@@ -115,17 +163,41 @@ class SapNoteMcpServer {
         inputSchema: NoteSearchInputSchema,
         outputSchema: NoteSearchOutputSchema
       },
-      async ({ q, lang = 'EN' }) => {
-        logger.info(`🔎 [sap_note_search] Starting search for query: "${q}"`);
+      async ({
+        q,
+        lang = 'EN',
+        limit = 10,
+        offset = 0,
+        cursor,
+        component,
+        priority,
+        category,
+        releasedAfter,
+        releasedBefore,
+        documentType = 'note',
+        includeFacets = false,
+        sort = 'relevance'
+      }) => {
+        logger.info(`🔎 [sap_note_search] Starting search for query: "${q}" (${lang})`);
         
         try {
+          // A cursor takes precedence over offset and pins the language of the first page
+          const filters = { component, priority, category, releasedAfter, releasedBefore, documentType };
+          const page = cursor ? decodeSearchCursor(cursor, q, filters, sort) : { offset, lang };
+
           // Ensure authentication
           logger.warn('🔐 Starting authentication for search...');
           const token = await this.authenticator.ensureAuthenticated();
           logger.warn('✅ Authentication successful for search');
 
           // Execute search
-          const searchResponse = await this.sapNotesClient.searchNotes(q, token, 10);
+          const searchResponse = await this.sapNotesClient.searchNotes(q, token, limit, {
+            lang: page.lang,
+            offset: page.offset,
+            filters,
+            includeFacets,
+            sort
+          });
 
           // Format results
           const output = {
@@ -136,25 +208,57 @@ class SapNoteMcpServer {
               title: note.title,
               summary: note.summary,
               component: note.component || null,
+              priority: note.priority || null,
+              category: note.category || null,
               releaseDate: note.releaseDate,
               language: note.language,
               url: note.url
-            }))
+            })),
+            offset: searchResponse.offset,
+            hasMore: searchResponse.hasMore,
+            nextCursor: searchResponse.nextCursor || null,
+            facets: searchResponse.facets || null
           };
 
           // Format display text
-          let resultText = `Found ${output.totalResults} SAP Note(s) for query: "${output.query}"\n\n`;
+          let resultText = `Found ${output.totalResults} SAP Note(s) for query: "${output.query}"\n`;
+          if (output.results.length > 0) {
+            resultText += `Showing results ${output.offset + 1}-${output.offset + output.results.length}\n`;
+          }
+          resultText += '\n';
           
           for (const note of output.results) {
             resultText += `**SAP Note ${note.id}**\n`;
             resultText += `Title: ${note.title}\n`;
             resultText += `Summary: ${note.summary}\n`;
             resultText += `Component: ${note.component || 'Not specified'}\n`;
+            if (note.priority) {
+              resultText += `Priority: ${note.priority}\n`;
+            }
+            if (note.category) {
+              resultText += `Category: ${note.category}\n`;
+            }
             resultText += `Release Date: ${note.releaseDate}\n`;
             resultText += `Language: ${note.language}\n`;
             resultText += `URL: ${note.url}\n\n`;
           }
 
+          if (output.facets) {
+            const facetLabels = { component: 'Component', priority: 'Priority', category: 'Category', year: 'Year' };
+            resultText += `**Breakdown of all matching notes**\n`;
+            for (const [facetId, label] of Object.entries(facetLabels)) {
+              const values = output.facets[facetId as keyof typeof facetLabels];
+              if (values.length > 0) {
+                resultText += `${label}: ${values.map(v => `${v.value} (${v.count})`).join(', ')}\n`;
+              }
+            }
+            resultText += '\n';
+          }
+
+          if (output.nextCursor) {
+            resultText += `More results available. Call sap_note_search again with the same query and cursor: ${output.nextCursor}\n`;
+          }
+
           logger.info(`✅ [sap_note_search] Successfully completed search, returning ${output.totalResults} results`);
 
           return {
@@ -186,8 +290,8 @@ class SapNoteMcpServer {
         inputSchema: NoteGetInputSchema,
         outputSchema: NoteGetOutputSchema
       },
-      async ({ id, lang = 'EN' }) => {
-        logger.info(`📄 [sap_note_get] Getting note details for ID: ${id}`);
+      async ({ id, lang = 'EN', format = 'markdown', maxChars, part = 1, refresh = false }) => {
+        logger.info(`📄 [sap_note_get] Getting note details for ID: ${id} (${lang}, ${format})`);
         
         try {
           // Ensure authentication
@@ -196,7 +300,7 @@ class SapNoteMcpServer {
           logger.warn('✅ Authentication successful for note retrieval');
 
           // Get note details
-          const noteDetail = await this.sapNotesClient.getNote(id, token);
+          const noteDetail = await this.sapNotesClient.getNote(id, token, { lang, refresh });
 
           if (!noteDetail) {
             return {
@@ -208,6 +312,23 @@ class SapNoteMcpServer {
             };
           }
 
+          // Render content and sections in the requested format, split into parts if requested
+          const render = (html?: string) => html ? renderNoteContent(html, format) : null;
+          const chunked = chunkNoteContent(renderNoteContent(noteDetail.content, format), format, maxChars);
+          const totalParts = chunked.parts.length;
+
+          if (part > totalParts) {
+            return {
+              content: [{
+                type: 'text',
+                text: `SAP Note ${id} has only ${totalParts} part(s) at maxChars=${maxChars ?? 'unlimited'}. Requested part: ${part}.`
+              }],
+              isError: true
+            };
+          }
+
+          const cvss = assessCvss(noteDetail.cvssScore, noteDetail.cvssVector);
+
           // Structure the output
           const output = {
             id: noteDetail.id,
@@ -220,10 +341,71 @@ class SapNoteMcpServer {
             releaseDate: noteDetail.releaseDate,
             language: noteDetail.language,
             url: noteDetail.url,
-            content: noteDetail.content,
+            fromCache: noteDetail.fromCache || false,
+            fetchedAt: noteDetail.fetchedAt || new Date().toISOString(),
+            format,
+            content: chunked.parts[part - 1],
+            part,
+            totalParts,
+            tableOfContents: chunked.tableOfContents.map(entry => ({
+              title: entry.title,
+              section: entry.section || null,
+              part: entry.part
+            })),
+            sections: noteDetail.sections && totalParts === 1 ? {
+              symptom: render(noteDetail.sections.symptom),
+              reasonAndPrerequisites: render(noteDetail.sections.reasonAndPrerequisites),
+              solution: render(noteDetail.sections.solution),
+              otherTerms: render(noteDetail.sections.otherTerms),
+              seeAlso: render(noteDetail.sections.seeAlso)
+            } : null,
+            references: noteDetail.references ? noteDetail.references.map(reference => ({
+              noteId: reference.noteId,
+              title: reference.title || null,
+              direction: reference.direction,
+              kind: reference.kind,
+              source: reference.source
+            })) : null,
             cvssScore: noteDetail.cvssScore || null,
             cvssVector: noteDetail.cvssVector || null,
-            affectedVersions: noteDetail.affectedVersions || null
+            cves: noteDetail.cves || null,
+            cvss: cvss ? {
+              version: cvss.version || null,
+              vector: cvss.vector || null,
+              baseScore: cvss.baseScore ?? null,
+              computedScore: cvss.computedScore ?? null,
+              scoreMatches: cvss.scoreMatches ?? null,
+              severity: cvss.severity || null,
+              metrics: cvss.metrics || null,
+              error: cvss.error || null
+            } : null,
+            affectedVersions: noteDetail.affectedVersions || null,
+            validity: noteDetail.validity ? noteDetail.validity.map(range => ({
+              softwareComponent: range.softwareComponent,
+              from: range.from || null,
+              to: range.to || null
+            })) : null,
+            correctionInstructions: noteDetail.correctionInstructions ? noteDetail.correctionInstructions.map(instruction => ({
+              id: instruction.id || null,
+              softwareComponent: instruction.softwareComponent || null,
+              validFrom: instruction.validFrom || null,
+              validTo: instruction.validTo || null,
+              lastChanged: instruction.lastChanged || null
+            })) : null,
+            manualActivities: noteDetail.manualActivities ? noteDetail.manualActivities.map(activity => ({
+              phase: activity.phase,
+              title: activity.title || null,
+              description: render(activity.description),
+              softwareComponent: activity.softwareComponent || null,
+              validFrom: activity.validFrom || null,
+              validTo: activity.validTo || null
+            })) : null,
+            attachments: noteDetail.attachments ? noteDetail.attachments.map(attachment => ({
+              fileName: attachment.fileName,
+              url: attachment.url || null,
+              size: attachment.size || null,
+              mimeType: attachment.mimeType || null
+            })) : null
           };
 
           // Format display text
@@ -244,14 +426,73 @@ class SapNoteMcpServer {
           if (output.cvssVector) {
             resultText += `**CVSS Vector:** ${output.cvssVector}\n`;
           }
+          if (output.cves && output.cves.length > 0) {
+            resultText += `**CVE:** ${output.cves.join(', ')}\n`;
+          }
+          if (output.cvss?.severity) {
+            resultText += `**CVSS Severity:** ${output.cvss.severity}${output.cvss.version ? ` (CVSS ${output.cvss.version})` : ''}\n`;
+          }
+          if (output.cvss?.metrics) {
+            const metrics = output.cvss.metrics;
+            resultText += `**CVSS Metrics:** Attack Vector ${metrics.attackVector}, Attack Complexity ${metrics.attackComplexity}, Privileges Required ${metrics.privilegesRequired}, User Interaction ${metrics.userInteraction}, Scope ${metrics.scope}, Impact C/I/A ${metrics.confidentiality}/${metrics.integrity}/${metrics.availability}\n`;
+          }
+          if (output.cvss?.scoreMatches === false) {
+            resultText += `⚠️ CVSS score ${output.cvssScore} does not match the vector (computed ${output.cvss.computedScore})\n`;
+          }
+          if (output.cvss?.error) {
+            resultText += `⚠️ CVSS vector could not be decoded: ${output.cvss.error}\n`;
+          }
           if (output.affectedVersions && output.affectedVersions.length > 0) {
             resultText += `**Affected Versions (${output.affectedVersions.length}):**\n`;
             for (const version of output.affectedVersions) {
               resultText += `  - ${version.component} ${version.version} → ${version.supportPackage}\n`;
             }
           }
+          if (output.validity && output.validity.length > 0) {
+            const releases = (range: { from: string | null; to: string | null }) =>
+              range.from && range.to && range.from !== range.to ? `${range.from} - ${range.to}` : range.from || range.to || 'all releases';
+            resultText += `**Validity:** ${output.validity.map(range => `${range.softwareComponent} ${releases(range)}`).join(', ')}\n`;
+          }
+          if (output.correctionInstructions && output.correctionInstructions.length > 0) {
+            resultText += `**Correction Instructions (${output.correctionInstructions.length}):**\n`;
+            for (const instruction of output.correctionInstructions) {
+              resultText += `  - ${instruction.id || 'n/a'}: ${instruction.softwareComponent || 'component n/a'} ${instruction.validFrom || '?'} - ${instruction.validTo || '?'}\n`;
+            }
+          }
+          if (output.manualActivities && output.manualActivities.length > 0) {
+            const phaseLabels = { pre: 'Pre-implementation', post: 'Post-implementation', other: 'Manual step' };
+            resultText += `**Manual Activities (${output.manualActivities.length}):**\n`;
+            for (const activity of output.manualActivities) {
+              const scope = activity.softwareComponent ? ` [${activity.softwareComponent} ${activity.validFrom || '?'} - ${activity.validTo || '?'}]` : '';
+              resultText += `  - ${phaseLabels[activity.phase]}: ${activity.title || 'see description'}${scope}\n`;
+              if (activity.description) {
+                resultText += `    ${activity.description.replace(/\n/g, '\n    ')}\n`;
+              }
+            }
+          }
+          if (output.attachments && output.attachments.length > 0) {
+            resultText += `**Attachments (${output.attachments.length}):** ${output.attachments.map(attachment => attachment.url ? `[${attachment.fileName}](${attachment.url})` : attachment.fileName).join(', ')}\n`;
+          }
+          if (output.references && output.references.length > 0) {
+            const outbound = output.references.filter(reference => reference.direction === 'outbound');
+            resultText += `**Referenced Notes (${outbound.length}):** ${outbound.map(reference => `${reference.noteId} (${reference.kind})`).join(', ') || 'None'}\n`;
+          }
+          if (output.fromCache) {
+            resultText += `**Cached:** fetched ${output.fetchedAt} (use refresh=true for the latest version)\n`;
+          }
           resultText += `**URL:** ${output.url}\n\n`;
+          if (output.totalParts > 1) {
+            resultText += `**Part:** ${output.part} of ${output.totalParts}\n`;
+            resultText += `**Table of Contents:**\n`;
+            for (const entry of output.tableOfContents) {
+              resultText += `  - ${entry.title} (part ${entry.part})\n`;
+            }
+            resultText += `\n`;
+          }
           resultText += `**Content:**\n${output.content}\n\n`;
+          if (output.part < output.totalParts) {
+            resultText += `*Continue with part=${output.part + 1} (maxChars=${maxChars}) for the next part.*\n`;
+          }
 
           logger.info(`✅ [sap_note_get] Successfully retrieved note ${id}`);
 
@@ -274,6 +515,678 @@ class SapNoteMcpServer {
         }
       }
     );
+
+    // SAP Note Get Many Tool
+    this.mcpServer.registerTool(
+      'sap_note_get_many',
+      {
+        title: 'Get Multiple SAP Notes',
+        description: SAP_NOTE_GET_MANY_DESCRIPTION,
+        inputSchema: NoteGetManyInputSchema,
+        outputSchema: NoteGetManyOutputSchema
+      },
+      async ({ ids, lang = 'EN', format = 'markdown', maxCharsPerNote, refresh = false }) => {
+        logger.info(`📚 [sap_note_get_many] Getting ${ids.length} notes: ${ids.join(', ')} (${lang}, ${format})`);
+
+        try {
+          // Ensure authentication
+          const token = await this.authenticator.ensureAuthenticated();
+
+          const batch = await this.sapNotesClient.getNotes(ids, token, { lang, refresh });
+
+          // Structure the output (first part only if maxCharsPerNote cuts a note)
+          const results = batch.map(({ id, note, error }) => {
+            if (!note) {
+              return { id, success: false, error: error || 'Unknown retrieval error', note: null };
+            }
+            const chunked = chunkNoteContent(renderNoteContent(note.content, format), format, maxCharsPerNote);
+            return {
+              id,
+              success: true,
+              error: null,
+              note: {
+                title: note.title,
+                noteVersion: note.noteVersion || null,
+                summary: note.summary,
+                component: note.component || null,
+                priority: note.priority || null,
+                category: note.category || null,
+                releaseDate: note.releaseDate,
+                language: note.language,
+                url: note.url,
+                content: chunked.parts[0],
+                totalParts: chunked.parts.length,
+                fromCache: note.fromCache || false,
+                fetchedAt: note.fetchedAt || new Date().toISOString(),
+                cvssScore: note.cvssScore || null,
+                cvssVector: note.cvssVector || null,
+                cves: note.cves || null
+              }
+            };
+          });
+
+          const output = {
+            results,
+            retrieved: results.filter(result => result.success).length,
+            failed: results.filter(result => !result.success).length
+          };
+
+          // Format display text
+          let resultText = `**Retrieved ${output.retrieved} of ${results.length} SAP Notes**\n\n`;
+          for (const result of results) {
+            if (!result.note) {
+              resultText += `---\n**SAP Note ${result.id}** ❌ ${result.error}\n\n`;
+              continue;
+            }
+            resultText += `---\n**SAP Note ${result.id} - ${result.note.title}**\n`;
+            resultText += `**Component:** ${result.note.component || 'Not specified'} | **Priority:** ${result.note.priority || 'Not specified'} | **Release Date:** ${result.note.releaseDate}\n`;
+            resultText += `**URL:** ${result.note.url}\n\n`;
+            resultText += `${result.note.content}\n\n`;
+            if (result.note.totalParts > 1) {
+              resultText += `*Cut at ${maxCharsPerNote} characters - ${result.note.totalParts - 1} more part(s) via sap_note_get(id="${result.id}", maxChars=${maxCharsPerNote}, part=2).*\n\n`;
+            }
+          }
+
+          logger.info(`✅ [sap_note_get_many] ${output.retrieved} retrieved, ${output.failed} failed`);
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ Batch note retrieval failed:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown retrieval error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to retrieve SAP Notes ${ids.join(', ')}: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // SAP Note References Tool
+    this.mcpServer.registerTool(
+      'sap_note_references',
+      {
+        title: 'SAP Note Reference Graph',
+        description: SAP_NOTE_REFERENCES_DESCRIPTION,
+        inputSchema: NoteReferencesInputSchema,
+        outputSchema: NoteReferencesOutputSchema
+      },
+      async ({ id, depth = 1, direction = 'outbound', kinds, maxNotes = 25, lang = 'EN' }) => {
+        logger.info(`🕸️ [sap_note_references] Walking references of note ${id} (depth ${depth}, ${direction})`);
+
+        try {
+          // Ensure authentication
+          const token = await this.authenticator.ensureAuthenticated();
+
+          const graph = await this.sapNotesClient.getReferenceGraph(id, token, { depth, direction, kinds, maxNotes, lang });
+
+          if (!graph) {
+            return {
+              content: [{
+                type: 'text',
+                text: `SAP Note ${id} not found or not accessible.`
+              }],
+              isError: true
+            };
+          }
+
+          // Structure the output
+          const output = {
+            root: graph.root,
+            depth: graph.depth,
+            nodes: graph.nodes.map(node => ({
+              id: node.id,
+              title: node.title || null,
+              component: node.component || null,
+              depth: node.depth,
+              resolved: node.resolved
+            })),
+            edges: graph.edges,
+            truncated: graph.truncated
+          };
+
+          // Format display text
+          let resultText = `**Reference graph for SAP Note ${output.root}** (depth ${output.depth}, ${direction})\n\n`;
+          resultText += `**Notes (${output.nodes.length}):**\n`;
+          for (const node of output.nodes) {
+            resultText += `${'  '.repeat(node.depth)}- ${node.id}${node.title ? ` - ${node.title}` : ''}${node.resolved ? '' : ' (not fetched)'}\n`;
+          }
+          resultText += `\n**References (${output.edges.length}):**\n`;
+          for (const edge of output.edges) {
+            resultText += `- ${edge.from} → ${edge.to} (${edge.kind})\n`;
+          }
+          if (output.truncated) {
+            resultText += `\n⚠️ Stopped after ${maxNotes} notes - increase maxNotes or restrict kinds for a complete graph.\n`;
+          }
+
+          logger.info(`✅ [sap_note_references] ${output.nodes.length} notes, ${output.edges.length} references`);
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ Reference graph failed for ${id}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown retrieval error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to build reference graph for SAP Note ${id}: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // SAP Note Applicability Tool
+    this.mcpServer.registerTool(
+      'sap_note_applicability',
+      {
+        title: 'SAP Note Applicability Check',
+        description: SAP_NOTE_APPLICABILITY_DESCRIPTION,
+        inputSchema: NoteApplicabilityInputSchema,
+        outputSchema: NoteApplicabilityOutputSchema
+      },
+      async ({ id, systems, lang = 'EN', refresh = false }) => {
+        logger.info(`🏭 [sap_note_applicability] Checking note ${id} against the landscape profile`);
+
+        try {
+          const { path: profilePath, profile } = await loadLandscapeProfile();
+          const selected = systems
+            ? profile.systems.filter(system => systems.includes(system.id))
+            : profile.systems;
+
+          if (selected.length === 0) {
+            return {
+              content: [{
+                type: 'text',
+                text: `None of the requested systems (${systems?.join(', ')}) is defined in ${profilePath}. Known systems: ${profile.systems.map(system => system.id).join(', ')}.`
+              }],
+              isError: true
+            };
+          }
+
+          // Ensure authentication
+          const token = await this.authenticator.ensureAuthenticated();
+
+          const noteDetail = await this.sapNotesClient.getNote(id, token, { lang, refresh });
+
+          if (!noteDetail) {
+            return {
+              content: [{
+                type: 'text',
+                text: `SAP Note ${id} not found or not accessible.`
+              }],
+              isError: true
+            };
+          }
+
+          const verdicts = assessNoteApplicability(noteDetail, selected);
+
+          // Structure the output
+          const output = {
+            noteId: noteDetail.id,
+            title: noteDetail.title,
+            noteVersion: noteDetail.noteVersion || null,
+            profilePath,
+            systems: verdicts.map(verdict => ({
+              system: verdict.system,
+              description: verdict.description || null,
+              role: verdict.role || null,
+              status: verdict.status,
+              reason: verdict.reason,
+              components: verdict.components.map(component => ({
+                component: component.component,
+                installedRelease: component.installedRelease,
+                installedSupportPackage: component.installedSupportPackage || null,
+                fixSupportPackage: component.fixSupportPackage || null,
+                status: component.status,
+                reason: component.reason
+              }))
+            })),
+            summary: {
+              relevant: verdicts.filter(verdict => verdict.status === 'relevant').length,
+              contained: verdicts.filter(verdict => verdict.status === 'contained').length,
+              notApplicable: verdicts.filter(verdict => verdict.status === 'notApplicable').length,
+              unknown: verdicts.filter(verdict => verdict.status === 'unknown').length
+            }
+          };
+
+          // Format display text
+          const statusLabels = { relevant: '🔴 Relevant', contained: '🟢 Contained', notApplicable: '⚪ Not applicable', unknown: '🟡 Unknown' };
+          let resultText = `**Applicability of SAP Note ${output.noteId}** - ${output.title}\n`;
+          if (output.noteVersion) {
+            resultText += `**Version:** ${output.noteVersion}\n`;
+          }
+          resultText += `**Summary:** ${output.summary.relevant} relevant, ${output.summary.contained} contained, ${output.summary.notApplicable} not applicable, ${output.summary.unknown} unknown\n\n`;
+          for (const system of output.systems) {
+            resultText += `**${system.system}**${system.description ? ` (${system.description})` : ''}: ${statusLabels[system.status]}\n`;
+            resultText += `  ${system.reason}\n`;
+            for (const component of system.components) {
+              resultText += `  - ${component.component} ${component.installedRelease}${component.installedSupportPackage ? ` SP ${component.installedSupportPackage}` : ''}: ${statusLabels[component.status]} - ${component.reason}\n`;
+            }
+          }
+
+          logger.info(`✅ [sap_note_applicability] Note ${id}: ${output.summary.relevant} of ${output.systems.length} systems affected`);
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ Applicability check failed for ${id}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown applicability error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to check applicability of SAP Note ${id}: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // SAP Security Patch Day Tool
+    this.mcpServer.registerTool(
+      'sap_security_patch_day',
+      {
+        title: 'SAP Security Patch Day Digest',
+        description: SAP_SECURITY_PATCH_DAY_DESCRIPTION,
+        inputSchema: SecurityPatchDayInputSchema,
+        outputSchema: SecurityPatchDayOutputSchema
+      },
+      async ({ month, format = 'markdown', maxNotes = 50, lang = 'EN', refresh = false }) => {
+        logger.info(`🛡️ [sap_security_patch_day] Building digest for ${month || 'the current month'}`);
+
+        try {
+          // Ensure authentication
+          const token = await this.authenticator.ensureAuthenticated();
+
+          const digest = await this.sapNotesClient.getSecurityPatchDay(month, token, { maxNotes, lang, refresh });
+
+          // Structure the output
+          const output = {
+            month: digest.month,
+            patchDay: digest.patchDay,
+            from: digest.from,
+            to: digest.to,
+            notes: digest.notes.map(note => ({
+              id: note.id,
+              title: note.title,
+              cvssScore: note.cvssScore ?? null,
+              cvssVector: note.cvssVector || null,
+              priority: note.priority || null,
+              category: note.category || null,
+              component: note.component || null,
+              releaseDate: note.releaseDate,
+              affectedComponents: note.affectedComponents,
+              url: note.url,
+              error: note.error || null
+            })),
+            truncated: digest.truncated
+          };
+
+          const resultText = format === 'json'
+            ? JSON.stringify(output, null, 2)
+            : formatSecurityPatchDayDigest(digest);
+
+          logger.info(`✅ [sap_security_patch_day] ${output.notes.length} security notes for ${output.month}`);
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ Security patch day digest failed for ${month || 'the current month'}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown patch day error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to build the security patch day digest: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // SAP Note by CVE Tool
+    this.mcpServer.registerTool(
+      'sap_note_by_cve',
+      {
+        title: 'Find SAP Notes by CVE',
+        description: SAP_NOTE_BY_CVE_DESCRIPTION,
+        inputSchema: NoteByCveInputSchema,
+        outputSchema: NoteByCveOutputSchema
+      },
+      async ({ cve, maxCandidates = 10, lang = 'EN' }) => {
+        logger.info(`🔐 [sap_note_by_cve] Looking up ${cve}`);
+
+        try {
+          // Ensure authentication
+          const token = await this.authenticator.ensureAuthenticated();
+
+          const lookup = await this.sapNotesClient.findNotesByCve(cve, token, { maxCandidates, lang });
+
+          // Structure the output
+          const output = {
+            cve: lookup.cve,
+            notes: lookup.notes.map(note => ({
+              id: note.id,
+              title: note.title,
+              component: note.component || null,
+              priority: note.priority || null,
+              category: note.category || null,
+              releaseDate: note.releaseDate,
+              noteVersion: note.noteVersion || null,
+              cvssScore: note.cvssScore || null,
+              cvssVector: note.cvssVector || null,
+              severity: assessCvss(note.cvssScore, note.cvssVector)?.severity || null,
+              cves: note.cves || [],
+              url: note.url
+            })),
+            unverified: lookup.unverified,
+            candidates: lookup.candidates
+          };
+
+          // Format display text
+          let resultText = `**SAP Notes for ${output.cve}** (${output.notes.length} found, ${output.candidates} search hit(s) checked)\n\n`;
+          if (output.notes.length === 0) {
+            resultText += `No SAP Note naming ${output.cve} was found.\n`;
+          }
+          for (const note of output.notes) {
+            resultText += `**SAP Note ${note.id}** - ${note.title}\n`;
+            resultText += `  Component: ${note.component || 'Not specified'} | Priority: ${note.priority || 'Not specified'} | Released: ${note.releaseDate}\n`;
+            if (note.cvssScore) {
+              resultText += `  CVSS: ${note.cvssScore}${note.severity ? ` (${note.severity})` : ''}${note.cvssVector ? ` - ${note.cvssVector}` : ''}\n`;
+            }
+            if (note.cves.length > 1) {
+              resultText += `  Also fixes: ${note.cves.filter(id => id !== output.cve).join(', ')}\n`;
+            }
+            resultText += `  URL: ${note.url}\n\n`;
+          }
+          if (output.unverified.length > 0) {
+            resultText += `⚠️ Could not check ${output.unverified.length} search hit(s): ${output.unverified.map(hit => `${hit.id} (${hit.error})`).join(', ')}\n`;
+          }
+
+          logger.info(`✅ [sap_note_by_cve] ${output.cve}: ${output.notes.length} note(s)`);
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ CVE lookup failed for ${cve}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown lookup error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to look up SAP Notes for ${cve}: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // SAP Note Watchlist Tools
+    const watchedNote = (entry: NoteWatchEntry) => ({
+      id: entry.id,
+      lang: entry.lang,
+      title: entry.snapshot.title,
+      noteVersion: entry.snapshot.noteVersion || null,
+      releaseDate: entry.snapshot.releaseDate,
+      comment: entry.comment || null,
+      addedAt: entry.addedAt,
+      lastCheckedAt: entry.lastCheckedAt || null,
+      lastChangedAt: entry.lastChangedAt || null
+    });
+
+    this.mcpServer.registerTool(
+      'sap_note_watch_add',
+      {
+        title: 'Watch SAP Note',
+        description: SAP_NOTE_WATCH_ADD_DESCRIPTION,
+        inputSchema: NoteWatchAddInputSchema,
+        outputSchema: NoteWatchAddOutputSchema
+      },
+      async ({ id, lang = 'EN', comment }) => {
+        logger.info(`👀 [sap_note_watch_add] Adding note ${id} (${lang}) to the watchlist`);
+
+        try {
+          // Ensure authentication
+          const token = await this.authenticator.ensureAuthenticated();
+
+          // The baseline is the note as it is on SAP right now, not a cached copy
+          const noteDetail = await this.sapNotesClient.getNote(id, token, { lang, refresh: true });
+
+          if (!noteDetail) {
+            return {
+              content: [{
+                type: 'text',
+                text: `SAP Note ${id} not found or not accessible.`
+              }],
+              isError: true
+            };
+          }
+
+          const { entry, added } = await this.noteWatchlist.add(noteDetail, lang, comment);
+          const output = {
+            note: watchedNote(entry),
+            added,
+            total: (await this.noteWatchlist.list()).length
+          };
+
+          const resultText = added
+            ? `👀 Now watching SAP Note ${output.note.id} - ${output.note.title} (version ${output.note.noteVersion || 'unknown'}, released ${output.note.releaseDate}). ${output.total} note(s) on the watchlist.`
+            : `SAP Note ${output.note.id} is already watched (baseline version ${output.note.noteVersion || 'unknown'} kept).`;
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ Failed to watch note ${id}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown watchlist error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to add SAP Note ${id} to the watchlist: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    this.mcpServer.registerTool(
+      'sap_note_watch_remove',
+      {
+        title: 'Stop Watching SAP Note',
+        description: SAP_NOTE_WATCH_REMOVE_DESCRIPTION,
+        inputSchema: NoteWatchRemoveInputSchema,
+        outputSchema: NoteWatchRemoveOutputSchema
+      },
+      async ({ id, lang }) => {
+        logger.info(`👀 [sap_note_watch_remove] Removing note ${id} from the watchlist`);
+
+        try {
+          const removed = await this.noteWatchlist.remove(id, lang);
+          const output = {
+            id,
+            removed,
+            total: (await this.noteWatchlist.list()).length
+          };
+
+          return {
+            content: [{
+              type: 'text',
+              text: removed > 0
+                ? `Stopped watching SAP Note ${id}. ${output.total} note(s) left on the watchlist.`
+                : `SAP Note ${id} was not on the watchlist.`
+            }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error(`❌ Failed to unwatch note ${id}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown watchlist error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to remove SAP Note ${id} from the watchlist: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    this.mcpServer.registerTool(
+      'sap_note_watch_list',
+      {
+        title: 'List Watched SAP Notes',
+        description: SAP_NOTE_WATCH_LIST_DESCRIPTION,
+        inputSchema: NoteWatchListInputSchema,
+        outputSchema: NoteWatchListOutputSchema
+      },
+      async () => {
+        try {
+          const output = {
+            path: this.noteWatchlist.path,
+            notes: (await this.noteWatchlist.list()).map(watchedNote)
+          };
+
+          let resultText = `**Watched SAP Notes (${output.notes.length})**\n\n`;
+          if (output.notes.length === 0) {
+            resultText += 'The watchlist is empty. Add notes with sap_note_watch_add.\n';
+          }
+          for (const note of output.notes) {
+            resultText += `- **${note.id}** (${note.lang}) ${note.title} - version ${note.noteVersion || 'unknown'}, released ${note.releaseDate}`;
+            resultText += note.lastCheckedAt ? `, checked ${note.lastCheckedAt}` : ', not checked yet';
+            resultText += note.comment ? ` - ${note.comment}\n` : '\n';
+          }
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error('❌ Failed to list the watchlist:', error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown watchlist error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to read the watchlist: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    this.mcpServer.registerTool(
+      'sap_note_watch_check',
+      {
+        title: 'Check Watched SAP Notes',
+        description: SAP_NOTE_WATCH_CHECK_DESCRIPTION,
+        inputSchema: NoteWatchCheckInputSchema,
+        outputSchema: NoteWatchCheckOutputSchema
+      },
+      async ({ ids }) => {
+        logger.info(`👀 [sap_note_watch_check] Checking ${ids ? ids.join(', ') : 'all watched notes'}`);
+
+        try {
+          // Ensure authentication
+          const token = await this.authenticator.ensureAuthenticated();
+
+          const checked = await this.noteWatchlist.check(
+            (noteIds, lang) => this.sapNotesClient.getNotes(noteIds, token, { lang, refresh: true }),
+            ids
+          );
+
+          const results = checked.map(result => ({
+            id: result.id,
+            lang: result.lang,
+            title: result.title,
+            previousVersion: result.previousVersion || null,
+            currentVersion: result.currentVersion || null,
+            changed: result.changes.length > 0,
+            changes: result.changes.map(change => ({
+              field: change.field,
+              summary: change.summary,
+              before: change.before ?? null,
+              after: change.after ?? null
+            })),
+            error: result.error || null
+          }));
+          const output = {
+            results,
+            changed: results.filter(result => result.changed).length,
+            failed: results.filter(result => result.error).length
+          };
+
+          // Format display text
+          let resultText = `**Watchlist check:** ${output.changed} of ${results.length} note(s) changed`;
+          resultText += output.failed > 0 ? `, ${output.failed} could not be checked\n\n` : '\n\n';
+          for (const result of results.filter(result => result.changed)) {
+            resultText += `🔔 **SAP Note ${result.id}** - ${result.title} (version ${result.previousVersion || 'unknown'} → ${result.currentVersion || 'unknown'})\n`;
+            for (const change of result.changes) {
+              resultText += `  - ${change.summary}\n`;
+            }
+            resultText += '\n';
+          }
+          for (const result of results.filter(result => result.error)) {
+            resultText += `❌ **SAP Note ${result.id}**: ${result.error}\n`;
+          }
+          const unchanged = results.filter(result => !result.changed && !result.error);
+          if (unchanged.length > 0) {
+            resultText += `Unchanged: ${unchanged.map(result => result.id).join(', ')}\n`;
+          }
+
+          logger.info(`✅ [sap_note_watch_check] ${output.changed} changed, ${output.failed} failed`);
+
+          return {
+            content: [{ type: 'text', text: resultText }],
+            structuredContent: output
+          };
+
+        } catch (error) {
+          logger.error('❌ Watchlist check failed:', error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown watchlist error';
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Failed to check the watchlist: ${errorMessage}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
   }
 
   /**
@@ -290,6 +1203,7 @@ class SapNoteMcpServer {
       await this.mcpServer.connect(transport);
       
       logger.warn('✅ MCP Server connected and ready');
+      this.sessionRefresher.start();
       
     } catch (error) {
       logger.error('❌ Failed to start MCP server:', error);
@@ -303,6 +1217,8 @@ class SapNoteMcpServer {
   async shutdown(): Promise<void> {
     logger.info('Shutting down MCP server...');
     try {
+      this.sessionRefresher.stop();
+      await this.sapNotesClient.cleanup();
       await this.authenticator.destroy();
       logger.info('Server shutdown completed');
     } catch (error) {
@@ -0,0 +1,165 @@
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { NoteLanguage } from './types.js';
+import { logger } from './logger.js';
+
+export interface NoteCacheOptions {
+  dir?: string;
+  namespace?: string;    // Subdirectory, e.g. one per SAP identity (entitlements differ)
+  ttlHours?: number;     // 0 disables the cache
+  maxSizeMb?: number;
+}
+
+/**
+ * A cached note together with the time it was downloaded
+ */
+export interface NoteCacheEntry<T> {
+  id: string;
+  lang: NoteLanguage;
+  noteVersion: string;
+  fetchedAt: string;
+  note: T;
+}
+
+/**
+ * Disk-backed note cache with TTL and size limit.
+ *
+ * One file per note, language and version (`<id>_<lang>_v<version>.json`), so a
+ * newer version of a note never collides with an older download. Storing a note
+ * removes the superseded versions; the least recently fetched files are evicted
+ * once the cache exceeds its size limit.
+ */
+export class NoteCache<T extends { noteVersion?: string }> {
+  private dir: string;
+  private ttlMs: number;
+  private maxBytes: number;
+
+  constructor(options: NoteCacheOptions = {}) {
+    const dir = options.dir ?? (process.env.NOTE_CACHE_DIR || 'note-cache');
+    this.dir = options.namespace ? join(dir, options.namespace) : dir;
+    this.ttlMs = (options.ttlHours ?? parseFloat(process.env.NOTE_CACHE_TTL_H || '24')) * 60 * 60 * 1000;
+    this.maxBytes = (options.maxSizeMb ?? parseFloat(process.env.NOTE_CACHE_MAX_MB || '100')) * 1024 * 1024;
+  }
+
+  get enabled(): boolean {
+    return this.ttlMs > 0;
+  }
+
+  /**
+   * Return the newest cached version of a note if it is still within the TTL
+   */
+  async get(id: string, lang: NoteLanguage): Promise<NoteCacheEntry<T> | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    try {
+      const files = await this.listVersions(id, lang);
+      for (const file of files) {
+        const entry = JSON.parse(await readFile(join(this.dir, file), 'utf-8')) as NoteCacheEntry<T>;
+        const age = Date.now() - new Date(entry.fetchedAt).getTime();
+        if (!(age >= 0 && age < this.ttlMs)) {
+          logger.debug(`🗑️ Cached note ${id} (${lang}) expired`);
+          await this.remove(file);
+          continue;
+        }
+        logger.info(`💾 Note cache hit: ${id} (${lang}, version ${entry.noteVersion})`);
+        return entry;
+      }
+    } catch (error) {
+      logger.warn(`⚠️ Failed to read note cache for ${id}: ${error instanceof Error ? error.message : error}`);
+    }
+    return null;
+  }
+
+  /**
+   * Store a freshly fetched note, replacing older cached versions
+   */
+  async set(id: string, lang: NoteLanguage, note: T): Promise<NoteCacheEntry<T>> {
+    const entry: NoteCacheEntry<T> = {
+      id,
+      lang,
+      noteVersion: note.noteVersion || '0',
+      fetchedAt: new Date().toISOString(),
+      note
+    };
+    if (!this.enabled) {
+      return entry;
+    }
+
+    try {
+      await mkdir(this.dir, { recursive: true });
+      const file = this.fileName(id, lang, entry.noteVersion);
+      // Write to a temporary file first so readers never see a partial entry
+      const tempPath = join(this.dir, `${file}.${process.pid}.tmp`);
+      await writeFile(tempPath, JSON.stringify(entry));
+      await rename(tempPath, join(this.dir, file));
+
+      for (const superseded of await this.listVersions(id, lang)) {
+        if (superseded !== file) {
+          await this.remove(superseded);
+        }
+      }
+      await this.enforceSizeLimit();
+      logger.debug(`💾 Cached note ${id} (${lang}, version ${entry.noteVersion})`);
+    } catch (error) {
+      logger.warn(`⚠️ Failed to write note cache for ${id}: ${error instanceof Error ? error.message : error}`);
+    }
+    return entry;
+  }
+
+  private fileName(id: string, lang: NoteLanguage, noteVersion: string): string {
+    return `${id}_${lang}_v${noteVersion.replace(/[^0-9A-Za-z.-]/g, '_')}.json`;
+  }
+
+  /**
+   * Cached files of a note/language, highest version first
+   */
+  private async listVersions(id: string, lang: NoteLanguage): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+    const prefix = `${id}_${lang}_v`;
+    const version = (file: string) => parseFloat(file.slice(prefix.length, -'.json'.length)) || 0;
+    return files
+      .filter(file => file.startsWith(prefix) && file.endsWith('.json'))
+      .sort((a, b) => version(b) - version(a));
+  }
+
+  /**
+   * Evict the least recently written entries until the cache fits its size limit
+   */
+  private async enforceSizeLimit(): Promise<void> {
+    const files = (await readdir(this.dir)).filter(file => file.endsWith('.json'));
+    const entries = await Promise.all(files.map(async file => {
+      const info = await stat(join(this.dir, file));
+      return { file, size: info.size, mtime: info.mtimeMs };
+    }));
+
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    if (total <= this.maxBytes) {
+      return;
+    }
+
+    entries.sort((a, b) => a.mtime - b.mtime);
+    for (const entry of entries) {
+      if (total <= this.maxBytes) {
+        break;
+      }
+      await this.remove(entry.file);
+      total -= entry.size;
+    }
+    logger.info(`🧹 Note cache trimmed to ${(total / 1024 / 1024).toFixed(1)} MB`);
+  }
+
+  private async remove(file: string): Promise<void> {
+    try {
+      await unlink(join(this.dir, file));
+    } catch {
+      // Already removed by a concurrent writer
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import type { NoteContentFormat } from './note-format.js';
+import { matchSectionHeading, type NoteSectionKey } from './note-sections.js';
+
+/**
+ * Table of contents entry: a heading and the part it starts in
+ */
+export interface NoteTocEntry {
+  title: string;
+  section?: NoteSectionKey;
+  part: number;
+}
+
+/**
+ * Rendered note content split into parts of at most maxChars characters
+ */
+export interface ChunkedNoteContent {
+  parts: string[];
+  tableOfContents: NoteTocEntry[];
+}
+
+// Block-level elements that start a new block in HTML content
+const HTML_BLOCK_BOUNDARY = /(?=<(?:h[1-6]|p|div|table|pre|ul|ol|blockquote)\b)/gi;
+const HTML_HEADING_PATTERN = /^\s*<(h[1-6])\b[^>]*>([\s\S]*?)<\/\1\s*>/i;
+const MARKDOWN_HEADING_PATTERN = /^#{1,6}\s+(.+)$/;
+
+/**
+ * Split rendered content into paragraph-level blocks (never inside a fenced code block)
+ */
+function splitIntoBlocks(content: string, format: NoteContentFormat): string[] {
+  if (format === 'html') {
+    return content.split(HTML_BLOCK_BOUNDARY).filter(block => block.trim());
+  }
+
+  const blocks: string[] = [];
+  let openFence: string[] | null = null;
+  for (const paragraph of content.split(/\n{2,}/)) {
+    if (openFence) {
+      openFence.push(paragraph);
+    } else if (paragraph.trim()) {
+      openFence = [paragraph];
+    } else {
+      continue;
+    }
+    // An odd number of fences means the code block continues in the next paragraph
+    const fences = openFence.join('\n\n').match(/^```/gm)?.length ?? 0;
+    if (fences % 2 === 0) {
+      blocks.push(openFence.join('\n\n'));
+      openFence = null;
+    }
+  }
+  if (openFence) {
+    blocks.push(openFence.join('\n\n'));
+  }
+  return blocks;
+}
+
+/**
+ * Detect whether a block is a heading and return its title and standard section
+ */
+function detectHeading(block: string, format: NoteContentFormat): { title: string; section?: NoteSectionKey } | null {
+  const trimmed = block.trim();
+  let title: string | undefined;
+
+  if (format === 'html') {
+    const match = trimmed.match(HTML_HEADING_PATTERN);
+    title = match ? match[2] : undefined;
+  } else if (!trimmed.includes('\n')) {
+    const match = trimmed.match(MARKDOWN_HEADING_PATTERN);
+    title = match ? match[1] : undefined;
+  }
+
+  const plain = (text: string) => text
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;|&#160;/gi, ' ')
+    .replace(/[*_]{1,2}/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (title) {
+    return { title: plain(title), section: matchSectionHeading(title) };
+  }
+
+  // Bold paragraphs ("**Solution**", "<p><strong>Lösung</strong></p>") only count for known sections
+  const section = trimmed.length <= 200 ? matchSectionHeading(plain(trimmed)) : undefined;
+  return section ? { title: plain(trimmed).replace(/:$/, ''), section } : null;
+}
+
+/**
+ * Hard-split a block that exceeds maxChars on its own, at line boundaries where possible
+ */
+function splitOversizedBlock(block: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const line of block.split('\n')) {
+    for (let start = 0; start < Math.max(line.length, 1); start += maxChars) {
+      const segment = line.substring(start, start + maxChars);
+      if (current && current.length + 1 + segment.length > maxChars) {
+        pieces.push(current);
+        current = segment;
+      } else {
+        current = current ? `${current}\n${segment}` : segment;
+      }
+    }
+  }
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Split rendered note content into parts of at most maxChars characters.
+ * Parts break at paragraph boundaries; a standard section (e.g. Solution) starts
+ * a new part once the current part is half full, so it can be fetched on its own.
+ * Without maxChars the content is returned as a single part (with its table of contents).
+ */
+export function chunkNoteContent(content: string, format: NoteContentFormat, maxChars?: number): ChunkedNoteContent {
+  const separator = format === 'html' ? '' : '\n\n';
+  const limit = maxChars ?? Number.POSITIVE_INFINITY;
+
+  const parts: string[][] = [[]];
+  const sizes: number[] = [0];
+  const tableOfContents: NoteTocEntry[] = [];
+  let lastHeading: NoteTocEntry | null = null;
+
+  const blocks = splitIntoBlocks(content, format)
+    .flatMap(block => block.length > limit ? splitOversizedBlock(block, limit) : [block]);
+
+  for (const block of blocks) {
+    const heading = detectHeading(block, format);
+    const index = parts.length - 1;
+    const current = parts[index];
+    const projected = sizes[index] + (current.length > 0 ? separator.length : 0) + block.length;
+    const startsSection = !!heading?.section && sizes[index] >= limit / 2;
+
+    if (current.length > 0 && (projected > limit || startsSection)) {
+      const next: string[] = [];
+      // Keep a heading together with its first paragraph
+      const headingBlock = current[current.length - 1];
+      if (lastHeading && current.length > 1 && headingBlock.length + separator.length + block.length <= limit) {
+        next.push(current.pop()!);
+        lastHeading.part = parts.length + 1;
+        sizes[index] = current.join(separator).length;
+      }
+      parts.push(next);
+      sizes.push(next.join(separator).length);
+    }
+
+    const target = parts.length - 1;
+    parts[target].push(block);
+    sizes[target] += (parts[target].length > 1 ? separator.length : 0) + block.length;
+
+    lastHeading = null;
+    if (heading) {
+      lastHeading = { title: heading.title, section: heading.section, part: parts.length };
+      tableOfContents.push(lastHeading);
+    }
+  }
+
+  return {
+    parts: parts.map(blocksOfPart => blocksOfPart.join(separator)),
+    tableOfContents
+  };
+}
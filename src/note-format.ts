@@ -0,0 +1,185 @@
+import TurndownService from 'turndown';
+import { strikethrough } from 'turndown-plugin-gfm';
+
+/**
+ * Output formats for note content
+ * - html: raw LongText markup as delivered by SAP
+ * - markdown: GFM with tables, fenced code blocks and absolute note links (default for LLM clients)
+ * - text: plain text without markup
+ */
+export type NoteContentFormat = 'html' | 'markdown' | 'text';
+
+const SAP_BASE_URL = 'https://me.sap.com';
+
+// Matches note links in all known SAP URL flavours:
+// /notes/123456, #/notes/123456, /sap/support/notes/123456, .../sapnotes/Detail?q=123456
+const NOTE_LINK_PATTERN = /(?:\/notes\/|sapnotes\/[^?]*\?(?:[^#]*&)?q=)(\d{4,10})/i;
+
+// Heuristic for ABAP snippets in preformatted blocks (used as fence language hint)
+const ABAP_PATTERN = /\b(DATA|SELECT|ENDSELECT|ENDIF|ENDLOOP|METHOD|ENDMETHOD|FORM|ENDFORM|REPORT|CALL FUNCTION)\b/;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+  auml: 'ä', ouml: 'ö', uuml: 'ü', Auml: 'Ä', Ouml: 'Ö', Uuml: 'Ü', szlig: 'ß',
+  ndash: '–', mdash: '—', hellip: '…', rarr: '→', bull: '•', copy: '©', reg: '®'
+};
+
+/**
+ * Resolve a link from note content to an absolute URL, normalizing note links to me.sap.com
+ */
+function resolveContentLink(href: string): string {
+  const noteMatch = href.match(NOTE_LINK_PATTERN);
+  if (noteMatch) {
+    return `${SAP_BASE_URL}/notes/${noteMatch[1]}`;
+  }
+  if (href.startsWith('/')) {
+    return `${SAP_BASE_URL}${href}`;
+  }
+  return href;
+}
+
+/**
+ * Check whether a table row is the first row of its table (rendered as the markdown header row)
+ */
+function isFirstTableRow(row: HTMLElement): boolean {
+  let parent = row.parentNode as HTMLElement | null;
+  while (parent && parent.nodeName !== 'TABLE') {
+    parent = parent.parentNode as HTMLElement | null;
+  }
+  return !!parent && (parent as HTMLTableElement).rows[0] === row;
+}
+
+let markdownService: TurndownService | null = null;
+
+/**
+ * Create the Turndown converter once, with SAP-specific rules
+ */
+function getMarkdownService(): TurndownService {
+  if (markdownService) {
+    return markdownService;
+  }
+
+  const service = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+    emDelimiter: '_'
+  });
+  service.use(strikethrough);
+  service.remove(['script', 'style']);
+
+  // Links to other notes become absolute me.sap.com links, relative links are resolved
+  service.addRule('sapLinks', {
+    filter: (node) => node.nodeName === 'A' && !!node.getAttribute('href'),
+    replacement: (content, node) => {
+      const text = content.trim();
+      if (!text) {
+        return '';
+      }
+      return `[${text}](${resolveContentLink((node as HTMLElement).getAttribute('href') || '')})`;
+    }
+  });
+
+  // SAP uses bare <pre> blocks (without <code>) for ABAP snippets
+  service.addRule('preformatted', {
+    filter: (node) => node.nodeName === 'PRE',
+    replacement: (_content, node) => {
+      const code = (node.textContent || '').replace(/\n+$/, '');
+      const language = ABAP_PATTERN.test(code) ? 'abap' : '';
+      return `\n\n\`\`\`${language}\n${code}\n\`\`\`\n\n`;
+    }
+  });
+
+  // Tables: SAP validity/SP tables rarely use <th>, so the first row always becomes the header
+  service.addRule('tableCell', {
+    filter: ['th', 'td'],
+    replacement: (content, node) => {
+      const text = content.trim().replace(/\n+/g, ' ').replace(/\|/g, '\\|');
+      const isFirstCell = !node.previousSibling || (node.parentNode as HTMLElement).firstElementChild === node;
+      return `${isFirstCell ? '| ' : ' '}${text} |`;
+    }
+  });
+
+  service.addRule('tableRow', {
+    filter: 'tr',
+    replacement: (content, node) => {
+      const row = node as HTMLElement;
+      if (!isFirstTableRow(row)) {
+        return `\n${content}`;
+      }
+      const separator = Array.from(row.children).map(() => ' --- |').join('');
+      return `\n${content}\n|${separator}`;
+    }
+  });
+
+  service.addRule('table', {
+    filter: 'table',
+    replacement: (content) => `\n\n${content.replace(/\n\n+/g, '\n').trim()}\n\n`
+  });
+
+  markdownService = service;
+  return service;
+}
+
+/**
+ * Decode HTML entities (named, decimal and hex)
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith('#')) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return NAMED_ENTITIES[code] ?? entity;
+  });
+}
+
+/**
+ * Convert SAP Note HTML to GitHub-flavoured Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  return getMarkdownService().turndown(html).replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Convert SAP Note HTML to plain text, keeping line structure and preformatted blocks
+ */
+export function htmlToText(html: string): string {
+  const parts = html.split(/(<pre\b[\s\S]*?<\/pre>)/i);
+
+  const text = parts.map(part => {
+    if (/^<pre\b/i.test(part)) {
+      return `\n${part.replace(/<[^>]+>/g, '')}\n`;
+    }
+    return part
+      .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/\s+/g, ' ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<\/(td|th)>/gi, '\t')
+      .replace(/<\/?(p|div|h[1-6]|tr|table|ul|ol|blockquote)\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '');
+  }).join('');
+
+  return decodeEntities(text)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n[ \t]+/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Render note content (or a section of it) in the requested format
+ */
+export function renderNoteContent(html: string, format: NoteContentFormat): string {
+  switch (format) {
+    case 'markdown':
+      return htmlToMarkdown(html);
+    case 'text':
+      return htmlToText(html);
+    default:
+      return html;
+  }
+}
@@ -0,0 +1,397 @@
+import type { NoteLanguage } from './types.js';
+import type {
+  SapNoteAttachment,
+  SapNoteCorrectionInstruction,
+  SapNoteDetail,
+  SapNoteManualActivity,
+  SapNoteManualActivityPhase,
+  SapNoteValidity
+} from './sap-notes-api.js';
+import { logger } from './logger.js';
+import { parseCvssVector } from './cvss.js';
+import { extractRawReferences } from './note-references.js';
+import {
+  KNOWN_RAW_HEADER_FIELDS,
+  KNOWN_RAW_NOTE_FIELDS,
+  RawNoteResponseSchema,
+  RawSapNoteSchema,
+  type RawSapNote
+} from './schemas/raw-sap-note.js';
+
+/**
+ * Result of mapping a backend response to a SapNoteDetail
+ */
+export interface NoteMappingResult {
+  note: SapNoteDetail | null;   // null: the note exists but has no content in the requested language
+  warnings: string[];           // Schema deviations (unknown, missing or malformed fields)
+}
+
+type AffectedVersion = NonNullable<SapNoteDetail['affectedVersions']>[number];
+
+// Warnings already logged at warn level; repeats for other notes go to debug
+const reportedWarnings = new Set<string>();
+
+/**
+ * Normalize language values returned by SAP ("E", "D", "English", "Deutsch", "de-DE", ...) to EN/DE
+ */
+export function normalizeNoteLanguage(value: unknown, fallback: NoteLanguage = 'EN'): NoteLanguage {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    return fallback;
+  }
+
+  const normalized = raw.trim().toLowerCase();
+  if (normalized === 'd' || normalized.startsWith('de') || normalized === 'german') {
+    return 'DE';
+  }
+  if (normalized === 'e' || normalized.startsWith('en')) {
+    return 'EN';
+  }
+  return fallback;
+}
+
+/**
+ * Extract CVSS information from content string
+ */
+export function extractCvssFromContent(content: string): { cvssScore?: string; cvssVector?: string } {
+  let cvssScore: string | undefined;
+  let cvssVector: string | undefined;
+
+  // Extract CVSS Score - look for patterns like "CVSS: 8.1", "CVSS Base Score: 8.1" or
+  // "CVSS v3.0 Base Score: 8.1 / 10" (but not the version in "CVSS:3.1/AV:...")
+  const cvssScoreMatch = content.match(/CVSS(?:\s*v?3\.[01])?(?:\s+Base)?(?:\s+Score)?\s*[:=]?\s*(\d{1,2}(?:\.\d)?)(?![\d.\/])/i);
+  if (cvssScoreMatch && parseFloat(cvssScoreMatch[1]) <= 10) {
+    cvssScore = cvssScoreMatch[1];
+  }
+
+  // Extract CVSS Vector - the first CVSS:3.0/... or CVSS:3.1/... string that is a valid vector
+  for (const candidate of content.match(/CVSS:3\.\d\/[A-Z:\/]+/gi) || []) {
+    const parsed = parseCvssVector(candidate);
+    if (parsed.vector) {
+      cvssVector = parsed.vector.vector;
+      break;
+    }
+  }
+
+  return { cvssScore, cvssVector };
+}
+
+/**
+ * Extract CVE identifiers ("CVE-2025-31324") in order of first appearance, normalized to upper case
+ */
+export function extractCveIds(...texts: Array<string | undefined>): string[] {
+  const cves = new Set<string>();
+  for (const text of texts) {
+    for (const match of (text || '').matchAll(/\bCVE[-\u2010\u2011](\d{4})[-\u2010\u2011](\d{4,7})\b/gi)) {
+      cves.add(`CVE-${match[1]}-${match[2]}`);
+    }
+  }
+  return Array.from(cves);
+}
+
+/**
+ * Extract software component versions from SupportPackage / SupportPackagePatch items
+ */
+export function extractSoftwareComponents(sapNote: RawSapNote): AffectedVersion[] {
+  const versions: AffectedVersion[] = [];
+  // Track seen keys to avoid duplicates across sources
+  const seen = new Set<string>();
+
+  // Primary source: SupportPackage.Items (e.g. S4CORE, S4COREOP),
+  // secondary source: SupportPackagePatch.Items (e.g. SEM-BW, add-on components)
+  for (const items of [sapNote.SupportPackage?.Items, sapNote.SupportPackagePatch?.Items]) {
+    for (const item of items || []) {
+      // Match component names like "S4CORE 102" or "SEM-BW 600"
+      const match = (item.SoftwareComponentVersion || '').match(/^([A-Z0-9_-]+)\s+(\d+)$/);
+      if (match && !seen.has(`${match[1]}:${match[2]}`)) {
+        seen.add(`${match[1]}:${match[2]}`);
+        versions.push({ component: match[1], version: match[2], supportPackage: item.SupportPackage || '' });
+      }
+    }
+  }
+
+  if (versions.length > 0) {
+    logger.info(`✅ Extracted ${versions.length} software component versions`);
+  }
+  return versions;
+}
+
+/**
+ * Read a scalar that may be wrapped in SAP's { value: ... } envelope
+ */
+function text(field: unknown): string | undefined {
+  const raw = field && typeof field === 'object' ? (field as { value?: unknown }).value : field;
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  const value = String(raw).trim();
+  return value || undefined;
+}
+
+/**
+ * First non-empty value among alternative field names
+ */
+function pick(item: any, ...fields: string[]): string | undefined {
+  for (const field of fields) {
+    const value = text(item?.[field]);
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Items of a raw list field ({ Items: [...] } wrapper or plain array)
+ */
+function listItems(container: unknown): any[] {
+  const items = Array.isArray(container) ? container : (container as { Items?: unknown } | undefined)?.Items;
+  return Array.isArray(items) ? items.filter(item => item && typeof item === 'object') : [];
+}
+
+/**
+ * Software component release ranges from Validity items ("SAP_BASIS", 700 - 758)
+ */
+export function extractValidity(sapNote: RawSapNote): SapNoteValidity[] {
+  return listItems(sapNote.Validity).flatMap(item => {
+    let softwareComponent = pick(item, 'SoftwareComponent', 'Component', 'SoftwareComponentVersion');
+    let from = pick(item, 'From', 'ValidFrom', 'ReleaseFrom');
+    const to = pick(item, 'To', 'ValidTo', 'ReleaseTo');
+    // "SAP_BASIS 700" carries the release in the component field
+    const combined = softwareComponent?.match(/^([A-Z0-9_/-]+)\s+(\S+)$/);
+    if (combined) {
+      softwareComponent = combined[1];
+      from = from || combined[2];
+    }
+    return softwareComponent ? [{ softwareComponent, from, to: to || from }] : [];
+  });
+}
+
+export function extractCorrectionInstructions(sapNote: RawSapNote): SapNoteCorrectionInstruction[] {
+  return listItems(sapNote.CorrectionInstructions).map(item => ({
+    id: pick(item, 'Number', 'CorrectionInstruction', 'CorrInsNumber', 'Id', 'ID'),
+    softwareComponent: pick(item, 'SoftwareComponent', 'Component'),
+    validFrom: pick(item, 'ValidFrom', 'From'),
+    validTo: pick(item, 'ValidTo', 'To'),
+    lastChanged: pick(item, 'LastChanged', 'ChangedOn', 'ChangedAt')
+  }));
+}
+
+/**
+ * Phase of a manual activity from its type label (English or German)
+ */
+function manualActivityPhase(label: string | undefined, fallback: SapNoteManualActivityPhase): SapNoteManualActivityPhase {
+  if (!label) {
+    return fallback;
+  }
+  if (/\bpre\b|before|\bvor(ab)?\b/i.test(label)) {
+    return 'pre';
+  }
+  if (/\bpost\b|after|\bnach\b/i.test(label)) {
+    return 'post';
+  }
+  return fallback;
+}
+
+export function extractManualActivities(sapNote: RawSapNote): SapNoteManualActivity[] {
+  const sources: Array<[unknown, SapNoteManualActivityPhase]> = [
+    [sapNote.ManualActivities, 'other'],
+    [sapNote.ManualActions, 'other'],
+    [sapNote.ManualPreImplementationSteps, 'pre'],
+    [sapNote.ManualPostImplementationSteps, 'post']
+  ];
+
+  return sources.flatMap(([container, phase]) => listItems(container).map(item => ({
+    phase: manualActivityPhase(pick(item, 'Type', 'Phase', 'Category', 'ActivityType'), phase),
+    title: pick(item, 'Title', 'ShortText', 'Name'),
+    description: pick(item, 'Text', 'Description', 'LongText', 'Html'),
+    softwareComponent: pick(item, 'SoftwareComponent', 'Component'),
+    validFrom: pick(item, 'ValidFrom', 'From'),
+    validTo: pick(item, 'ValidTo', 'To')
+  })));
+}
+
+export function extractAttachments(sapNote: RawSapNote): SapNoteAttachment[] {
+  return listItems(sapNote.Attachments).flatMap(item => {
+    const fileName = pick(item, 'FileName', 'Filename', 'Name', 'Title');
+    if (!fileName) {
+      return [];
+    }
+    const url = pick(item, 'URL', 'Url', 'Link', 'DownloadUrl', 'FileUrl');
+    return [{
+      fileName,
+      url: url?.startsWith('/') ? `https://me.sap.com${url}` : url,
+      size: pick(item, 'FileSize', 'Size'),
+      mimeType: pick(item, 'MimeType', 'ContentType', 'FileType')
+    }];
+  });
+}
+
+/**
+ * Log mapping warnings, each distinct warning once per process at warn level
+ */
+function reportWarnings(noteId: string, warnings: string[]): void {
+  for (const warning of warnings) {
+    if (reportedWarnings.has(warning)) {
+      logger.debug(`⚠️ SAP Note ${noteId}: ${warning}`);
+    } else {
+      reportedWarnings.add(warning);
+      logger.warn(`⚠️ SAP Note ${noteId}: ${warning} (raw note format may have changed)`);
+    }
+  }
+}
+
+/**
+ * Map `Response.SAPNote` from the raw notes API to a SapNoteDetail.
+ * Validation problems and unknown or missing fields are returned as warnings;
+ * the mapping itself stays lenient so a changed field never loses the whole note.
+ */
+export function mapRawSapNote(raw: unknown, noteId: string, lang: NoteLanguage): NoteMappingResult {
+  const warnings: string[] = [];
+
+  const parsed = RawSapNoteSchema.safeParse(raw);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues.slice(0, 10)) {
+      warnings.push(`Malformed field SAPNote.${issue.path.join('.')}: ${issue.message}`);
+    }
+  }
+  const sapNote = (parsed.success ? parsed.data : raw ?? {}) as RawSapNote;
+  const header = (sapNote.Header || {}) as NonNullable<RawSapNote['Header']>;
+
+  for (const field of Object.keys(sapNote).filter(key => !KNOWN_RAW_NOTE_FIELDS.includes(key))) {
+    warnings.push(`Unknown field SAPNote.${field}`);
+  }
+  for (const field of Object.keys(header).filter(key => !KNOWN_RAW_HEADER_FIELDS.includes(key))) {
+    warnings.push(`Unknown field SAPNote.Header.${field}`);
+  }
+
+  // An empty note means no translation exists in the requested language
+  const title = text(sapNote.Title);
+  const longText = text(sapNote.LongText);
+  if (!title && !longText) {
+    logger.info(`📭 SAP Note ${noteId} has no ${lang} content`);
+    reportWarnings(noteId, warnings);
+    return { note: null, warnings };
+  }
+
+  const required: Array<[string, unknown]> = [
+    ['Title', title],
+    ['LongText', longText],
+    ['Header.Number', text(header.Number)],
+    ['Header.Version', text(header.Version) || text(header.DocumentVersion)],
+    ['Header.ReleasedOn', text(header.ReleasedOn)]
+  ];
+  for (const [field, value] of required) {
+    if (!value) {
+      warnings.push(`Missing field SAPNote.${field}`);
+    }
+  }
+
+  const content = longText || 'No content available';
+
+  // CVSS from the JSON structure, falling back to the note text
+  let cvssScore = text(sapNote.CVSS?.CVSS_Score);
+  let cvssVector = text(sapNote.CVSS?.CVSS_Vector?.vectorValue);
+  if (!cvssScore || !cvssVector) {
+    const extracted = extractCvssFromContent(content);
+    cvssScore = cvssScore || extracted.cvssScore;
+    cvssVector = cvssVector || extracted.cvssVector;
+  }
+  if (cvssVector) {
+    const { error } = parseCvssVector(cvssVector);
+    if (error) {
+      warnings.push(`Invalid CVSS vector "${cvssVector}": ${error}`);
+    }
+  }
+
+  const affectedVersions = extractSoftwareComponents(sapNote);
+  const references = extractRawReferences(sapNote);
+  const validity = extractValidity(sapNote);
+  const correctionInstructions = extractCorrectionInstructions(sapNote);
+  const manualActivities = extractManualActivities(sapNote);
+  const attachments = extractAttachments(sapNote);
+
+  reportWarnings(noteId, warnings);
+  return {
+    note: {
+      id: text(header.Number) || noteId,
+      title: title || `SAP Note ${noteId}`,
+      noteVersion: text(header.Version) || text(header.DocumentVersion),
+      summary: text(header.Type) || 'SAP Knowledge Base Article',
+      content,
+      language: normalizeNoteLanguage(text(header.Language), lang),
+      releaseDate: text(header.ReleasedOn) || 'Unknown',
+      component: text(header.SAPComponentKeyText) || text(header.SAPComponentKey),
+      priority: text(header.Priority),
+      category: text(header.Category),
+      url: `https://launchpad.support.sap.com/#/notes/${noteId}`,
+      cvssScore,
+      cvssVector,
+      affectedVersions: affectedVersions.length > 0 ? affectedVersions : undefined,
+      validity: validity.length > 0 ? validity : undefined,
+      correctionInstructions: correctionInstructions.length > 0 ? correctionInstructions : undefined,
+      manualActivities: manualActivities.length > 0 ? manualActivities : undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      references: references.length > 0 ? references : undefined
+    },
+    warnings
+  };
+}
+
+/**
+ * Map a flat note object (OData entity or legacy JSON) with best-effort field names
+ */
+function mapGenericNote(item: any, noteId: string, lang: NoteLanguage): NoteMappingResult {
+  const warnings = ['Response is not a Response.SAPNote structure, using generic field mapping'];
+
+  const title = text(item.Title) || text(item.title) || text(item.ShortText);
+  const content = text(item.Content) || text(item.content) || text(item.Text) || text(item.LongText) || text(item.Html);
+  if (!title) {
+    warnings.push('Missing field Title');
+  }
+  if (!content) {
+    warnings.push('Missing field Content');
+  }
+
+  const extracted = extractCvssFromContent(content || '');
+  reportWarnings(noteId, warnings);
+  return {
+    note: {
+      id: text(item.SapNote) || text(item.Id) || text(item.id) || text(item.noteId) || noteId,
+      title: title || `SAP Note ${noteId}`,
+      noteVersion: text(item.Version) || text(item.version) || text(item.NoteVersion),
+      summary: text(item.Summary) || text(item.summary) || text(item.Abstract) || text(item.Description) || 'SAP Note details',
+      content: content || 'Content not available',
+      language: normalizeNoteLanguage(text(item.Language) || text(item.language), lang),
+      releaseDate: text(item.ReleaseDate) || text(item.releaseDate) || text(item.CreationDate) || 'Unknown',
+      component: text(item.Component) || text(item.component),
+      priority: text(item.Priority) || text(item.priority),
+      category: text(item.Category) || text(item.category) || text(item.Type),
+      url: `https://launchpad.support.sap.com/#/notes/${noteId}`,
+      cvssScore: text(item.CvssScore) || text(item.cvssScore) || text(item.CVSSScore) || extracted.cvssScore,
+      cvssVector: text(item.CvssVector) || text(item.cvssVector) || text(item.CVSSVector) || extracted.cvssVector
+    },
+    warnings
+  };
+}
+
+/**
+ * Map any JSON note response (raw notes API, OData `d` envelope, flat note object).
+ * Returns null if the JSON does not describe a note at all.
+ */
+export function mapNoteJson(json: unknown, noteId: string, lang: NoteLanguage): NoteMappingResult | null {
+  const response = RawNoteResponseSchema.safeParse(json);
+  if (response.success && response.data.Response.SAPNote) {
+    return mapRawSapNote(response.data.Response.SAPNote, noteId, lang);
+  }
+
+  if (!json || typeof json !== 'object') {
+    return null;
+  }
+  const data = json as any;
+  const item = data.d ? (Array.isArray(data.d.results) ? data.d.results[0] : data.d) : data;
+  if (item && (item.SapNote || item.Id || item.id || item.noteId || item.Title)) {
+    return mapGenericNote(item, noteId, lang);
+  }
+  return null;
+}
@@ -0,0 +1,190 @@
+import { logger } from './logger.js';
+import { parseNoteSections, type NoteSectionKey } from './note-sections.js';
+
+/**
+ * outbound: this note points to the other note (content links, RefTo)
+ * inbound: the other note points to this note (RefBy)
+ */
+export type NoteReferenceDirection = 'outbound' | 'inbound';
+
+/**
+ * Relation between two notes
+ * - prerequisite: must be implemented before this note
+ * - sideEffect: solves a side effect of (or is caused by) the other note
+ * - related: listed under "See Also" / related notes
+ * - reference: generic reference from the note's reference lists
+ * - mention: mentioned in the note text
+ */
+export type NoteReferenceKind = 'prerequisite' | 'sideEffect' | 'related' | 'reference' | 'mention';
+
+export interface NoteReference {
+  noteId: string;
+  title?: string;
+  direction: NoteReferenceDirection;
+  kind: NoteReferenceKind;
+  source: 'content' | 'metadata';
+}
+
+// Priority when the same note is referenced in several ways (most specific wins)
+const KIND_RANK: Record<NoteReferenceKind, number> = {
+  prerequisite: 5,
+  sideEffect: 4,
+  related: 3,
+  reference: 2,
+  mention: 1
+};
+
+// Note links in all known SAP URL flavours (/notes/123456, #/notes/123456, sapnotes/...?q=123456)
+const NOTE_LINK_PATTERN = /<a\b[^>]*href\s*=\s*["'][^"']*?(?:\/notes\/|sapnotes\/[^"'?]*\?(?:[^"'#]*&)?q=)(\d{4,10})[^"']*["'][^>]*>([\s\S]*?)<\/a\s*>/gi;
+
+// "SAP Note 1234567", "notes 1234567", "Hinweis 1234567"
+const NOTE_MENTION_PATTERN = /\b(?:SAP\s+)?(?:notes?|hinweise?|KBA)\s*(?:#|no\.?|nr\.?)?\s*(\d{5,10})\b/gi;
+
+// Raw Response.SAPNote reference structures and the relation they express
+const RAW_REFERENCE_FIELDS: Array<{ path: string[]; direction: NoteReferenceDirection; kind: NoteReferenceKind }> = [
+  { path: ['References', 'RefTo'], direction: 'outbound', kind: 'reference' },
+  { path: ['References', 'RefBy'], direction: 'inbound', kind: 'reference' },
+  { path: ['RefTo'], direction: 'outbound', kind: 'reference' },
+  { path: ['RefBy'], direction: 'inbound', kind: 'reference' },
+  { path: ['Preconditions'], direction: 'outbound', kind: 'prerequisite' },
+  { path: ['Prerequisites'], direction: 'outbound', kind: 'prerequisite' },
+  { path: ['SideEffects'], direction: 'outbound', kind: 'sideEffect' },
+  { path: ['SideEffectsCausing'], direction: 'outbound', kind: 'sideEffect' },
+  { path: ['SideEffectsSolving'], direction: 'inbound', kind: 'sideEffect' }
+];
+
+// Content sections that imply a relation kind for the notes they link to
+const SECTION_KINDS: Partial<Record<NoteSectionKey, NoteReferenceKind>> = {
+  reasonAndPrerequisites: 'prerequisite',
+  seeAlso: 'related'
+};
+
+/**
+ * Read a value that may be wrapped in SAP's { value: ... } envelope
+ */
+function unwrap(value: any): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value === 'object') {
+    return unwrap(value.value);
+  }
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+/**
+ * Normalize a note number ("0002744792" → "2744792"); undefined if it is not one
+ */
+function normalizeNoteId(value: string | undefined): string | undefined {
+  const match = value?.match(/^0*(\d{4,10})$/);
+  return match ? match[1] : undefined;
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;|&#160;/gi, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Extract note references from note HTML: links to other notes and "SAP Note 1234567" mentions.
+ * Links in "Reason and Prerequisites" count as prerequisites, links in "See Also" as related notes.
+ */
+export function extractContentReferences(html: string): NoteReference[] {
+  if (!html || typeof html !== 'string') {
+    return [];
+  }
+
+  const references: NoteReference[] = [];
+  const scan = (fragment: string, kind: NoteReferenceKind) => {
+    for (const match of fragment.matchAll(NOTE_LINK_PATTERN)) {
+      const title = stripTags(match[2]);
+      references.push({
+        noteId: normalizeNoteId(match[1])!,
+        title: title && title !== match[1] ? title : undefined,
+        direction: 'outbound',
+        kind,
+        source: 'content'
+      });
+    }
+    for (const match of stripTags(fragment).matchAll(NOTE_MENTION_PATTERN)) {
+      references.push({ noteId: normalizeNoteId(match[1])!, direction: 'outbound', kind, source: 'content' });
+    }
+  };
+
+  const sections = parseNoteSections(html);
+  for (const [section, kind] of Object.entries(SECTION_KINDS) as Array<[NoteSectionKey, NoteReferenceKind]>) {
+    const fragment = sections[section];
+    if (fragment) {
+      scan(fragment, kind);
+    }
+  }
+  scan(html, 'mention');
+
+  return mergeNoteReferences(references);
+}
+
+/**
+ * Extract references from the raw Response.SAPNote JSON (References.RefTo/RefBy and related lists).
+ * Tolerates both { Items: [...] } wrappers and plain arrays, and the field name variants seen in the API.
+ */
+export function extractRawReferences(sapNote: any): NoteReference[] {
+  if (!sapNote || typeof sapNote !== 'object') {
+    return [];
+  }
+
+  const references: NoteReference[] = [];
+  for (const field of RAW_REFERENCE_FIELDS) {
+    const container = field.path.reduce((node: any, key) => node?.[key], sapNote);
+    const items = Array.isArray(container) ? container : container?.Items;
+    if (!Array.isArray(items)) {
+      continue;
+    }
+
+    for (const item of items) {
+      const noteId = normalizeNoteId(
+        unwrap(item?.RefNumber) || unwrap(item?.Number) || unwrap(item?.NoteNumber) || unwrap(item?.SapNote) || unwrap(item?.id)
+      );
+      if (!noteId) {
+        continue;
+      }
+      references.push({
+        noteId,
+        title: unwrap(item.RefTitle) || unwrap(item.Title) || unwrap(item.ShortText),
+        direction: field.direction,
+        kind: field.kind,
+        source: 'metadata'
+      });
+    }
+  }
+
+  if (references.length > 0) {
+    logger.debug(`🔗 Extracted ${references.length} references from note metadata`);
+  }
+  return references;
+}
+
+/**
+ * Merge reference lists: one entry per note and direction, keeping the most specific
+ * relation kind, a known title and metadata over content as source.
+ */
+export function mergeNoteReferences(...lists: Array<NoteReference[] | undefined>): NoteReference[] {
+  const merged = new Map<string, NoteReference>();
+
+  for (const reference of lists.flatMap(list => list || [])) {
+    const key = `${reference.direction}:${reference.noteId}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...reference });
+      continue;
+    }
+    if (KIND_RANK[reference.kind] > KIND_RANK[existing.kind]) {
+      existing.kind = reference.kind;
+    }
+    existing.title = existing.title || reference.title;
+    if (reference.source === 'metadata') {
+      existing.source = 'metadata';
+    }
+  }
+
+  return Array.from(merged.values());
+}
@@ -0,0 +1,96 @@
+import { logger } from './logger.js';
+
+/**
+ * Standard sections of an SAP Note / KBA body, as HTML fragments
+ */
+export interface NoteSections {
+  symptom?: string;
+  reasonAndPrerequisites?: string;
+  solution?: string;
+  otherTerms?: string;
+  seeAlso?: string;
+}
+
+export type NoteSectionKey = keyof NoteSections;
+
+/**
+ * Heading labels (lowercase) per section in English and German.
+ * KBAs use "Cause"/"Resolution"/"Keywords" instead of the classic note headings.
+ */
+const SECTION_HEADINGS: Record<NoteSectionKey, string[]> = {
+  symptom: ['symptom', 'symptome'],
+  reasonAndPrerequisites: [
+    'reason and prerequisites', 'reason', 'prerequisites', 'cause',
+    'ursache und voraussetzungen', 'ursache', 'voraussetzungen'
+  ],
+  solution: ['solution', 'resolution', 'lösung', 'loesung'],
+  otherTerms: ['other terms', 'keywords', 'weitere begriffe', 'schlüsselwörter', 'schlagwörter'],
+  seeAlso: ['see also', 'siehe auch']
+};
+
+// Elements that SAP uses for section headings (real headings or bold paragraphs)
+const HEADING_CANDIDATE_PATTERN = /<(h[1-6]|p|strong|b)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi;
+
+const HEADING_LOOKUP = new Map<string, NoteSectionKey>(
+  (Object.entries(SECTION_HEADINGS) as Array<[NoteSectionKey, string[]]>)
+    .flatMap(([key, labels]) => labels.map(label => [label, key] as [string, NoteSectionKey]))
+);
+
+/**
+ * Reduce a heading element to comparable plain text ("<b>Solution:</b>&nbsp;" → "solution")
+ */
+function normalizeHeadingText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;|&#160;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&ouml;/gi, 'ö')
+    .replace(/&uuml;/gi, 'ü')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/:$/, '')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Map a heading (HTML fragment or plain text) to its standard section, if it is one
+ */
+export function matchSectionHeading(heading: string): NoteSectionKey | undefined {
+  const text = normalizeHeadingText(heading);
+  return text.length <= 40 ? HEADING_LOOKUP.get(text) : undefined;
+}
+
+/**
+ * Split SAP Note HTML into its standard sections.
+ * Tolerant by design: unknown markup is kept inside the surrounding section,
+ * content before the first recognized heading is ignored, and repeated
+ * headings are concatenated. Returns an empty object if no heading is found.
+ */
+export function parseNoteSections(html: string): NoteSections {
+  const sections: NoteSections = {};
+  if (!html || typeof html !== 'string') {
+    return sections;
+  }
+
+  // Locate all recognized headings in document order
+  const headings: Array<{ key: NoteSectionKey; start: number; end: number }> = [];
+  for (const match of html.matchAll(HEADING_CANDIDATE_PATTERN)) {
+    const key = matchSectionHeading(match[2]);
+    if (key && match.index !== undefined) {
+      headings.push({ key, start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  headings.forEach((heading, index) => {
+    const next = headings[index + 1];
+    const body = html.substring(heading.end, next ? next.start : html.length).trim();
+    if (!body) {
+      return;
+    }
+    sections[heading.key] = sections[heading.key] ? `${sections[heading.key]}\n${body}` : body;
+  });
+
+  logger.debug(`📑 Parsed note sections: ${Object.keys(sections).join(', ') || 'none'}`);
+  return sections;
+}
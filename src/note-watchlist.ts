@@ -0,0 +1,317 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import type { NoteLanguage } from './types.js';
+import { logger } from './logger.js';
+import { parseNoteSections, type NoteSectionKey } from './note-sections.js';
+import type { SapNoteBatchResult, SapNoteDetail } from './sap-notes-api.js';
+
+const SECTION_LABELS: Record<NoteSectionKey, string> = {
+  symptom: 'Symptom',
+  reasonAndPrerequisites: 'Reason and Prerequisites',
+  solution: 'Solution',
+  otherTerms: 'Other Terms',
+  seeAlso: 'See Also'
+};
+
+/**
+ * What is remembered about a watched note to detect changes: the metadata itself,
+ * and hashes instead of the (large) note text
+ */
+export interface NoteWatchSnapshot {
+  title: string;
+  noteVersion?: string;
+  releaseDate: string;
+  component?: string;
+  priority?: string;
+  category?: string;
+  cvssScore?: string;
+  supportPackages: string[];          // "S4CORE 102: SAPK-10214INS4CORE"
+  correctionInstructions: number;
+  manualActivities: number;
+  attachments: string[];
+  sectionHashes: Partial<Record<NoteSectionKey, string>>;
+  contentHash: string;
+}
+
+export interface NoteWatchEntry {
+  id: string;
+  lang: NoteLanguage;
+  comment?: string;
+  addedAt: string;
+  lastCheckedAt?: string;
+  lastChangedAt?: string;
+  snapshot: NoteWatchSnapshot;
+}
+
+export interface NoteWatchChange {
+  field: string;
+  summary: string;
+  before?: string;
+  after?: string;
+}
+
+/**
+ * Result of checking one watched note against its current version on SAP
+ */
+export interface NoteWatchCheckResult {
+  id: string;
+  lang: NoteLanguage;
+  title: string;
+  previousVersion?: string;
+  currentVersion?: string;
+  changes: NoteWatchChange[];
+  error?: string;
+}
+
+interface NoteWatchlistFile {
+  notes: NoteWatchEntry[];
+}
+
+/**
+ * Fingerprint of note HTML that ignores whitespace-only edits (re-wrapped lines, indentation)
+ */
+function hash(html: string): string {
+  const normalized = html.replace(/\s+/g, ' ').replace(/\s*(<[^>]+>)\s*/g, '$1').trim();
+  return createHash('sha256').update(normalized).digest('hex').slice(0, 16);
+}
+
+/**
+ * Reduce a fetched note to the snapshot kept in the watchlist
+ */
+export function createNoteSnapshot(note: SapNoteDetail): NoteWatchSnapshot {
+  const sections = note.sections || parseNoteSections(note.content);
+  const sectionHashes: NoteWatchSnapshot['sectionHashes'] = {};
+  for (const [key, html] of Object.entries(sections) as Array<[NoteSectionKey, string | undefined]>) {
+    if (html) {
+      sectionHashes[key] = hash(html);
+    }
+  }
+
+  return {
+    title: note.title,
+    noteVersion: note.noteVersion,
+    releaseDate: note.releaseDate,
+    component: note.component,
+    priority: note.priority,
+    category: note.category,
+    cvssScore: note.cvssScore,
+    supportPackages: (note.affectedVersions || []).map(version => `${version.component} ${version.version}: ${version.supportPackage || '-'}`),
+    correctionInstructions: note.correctionInstructions?.length || 0,
+    manualActivities: note.manualActivities?.length || 0,
+    attachments: (note.attachments || []).map(attachment => attachment.fileName),
+    sectionHashes,
+    contentHash: hash(note.content)
+  };
+}
+
+/**
+ * List what differs between two snapshots of the same note
+ */
+export function diffNoteSnapshots(before: NoteWatchSnapshot, after: NoteWatchSnapshot): NoteWatchChange[] {
+  const changes: NoteWatchChange[] = [];
+
+  const scalars: Array<[keyof NoteWatchSnapshot, string]> = [
+    ['noteVersion', 'Version'],
+    ['releaseDate', 'Release date'],
+    ['title', 'Title'],
+    ['priority', 'Priority'],
+    ['category', 'Category'],
+    ['component', 'Component'],
+    ['cvssScore', 'CVSS score']
+  ];
+  for (const [field, label] of scalars) {
+    const previous = before[field] as string | undefined;
+    const current = after[field] as string | undefined;
+    if ((previous || '') !== (current || '')) {
+      changes.push({ field, summary: `${label}: ${previous || '(none)'} → ${current || '(none)'}`, before: previous, after: current });
+    }
+  }
+
+  const lists: Array<[keyof NoteWatchSnapshot, string]> = [
+    ['supportPackages', 'Support packages'],
+    ['attachments', 'Attachments']
+  ];
+  for (const [field, label] of lists) {
+    const previous = before[field] as string[];
+    const current = after[field] as string[];
+    const added = current.filter(item => !previous.includes(item));
+    const removed = previous.filter(item => !current.includes(item));
+    if (added.length > 0) {
+      changes.push({ field, summary: `${label} added: ${added.join(', ')}`, after: added.join(', ') });
+    }
+    if (removed.length > 0) {
+      changes.push({ field, summary: `${label} removed: ${removed.join(', ')}`, before: removed.join(', ') });
+    }
+  }
+
+  const counts: Array<[keyof NoteWatchSnapshot, string]> = [
+    ['correctionInstructions', 'Correction instructions'],
+    ['manualActivities', 'Manual activities']
+  ];
+  for (const [field, label] of counts) {
+    if (before[field] !== after[field]) {
+      changes.push({ field, summary: `${label}: ${before[field]} → ${after[field]}`, before: String(before[field]), after: String(after[field]) });
+    }
+  }
+
+  let sectionChanged = false;
+  for (const key of Object.keys(SECTION_LABELS) as NoteSectionKey[]) {
+    const previous = before.sectionHashes[key];
+    const current = after.sectionHashes[key];
+    if (previous === current) {
+      continue;
+    }
+    sectionChanged = true;
+    const what = !previous ? 'added' : !current ? 'removed' : 'changed';
+    changes.push({ field: `sections.${key}`, summary: `${SECTION_LABELS[key]} section ${what}` });
+  }
+  if (!sectionChanged && before.contentHash !== after.contentHash) {
+    changes.push({ field: 'content', summary: 'Note text changed' });
+  }
+
+  return changes;
+}
+
+/**
+ * Watched notes with the last seen state of each, stored as one JSON file
+ * (NOTE_WATCHLIST_PATH). Writes go through a temporary file and are serialized
+ * within the process, so concurrent tool calls never lose an update.
+ */
+export class NoteWatchlist {
+  readonly path: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(path: string = process.env.NOTE_WATCHLIST_PATH || 'note-watchlist.json') {
+    this.path = resolve(path);
+  }
+
+  async list(): Promise<NoteWatchEntry[]> {
+    return (await this.read()).notes;
+  }
+
+  /**
+   * Start watching a note with its current state as baseline.
+   * A note that is already watched keeps its baseline; only the comment is updated.
+   */
+  async add(note: SapNoteDetail, lang: NoteLanguage, comment?: string): Promise<{ entry: NoteWatchEntry; added: boolean }> {
+    return this.update(file => {
+      const existing = file.notes.find(entry => entry.id === note.id && entry.lang === lang);
+      if (existing) {
+        if (comment !== undefined) {
+          existing.comment = comment;
+        }
+        return { entry: existing, added: false };
+      }
+
+      const entry: NoteWatchEntry = {
+        id: note.id,
+        lang,
+        comment,
+        addedAt: new Date().toISOString(),
+        snapshot: createNoteSnapshot(note)
+      };
+      file.notes.push(entry);
+      logger.info(`👀 Watching SAP Note ${note.id} (${lang}, version ${note.noteVersion || 'unknown'})`);
+      return { entry, added: true };
+    });
+  }
+
+  /**
+   * Stop watching a note (in one language, or in all languages if none is given)
+   */
+  async remove(id: string, lang?: NoteLanguage): Promise<number> {
+    return this.update(file => {
+      const before = file.notes.length;
+      file.notes = file.notes.filter(entry => entry.id !== id || (lang !== undefined && entry.lang !== lang));
+      return before - file.notes.length;
+    });
+  }
+
+  /**
+   * Re-fetch watched notes (all, or the given IDs), report what changed since the
+   * last check and remember the new state as baseline for the next check
+   */
+  async check(
+    fetchNotes: (ids: string[], lang: NoteLanguage) => Promise<SapNoteBatchResult[]>,
+    ids?: string[]
+  ): Promise<NoteWatchCheckResult[]> {
+    const watched = (await this.list()).filter(entry => !ids || ids.includes(entry.id));
+    const results: NoteWatchCheckResult[] = [];
+    const snapshots = new Map<string, NoteWatchSnapshot>();
+
+    for (const lang of Array.from(new Set(watched.map(entry => entry.lang)))) {
+      const entries = watched.filter(entry => entry.lang === lang);
+      const batch = await fetchNotes(entries.map(entry => entry.id), lang);
+
+      for (const entry of entries) {
+        const fetched = batch.find(result => result.id === entry.id);
+        const base = { id: entry.id, lang, title: entry.snapshot.title, previousVersion: entry.snapshot.noteVersion };
+        if (!fetched?.note) {
+          results.push({ ...base, changes: [], error: fetched?.error || 'Note not retrieved' });
+          continue;
+        }
+        const snapshot = createNoteSnapshot(fetched.note);
+        snapshots.set(`${entry.id}_${lang}`, snapshot);
+        results.push({
+          ...base,
+          title: snapshot.title,
+          currentVersion: snapshot.noteVersion,
+          changes: diffNoteSnapshots(entry.snapshot, snapshot)
+        });
+      }
+    }
+
+    const checkedAt = new Date().toISOString();
+    await this.update(file => {
+      for (const entry of file.notes) {
+        const snapshot = snapshots.get(`${entry.id}_${entry.lang}`);
+        if (!snapshot) {
+          continue;
+        }
+        if (diffNoteSnapshots(entry.snapshot, snapshot).length > 0) {
+          entry.lastChangedAt = checkedAt;
+        }
+        entry.snapshot = snapshot;
+        entry.lastCheckedAt = checkedAt;
+      }
+    });
+
+    const changed = results.filter(result => result.changes.length > 0).length;
+    logger.info(`👀 Checked ${results.length} watched notes: ${changed} changed`);
+    return results;
+  }
+
+  private async read(): Promise<NoteWatchlistFile> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, 'utf-8');
+    } catch {
+      return { notes: [] };
+    }
+    try {
+      const parsed = JSON.parse(raw) as NoteWatchlistFile;
+      return { notes: Array.isArray(parsed.notes) ? parsed.notes : [] };
+    } catch (error) {
+      throw new Error(`Watchlist ${this.path} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Read-modify-write the watchlist file, one mutation at a time
+   */
+  private update<R>(mutate: (file: NoteWatchlistFile) => R): Promise<R> {
+    const run = this.queue.then(async () => {
+      const file = await this.read();
+      const result = mutate(file);
+      await mkdir(dirname(this.path), { recursive: true });
+      // Write to a temporary file first so a crash never leaves a truncated watchlist
+      const tempPath = `${this.path}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(file, null, 2));
+      await rename(tempPath, this.path);
+      return result;
+    });
+    this.queue = run.catch(() => {});
+    return run;
+  }
+}
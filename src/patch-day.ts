@@ -0,0 +1,150 @@
+import type { SapNoteDetail, SapNoteResult } from './sap-notes-api.js';
+
+/**
+ * Month of a security patch day digest: SAP publishes security notes on the
+ * second Tuesday of every month, with occasional out-of-band releases in between.
+ */
+export interface SecurityPatchDayWindow {
+  month: string;      // YYYY-MM
+  patchDay: string;   // YYYY-MM-DD (second Tuesday)
+  from: string;       // YYYY-MM-DD, first day of the month
+  to: string;         // YYYY-MM-DD, last day of the month
+}
+
+export interface SecurityPatchDayNote {
+  id: string;
+  title: string;
+  cvssScore?: number;
+  cvssVector?: string;
+  priority?: string;
+  category?: string;
+  component?: string;
+  releaseDate: string;
+  affectedComponents: string[];   // e.g. "S4CORE 102, 103, 104"
+  url: string;
+  error?: string;                 // Set if the note could not be fetched (listed with search metadata only)
+}
+
+export interface SecurityPatchDayDigest extends SecurityPatchDayWindow {
+  notes: SecurityPatchDayNote[];
+  truncated: boolean;             // true if Coveo found more notes than maxNotes
+}
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Resolve a month ("2025-06", default: the current month) to its date range and patch day
+ */
+export function securityPatchDayWindow(month?: string, now: Date = new Date()): SecurityPatchDayWindow {
+  const resolved = month || now.toISOString().slice(0, 7);
+  const match = resolved.match(MONTH_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid month "${resolved}" - expected YYYY-MM`);
+  }
+
+  const year = parseInt(match[1], 10);
+  const monthIndex = parseInt(match[2], 10) - 1;
+  const firstWeekday = new Date(Date.UTC(year, monthIndex, 1)).getUTCDay();
+  // Tuesday is weekday 2; the second one is 7 days after the first
+  const secondTuesday = 1 + ((2 - firstWeekday + 7) % 7) + 7;
+
+  return {
+    month: resolved,
+    patchDay: isoDate(new Date(Date.UTC(year, monthIndex, secondTuesday))),
+    from: isoDate(new Date(Date.UTC(year, monthIndex, 1))),
+    to: isoDate(new Date(Date.UTC(year, monthIndex + 1, 0)))
+  };
+}
+
+/**
+ * Condense the support package list (or, failing that, the validity ranges) to one line per component
+ */
+export function summarizeAffectedComponents(note: Pick<SapNoteDetail, 'affectedVersions' | 'validity'>): string[] {
+  const versions = new Map<string, Set<string>>();
+  for (const version of note.affectedVersions || []) {
+    if (!versions.has(version.component)) {
+      versions.set(version.component, new Set());
+    }
+    if (version.version) {
+      versions.get(version.component)!.add(version.version);
+    }
+  }
+  if (versions.size > 0) {
+    return Array.from(versions, ([component, releases]) =>
+      releases.size > 0 ? `${component} ${Array.from(releases).join(', ')}` : component
+    );
+  }
+
+  return (note.validity || []).map(range => {
+    const releases = range.from && range.to && range.from !== range.to
+      ? `${range.from}-${range.to}`
+      : range.from || range.to;
+    return releases ? `${range.softwareComponent} ${releases}` : range.softwareComponent;
+  });
+}
+
+/**
+ * Build a digest entry from the fetched note, or from the search hit if the note could not be fetched
+ */
+export function toSecurityPatchDayNote(hit: SapNoteResult, note?: SapNoteDetail, error?: string): SecurityPatchDayNote {
+  const score = note?.cvssScore !== undefined ? parseFloat(note.cvssScore) : NaN;
+  return {
+    id: hit.id,
+    title: note?.title || hit.title,
+    cvssScore: isNaN(score) ? undefined : score,
+    cvssVector: note?.cvssVector,
+    priority: note?.priority || hit.priority,
+    category: note?.category || hit.category,
+    component: note?.component || hit.component,
+    releaseDate: note?.releaseDate || hit.releaseDate,
+    affectedComponents: note ? summarizeAffectedComponents(note) : [],
+    url: note?.url || hit.url,
+    error
+  };
+}
+
+/**
+ * Render the digest as a markdown table for the patch day review
+ */
+export function formatSecurityPatchDayDigest(digest: SecurityPatchDayDigest): string {
+  const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim();
+
+  let text = `# SAP Security Patch Day ${digest.month}\n\n`;
+  text += `**Patch day:** ${digest.patchDay} · **Released:** ${digest.from} to ${digest.to} · **Notes:** ${digest.notes.length}`;
+  text += digest.truncated ? ' (more available - increase maxNotes)\n\n' : '\n\n';
+
+  if (digest.notes.length === 0) {
+    return text + 'No security notes found for this month.\n';
+  }
+
+  text += '| CVSS | Note | Title | Priority | Component | Affected | Released |\n';
+  text += '|------|------|-------|----------|-----------|----------|----------|\n';
+  for (const note of digest.notes) {
+    text += `| ${note.cvssScore !== undefined ? note.cvssScore.toFixed(1) : '-'} ` +
+      `| [${note.id}](${note.url}) ` +
+      `| ${escape(note.title)} ` +
+      `| ${escape(note.priority || '-')} ` +
+      `| ${escape(note.component || '-')} ` +
+      `| ${escape(note.affectedComponents.join('; ') || '-')} ` +
+      `| ${note.releaseDate ? note.releaseDate.slice(0, 10) : '-'} |\n`;
+  }
+
+  const failed = digest.notes.filter(note => note.error);
+  if (failed.length > 0) {
+    text += `\n⚠️ ${failed.length} note(s) could not be fetched and are listed without CVSS data: ${failed.map(note => note.id).join(', ')}\n`;
+  }
+
+  const vectors = digest.notes.filter(note => note.cvssVector);
+  if (vectors.length > 0) {
+    text += '\n**CVSS vectors:**\n';
+    for (const note of vectors) {
+      text += `- ${note.id}: \`${note.cvssVector}\`\n`;
+    }
+  }
+
+  return text;
+}
@@ -0,0 +1,431 @@
+import { logger } from './logger.js';
+
+/**
+ * A cookie as stored by Playwright / the token cache (expires in seconds since epoch, -1 for session cookies)
+ */
+export interface SapCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires?: number;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+export interface SapHttpClientOptions {
+  userAgent?: string;
+  acceptLanguage?: string;
+  maxHops?: number;        // Redirects, form posts and script redirects per request
+  timeoutMs?: number;      // Per HTTP round trip
+}
+
+/**
+ * Final response after the redirect dance
+ */
+export interface SapHttpResponse {
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
+const DEFAULT_MAX_HOPS = 15;
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Small authenticated me.sap.com endpoint, used to check whether SAP still accepts a session
+export const SAP_SESSION_PROBE_URL = 'https://me.sap.com/backend/raw/core/Applications/coveo';
+
+// Markers of the SAP ID service / IAS login form (credentials or certificate selection required)
+const LOGIN_PAGE_PATTERNS = [
+  /name=["']j_username["']/i,
+  /name=["']j_password["']/i,
+  /<input[^>]+type=["']password["']/i,
+  /id=["']logOnForm["']/i
+];
+
+// Hosts and paths of the SAP ID service / IAS login flow
+const LOGIN_URL_PATTERNS = [
+  /\/\/authentication\./i,
+  /saml\/login/i,
+  /accounts\.sap\.com\/saml2\/idp\/sso/i
+];
+
+// Script redirects used by the me.sap.com shell before handing over to the IdP
+const SCRIPT_REDIRECT_PATTERNS = [
+  /location\.replace\(\s*["']([^"']+)["']\s*\)/i,
+  /location(?:\.href)?\s*=\s*["']([^"']+)["']/i,
+  /<meta[^>]+http-equiv=["']refresh["'][^>]*content=["'][^"']*url=([^"'>\s]+)/i
+];
+
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeAttribute(match[1] ?? match[2]) : undefined;
+}
+
+/**
+ * Individual Set-Cookie headers (Headers.getSetCookie needs Node 19.7+)
+ */
+function readSetCookieHeaders(headers: Headers): string[] {
+  if (typeof headers.getSetCookie === 'function') {
+    return headers.getSetCookie();
+  }
+  const combined = headers.get('set-cookie');
+  // Split the combined header only before "name=" - Expires dates contain commas too
+  return combined ? combined.split(/,(?=\s*[^;,=\s]+=)/) : [];
+}
+
+/**
+ * Check whether an HTML page is an interactive login form (i.e. the session is gone)
+ */
+export function isLoginPage(html: string): boolean {
+  return LOGIN_PAGE_PATTERNS.some(pattern => pattern.test(html));
+}
+
+/**
+ * Check whether a URL belongs to the interactive SAP login flow
+ */
+export function isLoginUrl(url: string): boolean {
+  return LOGIN_URL_PATTERNS.some(pattern => pattern.test(url));
+}
+
+/**
+ * SAP no longer accepts the session cookies (login page, login redirect, 401/403).
+ * The message stays 'SESSION_EXPIRED' so callers can also recognize it after it
+ * has been passed on as a plain Error.
+ */
+export class SessionExpiredError extends Error {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super('SESSION_EXPIRED');
+    this.name = 'SessionExpiredError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Check whether an error means that the SAP session has expired
+ */
+export function isSessionExpiredError(error: unknown): boolean {
+  return error instanceof SessionExpiredError || (error instanceof Error && error.message === 'SESSION_EXPIRED');
+}
+
+/**
+ * Find a self-submitting form (SAML POST binding, IdP hand-over) and return its target and fields
+ */
+export function findAutoSubmitForm(html: string, baseUrl: string): { action: string; fields: URLSearchParams } | null {
+  const form = html.match(/<form\b[^>]*>[\s\S]*?<\/form\s*>/i);
+  if (!form) {
+    return null;
+  }
+
+  const openTag = form[0].match(/<form\b[^>]*>/i)![0];
+  const fields = new URLSearchParams();
+  for (const input of form[0].match(/<input\b[^>]*>/gi) || []) {
+    const name = readAttribute(input, 'name');
+    if (name && (readAttribute(input, 'type') || 'text').toLowerCase() === 'hidden') {
+      fields.append(name, readAttribute(input, 'value') ?? '');
+    }
+  }
+
+  // Only forms that carry a SAML message or submit themselves are followed automatically
+  const submitsItself = /\.submit\(\)|onload=/i.test(html);
+  if (!fields.has('SAMLResponse') && !fields.has('SAMLRequest') && !submitsItself) {
+    return null;
+  }
+
+  return {
+    action: new URL(readAttribute(openTag, 'action') || baseUrl, baseUrl).toString(),
+    fields
+  };
+}
+
+/**
+ * Minimal cookie jar with domain/path matching and Set-Cookie handling
+ */
+export class CookieJar {
+  private cookies = new Map<string, SapCookie>();
+
+  constructor(cookies: SapCookie[] = []) {
+    for (const cookie of cookies) {
+      this.store(cookie);
+    }
+  }
+
+  /**
+   * Build a jar from a "name=value; name2=value2" cookie header
+   */
+  static fromCookieHeader(header: string, domain = '.sap.com'): CookieJar {
+    const cookies: SapCookie[] = [];
+    for (const pair of header.split(';')) {
+      const index = pair.indexOf('=');
+      const name = pair.substring(0, index).trim();
+      const value = pair.substring(index + 1).trim().replace(/^"(.*)"$/, '$1');
+      if (index > 0 && name && value) {
+        cookies.push({ name, value, domain, path: '/' });
+      }
+    }
+    return new CookieJar(cookies);
+  }
+
+  get size(): number {
+    return this.cookies.size;
+  }
+
+  /**
+   * Cookie header value for a request URL
+   */
+  getCookieHeader(url: URL): string {
+    const now = Date.now() / 1000;
+    const host = url.hostname.toLowerCase();
+
+    return Array.from(this.cookies.values())
+      .filter(cookie => {
+        if (cookie.expires !== undefined && cookie.expires >= 0 && cookie.expires < now) {
+          return false;
+        }
+        if (cookie.secure && url.protocol !== 'https:') {
+          return false;
+        }
+        const domain = cookie.domain.toLowerCase();
+        const domainMatches = domain.startsWith('.')
+          ? host === domain.slice(1) || host.endsWith(domain)
+          : host === domain;
+        return domainMatches && url.pathname.startsWith(cookie.path || '/');
+      })
+      .map(cookie => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+  }
+
+  /**
+   * Apply the Set-Cookie headers of a response
+   */
+  setCookies(url: URL, setCookieHeaders: string[]): void {
+    for (const header of setCookieHeaders) {
+      const [pair, ...attributes] = header.split(';');
+      const index = pair.indexOf('=');
+      if (index <= 0) {
+        continue;
+      }
+
+      const cookie: SapCookie = {
+        name: pair.substring(0, index).trim(),
+        value: pair.substring(index + 1).trim(),
+        domain: url.hostname,
+        path: '/'
+      };
+      for (const attribute of attributes) {
+        const [rawKey, ...rest] = attribute.split('=');
+        const key = rawKey.trim().toLowerCase();
+        const value = rest.join('=').trim();
+        if (key === 'domain' && value) {
+          cookie.domain = value.startsWith('.') ? value : `.${value}`;
+        } else if (key === 'path' && value) {
+          cookie.path = value;
+        } else if (key === 'expires' && cookie.expires === undefined) {
+          const time = Date.parse(value);
+          if (!isNaN(time)) {
+            cookie.expires = time / 1000;
+          }
+        } else if (key === 'max-age') {
+          cookie.expires = Date.now() / 1000 + parseInt(value, 10);
+        } else if (key === 'secure') {
+          cookie.secure = true;
+        } else if (key === 'httponly') {
+          cookie.httpOnly = true;
+        }
+      }
+      this.store(cookie);
+    }
+  }
+
+  toJSON(): SapCookie[] {
+    return Array.from(this.cookies.values());
+  }
+
+  private store(cookie: SapCookie): void {
+    const key = `${cookie.domain.toLowerCase()}|${cookie.path}|${cookie.name}`;
+    // Expired cookies (Max-Age=0, past Expires) are deletions
+    if (cookie.expires !== undefined && cookie.expires >= 0 && cookie.expires <= Date.now() / 1000) {
+      this.cookies.delete(key);
+      return;
+    }
+    this.cookies.set(key, cookie);
+  }
+}
+
+/**
+ * Browserless HTTP client for SAP endpoints.
+ *
+ * Follows the SAP redirect dance by hand: HTTP redirects, script redirects of the
+ * launchpad shell and self-submitting SAML forms, carrying cookies across the SAP
+ * hosts in its own jar. Ending up on an interactive login form means the session
+ * cookies are no longer valid and is reported as SessionExpiredError.
+ */
+export class SapHttpClient {
+  private userAgent: string;
+  private acceptLanguage?: string;
+  private maxHops: number;
+  private timeoutMs: number;
+
+  constructor(private jar: CookieJar, options: SapHttpClientOptions = {}) {
+    this.userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+    this.acceptLanguage = options.acceptLanguage;
+    this.maxHops = options.maxHops ?? DEFAULT_MAX_HOPS;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  get cookies(): CookieJar {
+    return this.jar;
+  }
+
+  /**
+   * GET a URL and follow redirects, script redirects and SAML form posts until content arrives
+   */
+  async get(url: string, acceptLanguage = this.acceptLanguage): Promise<SapHttpResponse> {
+    let current = new URL(url);
+    let method: 'GET' | 'POST' = 'GET';
+    let body: URLSearchParams | undefined;
+    let referer: string | undefined;
+
+    for (let hop = 0; hop <= this.maxHops; hop++) {
+      const response = await this.send(current, method, body, referer, acceptLanguage);
+      const location = response.headers.get('location');
+
+      if (response.status >= 300 && response.status < 400 && location) {
+        logger.debug(`↪️ ${response.status} ${current.origin}${current.pathname} → ${location}`);
+        referer = current.toString();
+        current = new URL(location, current);
+        // 307/308 keep the method, every other redirect becomes a GET
+        if (response.status !== 307 && response.status !== 308) {
+          method = 'GET';
+          body = undefined;
+        }
+        continue;
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      const text = await response.text();
+      if (contentType.includes('json') || !contentType.includes('html')) {
+        return { url: current.toString(), status: response.status, contentType, body: text };
+      }
+
+      // Checked first: login pages carry hidden fields and onload handlers as well
+      if (isLoginPage(text)) {
+        logger.warn(`🔒 Redirected to the SAP login page (${current.host}) - session cookies are no longer valid`);
+        throw new SessionExpiredError(`login page at ${current.host}`);
+      }
+
+      const form = findAutoSubmitForm(text, current.toString());
+      if (form) {
+        logger.debug(`📨 Submitting ${form.fields.has('SAMLResponse') ? 'SAML response' : 'hand-over form'} to ${form.action}`);
+        referer = current.toString();
+        current = new URL(form.action);
+        method = 'POST';
+        body = form.fields;
+        continue;
+      }
+
+      const scriptTarget = SCRIPT_REDIRECT_PATTERNS
+        .map(pattern => text.match(pattern)?.[1])
+        .find((target): target is string => !!target);
+      if (scriptTarget) {
+        logger.debug(`↪️ Script redirect ${current.pathname} → ${scriptTarget}`);
+        referer = current.toString();
+        current = new URL(decodeAttribute(scriptTarget), current);
+        method = 'GET';
+        body = undefined;
+        continue;
+      }
+
+      return { url: current.toString(), status: response.status, contentType, body: text };
+    }
+
+    throw new Error(`Too many redirects while loading ${url}`);
+  }
+
+  /**
+   * GET a JSON endpoint; HTML at the end of the redirect chain is an error
+   * and 401/403 mean the session is no longer accepted
+   */
+  async getJson<T = any>(url: string, acceptLanguage?: string): Promise<T> {
+    const response = await this.get(url, acceptLanguage);
+    if (response.status === 401 || response.status === 403) {
+      logger.warn(`🔒 HTTP ${response.status} from ${new URL(response.url).host} - session cookies are no longer valid`);
+      throw new SessionExpiredError(`HTTP ${response.status}`);
+    }
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`HTTP ${response.status}: ${response.body.substring(0, 200)}`);
+    }
+    try {
+      return JSON.parse(response.body) as T;
+    } catch {
+      throw new Error(`Expected JSON from ${response.url} but received ${response.contentType || 'unknown content'}`);
+    }
+  }
+
+  /**
+   * One cheap authenticated request: false if SAP no longer accepts the session
+   * (login page, 401/403). Network errors are thrown, they say nothing about the session.
+   */
+  async probe(url: string = SAP_SESSION_PROBE_URL): Promise<boolean> {
+    try {
+      await this.getJson(url);
+      return true;
+    } catch (error) {
+      if (isSessionExpiredError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async send(
+    url: URL,
+    method: 'GET' | 'POST',
+    body: URLSearchParams | undefined,
+    referer: string | undefined,
+    acceptLanguage: string | undefined
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      'User-Agent': this.userAgent,
+      'Accept': 'application/json, text/html;q=0.9, */*;q=0.8'
+    };
+    const cookie = this.jar.getCookieHeader(url);
+    if (cookie) {
+      headers['Cookie'] = cookie;
+    }
+    if (acceptLanguage) {
+      headers['Accept-Language'] = acceptLanguage;
+    }
+    if (referer) {
+      headers['Referer'] = referer;
+    }
+    if (body) {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    }
+
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: body?.toString(),
+      redirect: 'manual',
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+    this.jar.setCookies(url, readSetCookieHeaders(response.headers));
+    return response;
+  }
+}
@@ -1,6 +1,28 @@
-import type { ServerConfig } from './types.js';
+import type { NoteLanguage, ServerConfig } from './types.js';
 import { logger } from './logger.js';
-import { chromium, type Browser, type Page } from 'playwright';
+import type { Browser, BrowserContext, Page } from 'playwright';
+import { parseNoteSections, type NoteSections } from './note-sections.js';
+import { NoteCache } from './note-cache.js';
+import { BrowserPool, getBrowserPool, type BrowserContextLease } from './browser-pool.js';
+import { CookieJar, SapHttpClient, SessionExpiredError, isLoginPage, isLoginUrl, isSessionExpiredError } from './sap-http-client.js';
+import { createTokenStore, type CachedCookie, type TokenStore } from './token-store.js';
+import { extractCveIds, extractCvssFromContent, mapNoteJson, normalizeNoteLanguage } from './note-mapper.js';
+import { CVSS_BASE_METRIC_LABELS, cvssVectorFromLabels, detectCvssVersion } from './cvss.js';
+import {
+  extractContentReferences,
+  mergeNoteReferences,
+  type NoteReference,
+  type NoteReferenceDirection,
+  type NoteReferenceKind
+} from './note-references.js';
+import {
+  securityPatchDayWindow,
+  toSecurityPatchDayNote,
+  type SecurityPatchDayDigest,
+  type SecurityPatchDayNote
+} from './patch-day.js';
+
+export { normalizeNoteLanguage };
 
 export interface SapNoteResult {
   id: string;
@@ -10,13 +32,78 @@ export interface SapNoteResult {
   language: string;
   releaseDate: string;
   component?: string;
+  priority?: string;
+  category?: string;
   url: string;
 }
 
+export interface SapNoteFacetValue {
+  value: string;
+  count: number;
+}
+
+/**
+ * Breakdown of all matching notes (not just the current page) by facet
+ */
+export interface SapNoteSearchFacets {
+  component: SapNoteFacetValue[];
+  priority: SapNoteFacetValue[];
+  category: SapNoteFacetValue[];
+  year: SapNoteFacetValue[];
+}
+
 export interface SapNoteSearchResponse {
   results: SapNoteResult[];
   totalResults: number;
   query: string;
+  offset: number;
+  hasMore: boolean;
+  nextCursor?: string;
+  facets?: SapNoteSearchFacets;
+}
+
+/**
+ * Software component release range a note applies to (e.g. SAP_BASIS 700 - 758)
+ */
+export interface SapNoteValidity {
+  softwareComponent: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Correction instruction (SNOTE-implementable code change) for a component release range
+ */
+export interface SapNoteCorrectionInstruction {
+  id?: string;
+  softwareComponent?: string;
+  validFrom?: string;
+  validTo?: string;
+  lastChanged?: string;
+}
+
+/**
+ * pre: manual step before implementing the corrections, post: after, other: phase not stated
+ */
+export type SapNoteManualActivityPhase = 'pre' | 'post' | 'other';
+
+/**
+ * Manual implementation step that SNOTE cannot perform (customizing, DDIC changes, ...)
+ */
+export interface SapNoteManualActivity {
+  phase: SapNoteManualActivityPhase;
+  title?: string;
+  description?: string;   // HTML, like the note content
+  softwareComponent?: string;
+  validFrom?: string;
+  validTo?: string;
+}
+
+export interface SapNoteAttachment {
+  fileName: string;
+  url?: string;
+  size?: string;
+  mimeType?: string;
 }
 
 export interface SapNoteDetail {
@@ -33,11 +120,296 @@ export interface SapNoteDetail {
   url: string;
   cvssScore?: string;
   cvssVector?: string;
+  cves?: string[];      // CVE identifiers named in the title or content
   affectedVersions?: Array<{
     component: string;
     version: string;
     supportPackage: string;
   }>;
+  validity?: SapNoteValidity[];
+  correctionInstructions?: SapNoteCorrectionInstruction[];
+  manualActivities?: SapNoteManualActivity[];
+  attachments?: SapNoteAttachment[];
+  sections?: NoteSections;
+  references?: NoteReference[];
+  fromCache?: boolean;
+  fetchedAt?: string;   // ISO timestamp of the download from SAP
+}
+
+export type SapNoteDocumentType = 'note' | 'kba' | 'all';
+
+/**
+ * Structured search filters, translated into Coveo facet selections and
+ * advanced query expressions (and applied client-side for the internal API fallback)
+ */
+export interface SapNoteSearchFilters {
+  component?: string;        // Exact component ("BC-CST") or prefix with trailing "*" ("FI-GL*")
+  priority?: string;
+  category?: string;
+  releasedAfter?: string;    // YYYY-MM-DD, inclusive
+  releasedBefore?: string;   // YYYY-MM-DD, inclusive
+  documentType?: SapNoteDocumentType;
+}
+
+export type SapNoteSortMode = 'relevance' | 'newest' | 'oldest' | 'priority';
+
+export interface SapNoteSearchOptions {
+  lang?: NoteLanguage;
+  offset?: number;
+  filters?: SapNoteSearchFilters;
+  includeFacets?: boolean;
+  sort?: SapNoteSortMode;
+}
+
+/**
+ * Decoded form of the opaque pagination cursor returned by searchNotes.
+ * The cursor pins the language that actually served the first page so that
+ * follow-up pages stay in the same (possibly fallback) language.
+ */
+export interface SapNoteSearchCursor {
+  offset: number;
+  lang: NoteLanguage;
+}
+
+export interface SapNoteGetOptions {
+  lang?: NoteLanguage;
+  refresh?: boolean;    // Bypass the note cache and download the note again
+}
+
+export interface SapNoteGetManyOptions extends SapNoteGetOptions {
+  concurrency?: number; // Notes fetched in parallel (default 3)
+}
+
+/**
+ * Outcome for one note of a batch: either the note or the reason it could not be retrieved
+ */
+export interface SapNoteBatchResult {
+  id: string;
+  note?: SapNoteDetail;
+  error?: string;
+}
+
+export type SapNoteReferenceTraversal = NoteReferenceDirection | 'both';
+
+export interface SapNoteReferenceGraphOptions {
+  depth?: number;                       // Levels to follow from the root note (default 1)
+  direction?: SapNoteReferenceTraversal;  // Which references to follow (default outbound)
+  kinds?: NoteReferenceKind[];          // Only follow these relation kinds (default all)
+  maxNotes?: number;                    // Upper bound on notes fetched (default 25)
+  lang?: NoteLanguage;
+}
+
+export interface SapSecurityPatchDayOptions {
+  maxNotes?: number;    // Upper bound on notes per search and on notes fetched (default 50)
+  lang?: NoteLanguage;
+  refresh?: boolean;
+}
+
+export interface SapNoteCveLookupOptions {
+  maxCandidates?: number;   // Search hits fetched to confirm the CVE (default 10)
+  lang?: NoteLanguage;
+}
+
+/**
+ * Notes that name a CVE. Search hits are fetched and only kept if the CVE appears in the note;
+ * hits that could not be fetched are reported as unverified.
+ */
+export interface SapNoteCveLookup {
+  cve: string;
+  notes: SapNoteDetail[];
+  unverified: Array<{ id: string; title: string; error: string }>;
+  candidates: number;
+}
+
+export interface SapNoteReferenceNode {
+  id: string;
+  title?: string;
+  component?: string;
+  depth: number;
+  resolved: boolean;    // false if the note was not fetched (depth/maxNotes limit) or not accessible
+}
+
+export interface SapNoteReferenceEdge {
+  from: string;
+  to: string;
+  kind: NoteReferenceKind;
+}
+
+export interface SapNoteReferenceGraph {
+  root: string;
+  depth: number;
+  nodes: SapNoteReferenceNode[];
+  edges: SapNoteReferenceEdge[];
+  truncated: boolean;   // true if maxNotes stopped the traversal early
+}
+
+/**
+ * Re-authentication hook for sessions that SAP rejects (implemented by SapAuthenticator)
+ */
+export interface SapSessionRenewer {
+  renewSession(staleToken: string): Promise<string>;
+}
+
+// Coveo searches that find a month's security notes: the "Security" category, plus notes
+// carrying a CVSS rating that are filed under another category
+const SECURITY_PATCH_DAY_SEARCHES: Array<{ query: string; filters: SapNoteSearchFilters; security: boolean }> = [
+  { query: 'security', filters: { category: 'Security' }, security: true },
+  { query: 'CVSS', filters: {}, security: false }
+];
+
+// Parallel note downloads in getNotes (a page in the shared browser context when HTTP falls back)
+const NOTE_BATCH_CONCURRENCY = 3;
+
+/**
+ * Language mappings for the different SAP backends:
+ * the raw notes API expects the one-letter SAP language key (t=E / t=D),
+ * Coveo expects a locale and filters on the full language name.
+ */
+const SAP_LANGUAGE_KEYS: Record<NoteLanguage, string> = { EN: 'E', DE: 'D' };
+const COVEO_LOCALES: Record<NoteLanguage, string> = { EN: 'en-US', DE: 'de-DE' };
+const COVEO_LANGUAGE_NAMES: Record<NoteLanguage, string> = { EN: 'English', DE: 'German' };
+const ACCEPT_LANGUAGE_HEADERS: Record<NoteLanguage, string> = {
+  EN: 'en-US,en;q=0.9',
+  DE: 'de-DE,de;q=0.9,en;q=0.8'
+};
+
+// Coveo sort criteria for each sort mode. Priority values are labels ("Very High", "Medium", ...)
+// that do not sort meaningfully as strings, so priority ordering is applied client-side per page.
+const COVEO_SORT_CRITERIA: Record<SapNoteSortMode, string> = {
+  relevance: 'relevancy',
+  newest: 'date descending',
+  oldest: 'date ascending',
+  priority: 'relevancy'
+};
+
+// Coveo fields used for the facet breakdown, keyed by facet id
+const COVEO_FACET_FIELDS = {
+  component: 'mh_app_component',
+  priority: 'mh_priority',
+  category: 'mh_category'
+} as const;
+const COVEO_FACET_MAX_VALUES = 15;
+const COVEO_YEAR_FACET_YEARS = 10;
+
+// Coveo "documenttype" facet values for each document type filter
+const COVEO_DOCUMENT_TYPES: Record<SapNoteDocumentType, string[]> = {
+  note: ['SAP Note'],
+  kba: ['SAP Knowledge Base Article'],
+  all: ['SAP Note', 'SAP Knowledge Base Article']
+};
+
+/**
+ * Return the other supported language (used as translation fallback)
+ */
+function alternateLanguage(lang: NoteLanguage): NoteLanguage {
+  return lang === 'EN' ? 'DE' : 'EN';
+}
+
+/**
+ * Rank SAP note priorities from most to least urgent (unknown priorities last)
+ */
+export function priorityRank(priority: string | undefined): number {
+  const normalized = (priority || '').toLowerCase();
+  if (normalized.includes('very high') || normalized.includes('hotnews')) return 0;
+  if (normalized.includes('high')) return 1;
+  if (normalized.includes('medium')) return 2;
+  if (normalized.includes('low')) return 3;
+  if (normalized.includes('recommendation') || normalized.includes('additional')) return 4;
+  return 5;
+}
+
+/**
+ * Sort search results client-side (stable, so ties keep relevance order).
+ * Used for the internal API fallback and for priority ordering of Coveo pages.
+ */
+export function sortSearchResults<T extends Pick<SapNoteResult, 'releaseDate' | 'priority'>>(
+  results: T[],
+  sort: SapNoteSortMode
+): T[] {
+  if (sort === 'relevance') {
+    return results;
+  }
+
+  // Unknown release dates always sort last
+  const releaseTime = (result: T) => {
+    const time = Date.parse(result.releaseDate);
+    return isNaN(time) ? undefined : time;
+  };
+
+  return [...results].sort((a, b) => {
+    if (sort === 'priority') {
+      return priorityRank(a.priority) - priorityRank(b.priority);
+    }
+
+    const timeA = releaseTime(a);
+    const timeB = releaseTime(b);
+    if (timeA === undefined || timeB === undefined) {
+      return (timeA === undefined ? 1 : 0) - (timeB === undefined ? 1 : 0);
+    }
+    return sort === 'newest' ? timeB - timeA : timeA - timeB;
+  });
+}
+
+/**
+ * Order security notes by CVSS score (highest first, notes without a score last),
+ * then by priority and note number
+ */
+export function sortSecurityNotes(notes: SecurityPatchDayNote[]): SecurityPatchDayNote[] {
+  return [...notes].sort((a, b) =>
+    (b.cvssScore ?? -1) - (a.cvssScore ?? -1) ||
+    priorityRank(a.priority) - priorityRank(b.priority) ||
+    a.id.localeCompare(b.id, undefined, { numeric: true })
+  );
+}
+
+/**
+ * Filters in a stable form, so equal searches produce equal cursors
+ * (unset and empty values are dropped, the document type defaults to notes)
+ */
+function normalizeSearchFilters(filters: SapNoteSearchFilters = {}): string {
+  const normalized: Record<string, string> = {};
+  for (const key of ['category', 'component', 'priority', 'releasedAfter', 'releasedBefore'] as const) {
+    const value = filters[key]?.trim();
+    if (value) {
+      normalized[key] = value;
+    }
+  }
+  normalized.documentType = filters.documentType || 'note';
+  return JSON.stringify(normalized);
+}
+
+/**
+ * Encode a pagination cursor for the given query, filters, sort order and position
+ */
+export function encodeSearchCursor(query: string, cursor: SapNoteSearchCursor, filters?: SapNoteSearchFilters, sort: SapNoteSortMode = 'relevance'): string {
+  return Buffer.from(JSON.stringify({ q: query, f: normalizeSearchFilters(filters), s: sort, o: cursor.offset, l: cursor.lang }), 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a pagination cursor, rejecting cursors that were issued for a different query, different filters or another sort order
+ */
+export function decodeSearchCursor(cursor: string, query: string, filters?: SapNoteSearchFilters, sort: SapNoteSortMode = 'relevance'): SapNoteSearchCursor {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid search cursor');
+  }
+
+  if (!decoded || typeof decoded.o !== 'number' || decoded.o < 0) {
+    throw new Error('Invalid search cursor');
+  }
+  if (decoded.q !== query) {
+    throw new Error('Search cursor belongs to a different query - repeat the search without a cursor');
+  }
+  if (decoded.f !== normalizeSearchFilters(filters)) {
+    throw new Error('Search cursor was issued for different filters - repeat the search without a cursor');
+  }
+  if (decoded.s !== sort) {
+    throw new Error('Search cursor was issued for a different sort order - repeat the search without a cursor');
+  }
+
+  return { offset: decoded.o, lang: normalizeNoteLanguage(decoded.l) };
 }
 
 /**
@@ -46,27 +418,59 @@ export interface SapNoteDetail {
  */
 export class SapNotesApiClient {
   private config: ServerConfig;
+  private tokenStore: TokenStore;
+  private session?: SapSessionRenewer;
   private baseUrl = 'https://launchpad.support.sap.com';
   private rawNotesUrl = 'https://me.sap.com/backend/raw/sapnotes';
   private coveoSearchUrl = 'https://sapamericaproductiontyfzmfz0.org.coveo.com/rest/search/v2';
   private coveoOrgId = 'sapamericaproductiontyfzmfz0';
   
-  // Persistent browser session to avoid session cookie expiration
-  private browser: Browser | null = null;
-  private browserContext: any = null;
-  private browserLastUsed: number = 0;
-  private readonly BROWSER_IDLE_TIMEOUT = 5 * 60 * 1000; // Close browser after 5 minutes idle
+  // Downloaded notes (configured via NOTE_CACHE_DIR / NOTE_CACHE_TTL_H / NOTE_CACHE_MAX_MB)
+  private noteCache: NoteCache<SapNoteDetail>;
 
-  constructor(config: ServerConfig) {
+  // Browserless clients per session; their cookie jars keep what the redirect dance hands out
+  private httpClients = new Map<string, SapHttpClient>();
+
+  // Rejected session token → its replacement, so callers still holding the old token use the new session
+  private renewedTokens = new Map<string, string>();
+
+  constructor(
+    config: ServerConfig,
+    tokenStore: TokenStore = createTokenStore(),
+    session?: SapSessionRenewer,
+    noteCache: NoteCache<SapNoteDetail> = new NoteCache<SapNoteDetail>()
+  ) {
     this.config = config;
+    this.tokenStore = tokenStore;
+    this.session = session;
+    this.noteCache = noteCache;
   }
 
   /**
    * Search for SAP Notes using the Coveo Search API
    */
-  async searchNotes(query: string, token: string, maxResults: number = 10): Promise<SapNoteSearchResponse> {
+  async searchNotes(
+    query: string,
+    token: string,
+    maxResults: number = 10,
+    options: SapNoteSearchOptions = {}
+  ): Promise<SapNoteSearchResponse> {
+    return this.withSessionRetry(token, current => this.runSearch(query, current, maxResults, options));
+  }
+
+  private async runSearch(
+    query: string,
+    token: string,
+    maxResults: number,
+    options: SapNoteSearchOptions
+  ): Promise<SapNoteSearchResponse> {
+    const lang = options.lang || 'EN';
+    const offset = options.offset || 0;
+    const filters = options.filters || {};
+    const includeFacets = options.includeFacets || false;
+    const sort = options.sort || 'relevance';
     logger.info(`🔍 Searching SAP Notes for: "${query}"`);
-    logger.debug(`📊 Search parameters: query="${query}", maxResults=${maxResults}`);
+    logger.debug(`📊 Search parameters: query="${query}", maxResults=${maxResults}, offset=${offset}, lang=${lang}, filters=${JSON.stringify(filters)}`);
 
     try {
       // Try primary Coveo search approach
@@ -79,67 +483,65 @@ export class SapNotesApiClient {
           coveoToken = await this.getCoveoToken(token);
           logger.debug(`✅ Successfully obtained Coveo token (length: ${coveoToken.length})`);
         } catch (tokenError) {
+          if (isSessionExpiredError(tokenError)) {
+            throw tokenError;
+          }
           const tokenErrorMsg = tokenError instanceof Error ? tokenError.message : String(tokenError);
           logger.warn(`⚠️ Coveo token extraction failed: ${tokenErrorMsg}`);
           throw new Error(`Coveo token extraction failed: ${tokenErrorMsg}`);
         }
         
-        // Build Coveo search request
-        const searchUrl = `${this.coveoSearchUrl}?organizationId=${this.coveoOrgId}`;
-        logger.debug(`🌐 Coveo Search URL: ${searchUrl}`);
-
-        const searchBody = this.buildCoveoSearchBody(query, maxResults);
-        logger.debug(`📤 Coveo Search Body: ${JSON.stringify(searchBody, null, 2).substring(0, 500)}...`);
-
-        const response = await fetch(searchUrl, {
-          method: 'POST',
-          headers: {
-            'accept': '*/*',
-            'accept-language': 'en-US,en;q=0.9',
-            'authorization': `Bearer ${coveoToken}`,
-            'content-type': 'application/json',
-            'cookie': token,
-            'referer': 'https://me.sap.com/',
-            'origin': 'https://me.sap.com'
-          },
-          body: JSON.stringify(searchBody)
-        });
-
-        logger.debug(`📊 Coveo Response: ${response.status} ${response.statusText}`);
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          logger.error(`❌ Coveo API error: ${errorText.substring(0, 200)}`);
-          throw new Error(`Coveo API returned ${response.status}: ${errorText.substring(0, 100)}`);
+        let data = await this.executeCoveoSearch(query, token, coveoToken, maxResults, offset, lang, filters, includeFacets, sort);
+        let servedLang = lang;
+
+        // Fall back to the other language if nothing has been translated into the requested one.
+        // Only the first page falls back - later pages carry the served language in their cursor.
+        if (offset === 0 && (!data.results || data.results.length === 0)) {
+          const fallbackLang = alternateLanguage(lang);
+          logger.info(`🌐 No ${lang} results for "${query}", retrying search in ${fallbackLang}`);
+          const fallbackData = await this.executeCoveoSearch(query, token, coveoToken, maxResults, offset, fallbackLang, filters, includeFacets, sort);
+          if (fallbackData.results && fallbackData.results.length > 0) {
+            data = fallbackData;
+            servedLang = fallbackLang;
+          }
         }
 
-        const data = await response.json();
-        logger.debug(`📄 Coveo Results: ${data.totalCount || 0} results found`);
-
         // Parse Coveo response to our format
-        const results = this.parseCoveoResponse(data);
+        const results = sortSearchResults(this.parseCoveoResponse(data, servedLang), sort);
         
         logger.info(`✅ Found ${results.length} SAP Note(s) via Coveo`);
         logger.debug(`📄 Search results: ${JSON.stringify(results.map(r => ({ id: r.id, title: r.title })), null, 2)}`);
 
+        const totalResults = data.totalCount || offset + results.length;
+        const nextOffset = offset + results.length;
+        const hasMore = results.length > 0 && nextOffset < totalResults;
+
         return {
           results,
-          totalResults: data.totalCount || results.length,
-          query
+          totalResults,
+          query,
+          offset,
+          hasMore,
+          nextCursor: hasMore ? encodeSearchCursor(query, { offset: nextOffset, lang: servedLang }, filters, sort) : undefined,
+          facets: includeFacets ? this.parseCoveoFacets(data) : undefined
         };
         
       } catch (coveoError) {
+        // An expired session fails every fallback as well - renew it instead
+        if (isSessionExpiredError(coveoError)) {
+          throw coveoError;
+        }
         const errorMessage = coveoError instanceof Error ? coveoError.message : String(coveoError);
         logger.warn(`⚠️ Primary Coveo search failed: ${errorMessage}`);
         logger.info('🔄 Attempting fallback search methods...');
         
-        // Fallback 1: Direct note ID search (if query looks like a note ID)
-        if (/^\d{6,8}$/.test(query.trim())) {
+        // Fallback 1: Direct note ID search (if query looks like a note ID, first page only)
+        if (offset === 0 && /^\d{6,8}$/.test(query.trim())) {
           logger.info(`🎯 Fallback 1: Query "${query}" appears to be a note ID, trying direct note access...`);
           try {
             const noteId = query.trim();
-            const note = await this.getNote(noteId, token);
-            if (note) {
+            const note = await this.getNote(noteId, token, { lang });
+            if (note && this.matchesSearchFilters(note, filters)) {
               logger.info(`✅ Fallback 1 SUCCESS: Found SAP Note ${noteId} via direct access`);
               return {
                 results: [{
@@ -147,17 +549,25 @@ export class SapNotesApiClient {
                   title: note.title,
                   summary: note.summary,
                   component: note.component,
+                  priority: note.priority,
+                  category: note.category,
                   releaseDate: note.releaseDate,
                   language: note.language,
                   url: note.url
                 }],
                 totalResults: 1,
-                query
+                query,
+                offset,
+                hasMore: false,
+                facets: includeFacets ? this.computeFacetsFromResults([note]) : undefined
               };
             } else {
-              logger.warn(`⚠️ Fallback 1: Direct note access returned null for note ${noteId}`);
+              logger.warn(`⚠️ Fallback 1: Direct note access returned no matching note for ${noteId}`);
             }
           } catch (directError) {
+            if (isSessionExpiredError(directError)) {
+              throw directError;
+            }
             logger.warn(`❌ Fallback 1 failed: ${directError instanceof Error ? directError.message : String(directError)}`);
           }
         } else {
@@ -167,18 +577,33 @@ export class SapNotesApiClient {
         // Fallback 2: SAP Internal Search API (bypasses Coveo)
         try {
           logger.info('🔄 Fallback 2: Trying SAP internal search API...');
-          const fallbackResults = await this.searchViaInternalAPI(query, token, maxResults);
-          if (fallbackResults && fallbackResults.length > 0) {
-            logger.info(`✅ Fallback 2 SUCCESS: Found ${fallbackResults.length} result(s) via internal API`);
+          // The internal API has no paging, filtering or sorting: fetch up to the requested page
+          // (+1 to detect more), apply filters and ordering client-side and slice
+          const fallbackResults = sortSearchResults(
+            (await this.searchViaInternalAPI(query, token, offset + maxResults + 1, lang))
+              .filter(result => this.matchesSearchFilters(result, filters)),
+            sort
+          );
+          const pageResults = fallbackResults.slice(offset, offset + maxResults);
+          if (pageResults.length > 0) {
+            logger.info(`✅ Fallback 2 SUCCESS: Found ${pageResults.length} result(s) via internal API`);
+            const hasMore = fallbackResults.length > offset + maxResults;
             return {
-              results: fallbackResults,
+              results: pageResults,
               totalResults: fallbackResults.length,
-              query
+              query,
+              offset,
+              hasMore,
+              nextCursor: hasMore ? encodeSearchCursor(query, { offset: offset + maxResults, lang }, filters, sort) : undefined,
+              facets: includeFacets ? this.computeFacetsFromResults(fallbackResults) : undefined
             };
           } else {
             logger.warn(`⚠️ Fallback 2: Internal API returned no results`);
           }
         } catch (internalError) {
+          if (isSessionExpiredError(internalError)) {
+            throw internalError;
+          }
           logger.warn(`❌ Fallback 2 failed: ${internalError instanceof Error ? internalError.message : String(internalError)}`);
         }
         
@@ -190,6 +615,9 @@ export class SapNotesApiClient {
       }
 
     } catch (error) {
+      if (isSessionExpiredError(error)) {
+        throw error;
+      }
       logger.error('❌ SAP Notes search failed:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new Error(`SAP Notes search failed: ${errorMessage}`);
@@ -199,36 +627,378 @@ export class SapNotesApiClient {
   /**
    * Get a specific SAP Note by ID
    */
-  async getNote(noteId: string, token: string): Promise<SapNoteDetail | null> {
-    logger.info(`📄 Fetching SAP Note: ${noteId}`);
+  async getNote(noteId: string, token: string, options: SapNoteGetOptions = {}): Promise<SapNoteDetail | null> {
+    return this.withSessionRetry(token, current => this.loadNote(noteId, current, options));
+  }
 
-    try {
-      // Try Playwright-based raw notes API first (most likely to get actual content)
+  /**
+   * Get several SAP Notes in one go. Cached notes are served directly; the others are
+   * fetched with bounded concurrency over pooled browser contexts (one page per worker).
+   * Failures are reported per note and never fail the whole batch.
+   */
+  async getNotes(noteIds: string[], token: string, options: SapNoteGetManyOptions = {}): Promise<SapNoteBatchResult[]> {
+    const lang = options.lang || 'EN';
+    const ids = Array.from(new Set(noteIds));
+    const current = this.currentToken(token);
+    logger.info(`📚 Fetching ${ids.length} SAP Notes (${lang})`);
+
+    const expired = new Set<string>();
+    const results = await this.loadNoteBatch(ids, current, options, expired);
+
+    // Notes that failed on an expired session are fetched once more with a renewed one
+    if (expired.size > 0 && this.session) {
+      const retryIds = ids.filter(id => expired.has(id));
       try {
-        logger.info(`🎭 Trying Playwright approach for note ${noteId}`);
-        const note = await this.getNoteWithPlaywright(noteId, token);
-        if (note) {
-          logger.info(`✅ Retrieved SAP Note ${noteId} via Playwright`);
-          return note;
-        }
+        const renewed = await this.renewSession(current);
+        const retried = await this.loadNoteBatch(retryIds, renewed, options, new Set());
+        retryIds.forEach((id, index) => {
+          results[ids.indexOf(id)] = retried[index];
+        });
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.warn(`⚠️ Playwright approach failed: ${errorMessage}, trying HTTP fallbacks`);
+        logger.error(`❌ Could not renew the SAP session for ${retryIds.length} note(s): ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const failed = results.filter(result => result.error).length;
+    logger.info(`✅ Batch complete: ${results.length - failed} retrieved, ${failed} failed`);
+    return results;
+  }
+
+  /**
+   * Fetch a batch of notes with one session. Cached notes are served directly; the others
+   * are fetched with bounded concurrency over pooled browser contexts (one page per worker).
+   * IDs that failed because the session expired are added to `expired`.
+   */
+  private async loadNoteBatch(
+    ids: string[],
+    token: string,
+    options: SapNoteGetManyOptions,
+    expired: Set<string>
+  ): Promise<SapNoteBatchResult[]> {
+    const lang = options.lang || 'EN';
+    const concurrency = Math.max(1, Math.min(options.concurrency ?? NOTE_BATCH_CONCURRENCY, ids.length));
+    logger.debug(`📚 Note batch of ${ids.length} (concurrency ${concurrency})`);
+
+    const results: SapNoteBatchResult[] = new Array(ids.length);
+    let nextIndex = 0;
+
+    // Each worker borrows one pooled context (only once its first note misses the cache)
+    // and reuses a single page for all of its notes; the pool caps overall concurrency
+    const worker = async () => {
+      let lease: BrowserContextLease | null = null;
+      let page: Page | null = null;
+      let stale = false;
+      const acquirePage = async () => {
+        lease ??= await getBrowserPool().acquire(
+          this.noteContextKey(token, lang),
+          browser => this.createNoteContext(browser, token, lang)
+        );
+        if (!page || page.isClosed()) {
+          page = await lease.context.newPage();
+        }
+        return page;
+      };
+
+      try {
+        while (nextIndex < ids.length) {
+          const index = nextIndex++;
+          const id = ids[index];
+          try {
+            const note = await this.loadNote(id, token, { lang, refresh: options.refresh }, acquirePage);
+            results[index] = note ? { id, note } : { id, error: `SAP Note ${id} not found or not accessible` };
+          } catch (error) {
+            if (isSessionExpiredError(error)) {
+              expired.add(id);
+              stale = true;
+            }
+            results[index] = { id, error: error instanceof Error ? error.message : String(error) };
+          }
+        }
+      } finally {
+        if (page) {
+          await (page as Page).close().catch(() => {});
+        }
+        // A context holding rejected session cookies is not returned to the pool
+        await (lease as BrowserContextLease | null)?.release({ discard: stale });
       }
+    };
+
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+    return results;
+  }
+
+  /**
+   * Serve a note from the cache or fetch (and cache) it
+   */
+  private async loadNote(
+    noteId: string,
+    token: string,
+    options: SapNoteGetOptions,
+    acquirePage?: () => Promise<Page>
+  ): Promise<SapNoteDetail | null> {
+    const lang = options.lang || 'EN';
+
+    if (!options.refresh) {
+      const cached = await this.noteCache.get(noteId, lang);
+      if (cached) {
+        return this.enrichNoteDetail({ ...cached.note, fromCache: true, fetchedAt: cached.fetchedAt });
+      }
+    }
+
+    const note = await this.fetchNote(noteId, token, lang, acquirePage);
+    if (!note) {
+      return null;
+    }
+
+    // Only versioned notes are cached - placeholder results from degraded backends carry no version
+    const fetchedAt = note.noteVersion
+      ? (await this.noteCache.set(noteId, lang, note)).fetchedAt
+      : new Date().toISOString();
+    return this.enrichNoteDetail({ ...note, fromCache: false, fetchedAt });
+  }
+
+  /**
+   * Derive structured data from the raw note content, independent of the retrieval path
+   */
+  private enrichNoteDetail(note: SapNoteDetail): SapNoteDetail {
+    const references = mergeNoteReferences(note.references, extractContentReferences(note.content))
+      .filter(reference => reference.noteId !== note.id);
+
+    const cves = extractCveIds(note.title, note.content);
+
+    return {
+      ...note,
+      sections: parseNoteSections(note.content),
+      references,
+      cves: cves.length > 0 ? cves : undefined
+    };
+  }
+
+  /**
+   * Walk the reference graph of a note breadth-first up to the requested depth.
+   * Notes beyond the depth limit appear as unresolved leaf nodes.
+   */
+  async getReferenceGraph(
+    noteId: string,
+    token: string,
+    options: SapNoteReferenceGraphOptions = {}
+  ): Promise<SapNoteReferenceGraph | null> {
+    const { depth = 1, direction = 'outbound', kinds, maxNotes = 25, lang = 'EN' } = options;
+    logger.info(`🕸️ Building reference graph for note ${noteId} (depth ${depth}, ${direction})`);
+
+    const nodes = new Map<string, SapNoteReferenceNode>([[noteId, { id: noteId, depth: 0, resolved: false }]]);
+    const edges = new Map<string, SapNoteReferenceEdge>();
+    let frontier = [noteId];
+    let fetched = 0;
+    let truncated = false;
+
+    for (let level = 0; level < depth && frontier.length > 0 && !truncated; level++) {
+      const next: string[] = [];
+
+      for (const id of frontier) {
+        if (fetched >= maxNotes) {
+          truncated = true;
+          break;
+        }
+        fetched++;
+
+        let note: SapNoteDetail | null = null;
+        try {
+          note = await this.getNote(id, token, { lang });
+        } catch (error) {
+          logger.warn(`⚠️ Could not fetch note ${id} for reference graph: ${error instanceof Error ? error.message : error}`);
+        }
+        if (!note) {
+          if (id === noteId) {
+            return null;
+          }
+          continue;
+        }
+
+        const node = nodes.get(id)!;
+        node.title = note.title;
+        node.component = note.component;
+        node.resolved = true;
+
+        for (const reference of note.references || []) {
+          if (direction !== 'both' && reference.direction !== direction) {
+            continue;
+          }
+          if (kinds && !kinds.includes(reference.kind)) {
+            continue;
+          }
+
+          const edge = reference.direction === 'outbound'
+            ? { from: id, to: reference.noteId, kind: reference.kind }
+            : { from: reference.noteId, to: id, kind: reference.kind };
+          edges.set(`${edge.from}>${edge.to}`, edges.get(`${edge.from}>${edge.to}`) || edge);
+
+          if (!nodes.has(reference.noteId)) {
+            nodes.set(reference.noteId, { id: reference.noteId, title: reference.title, depth: level + 1, resolved: false });
+            next.push(reference.noteId);
+          }
+        }
+      }
+
+      frontier = next;
+    }
 
-      // Try the raw notes API with HTTP (might get redirects)
+    logger.info(`✅ Reference graph for ${noteId}: ${nodes.size} notes, ${edges.size} edges${truncated ? ' (truncated)' : ''}`);
+    return {
+      root: noteId,
+      depth,
+      nodes: Array.from(nodes.values()),
+      edges: Array.from(edges.values()),
+      truncated
+    };
+  }
+
+  /**
+   * Collect the security notes released in a month (default: the current one), fetch each
+   * note for its CVSS rating and affected components, and rank them by CVSS score.
+   * Notes that cannot be fetched stay in the digest with their search metadata.
+   */
+  async getSecurityPatchDay(
+    month: string | undefined,
+    token: string,
+    options: SapSecurityPatchDayOptions = {}
+  ): Promise<SecurityPatchDayDigest> {
+    const { maxNotes = 50, lang = 'EN', refresh } = options;
+    const window = securityPatchDayWindow(month);
+    logger.info(`🛡️ Collecting security notes for ${window.month} (patch day ${window.patchDay})`);
+
+    const hits = new Map<string, { result: SapNoteResult; security: boolean }>();
+    let truncated = false;
+    let lastError: unknown;
+    let succeeded = 0;
+
+    for (const search of SECURITY_PATCH_DAY_SEARCHES) {
       try {
-        const rawResponse = await this.makeRawRequest(`/Detail?q=${noteId}&t=E&isVTEnabled=false`, token);
-        if (rawResponse.ok) {
-          const note = await this.parseRawNoteDetail(rawResponse, noteId);
+        const response = await this.searchNotes(search.query, token, maxNotes, {
+          lang,
+          filters: { ...search.filters, releasedAfter: window.from, releasedBefore: window.to },
+          sort: 'newest'
+        });
+        succeeded++;
+        truncated ||= response.hasMore;
+        for (const result of response.results) {
+          const known = hits.get(result.id);
+          hits.set(result.id, { result, security: search.security || !!known?.security });
+        }
+      } catch (error) {
+        lastError = error;
+        logger.warn(`⚠️ Security note search "${search.query}" failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (succeeded === 0) {
+      throw lastError instanceof Error ? lastError : new Error(String(lastError));
+    }
+
+    const candidates = Array.from(hits.values()).slice(0, maxNotes);
+    truncated ||= hits.size > maxNotes;
+    const batch = await this.getNotes(candidates.map(candidate => candidate.result.id), token, { lang, refresh });
+
+    const notes: SecurityPatchDayNote[] = [];
+    candidates.forEach((candidate, index) => {
+      const { note, error } = batch[index];
+      // Hits of the CVSS text search only count if the note turns out to be rated or filed as security note
+      if (!candidate.security && note && !note.cvssScore && !/security/i.test(note.category || '')) {
+        return;
+      }
+      notes.push(toSecurityPatchDayNote(candidate.result, note, error));
+    });
+
+    logger.info(`✅ Security patch day ${window.month}: ${notes.length} notes${truncated ? ' (truncated)' : ''}`);
+    return { ...window, notes: sortSecurityNotes(notes), truncated };
+  }
+
+  /**
+   * Find the SAP Notes that fix a CVE. The CVE id is searched as full text (security notes name
+   * it in the title or text), then each hit is fetched and checked for the exact CVE id.
+   */
+  async findNotesByCve(cve: string, token: string, options: SapNoteCveLookupOptions = {}): Promise<SapNoteCveLookup> {
+    const { maxCandidates = 10, lang = 'EN' } = options;
+    const cveId = cve.trim().toUpperCase();
+    logger.info(`🔐 Looking up SAP Notes for ${cveId}`);
+
+    const search = await this.searchNotes(cveId, token, maxCandidates, { lang });
+    const hits = Array.from(new Map(search.results.map(hit => [hit.id, hit])).values()).slice(0, maxCandidates);
+    const batch = await this.getNotes(hits.map(hit => hit.id), token, { lang });
+
+    const notes: SapNoteDetail[] = [];
+    const unverified: SapNoteCveLookup['unverified'] = [];
+    batch.forEach((result, index) => {
+      if (result.note) {
+        if (result.note.cves?.includes(cveId)) {
+          notes.push(result.note);
+        }
+      } else {
+        unverified.push({ id: result.id, title: hits[index].title, error: result.error || 'Note not accessible' });
+      }
+    });
+
+    logger.info(`✅ ${cveId}: ${notes.length} matching note(s) out of ${hits.length} search hit(s)`);
+    return { cve: cveId, notes, unverified, candidates: hits.length };
+  }
+
+  /**
+   * Retrieve a note through the available backends (direct HTTP, Playwright, OData)
+   */
+  private async fetchNote(
+    noteId: string,
+    token: string,
+    lang: NoteLanguage,
+    acquirePage?: () => Promise<Page>
+  ): Promise<SapNoteDetail | null> {
+    logger.info(`📄 Fetching SAP Note: ${noteId} (${lang})`);
+
+    try {
+      // The raw notes API answers plain HTTP once the SAP session cookies are presented - no browser needed.
+      // If the note has not been translated into the requested language, serve the other one.
+      for (const language of [lang, alternateLanguage(lang)]) {
+        try {
+          logger.info(`🌐 Trying direct HTTP for note ${noteId} (${language})`);
+          const note = await this.getNoteViaHttp(noteId, token, language);
+          if (note) {
+            if (note.language !== lang) {
+              logger.warn(`🌐 SAP Note ${noteId} is not available in ${lang}, serving ${note.language} version`);
+            }
+            logger.info(`✅ Retrieved SAP Note ${noteId} via direct HTTP`);
+            return note;
+          }
+          logger.info(`📭 No ${language} version of SAP Note ${noteId} returned`);
+        } catch (error) {
+          // The browser would present the same rejected cookies
+          if (isSessionExpiredError(error)) {
+            throw error;
+          }
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          logger.warn(`⚠️ Direct HTTP retrieval failed (${errorMessage}), falling back to Playwright`);
+          break;
+        }
+      }
+
+      // Fall back to the raw notes API inside a browser (handles JavaScript-only login flows)
+      for (const language of [lang, alternateLanguage(lang)]) {
+        try {
+          logger.info(`🎭 Trying Playwright approach for note ${noteId} (${language})`);
+          const note = await this.getNoteWithPlaywright(noteId, token, language, acquirePage);
           if (note) {
-            logger.info(`✅ Retrieved SAP Note ${noteId} via raw HTTP API`);
+            if (note.language !== lang) {
+              logger.warn(`🌐 SAP Note ${noteId} is not available in ${lang}, serving ${note.language} version`);
+            }
+            logger.info(`✅ Retrieved SAP Note ${noteId} via Playwright`);
             return note;
           }
+          logger.info(`📭 No ${language} version of SAP Note ${noteId} returned`);
+        } catch (error) {
+          if (isSessionExpiredError(error)) {
+            throw error;
+          }
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          logger.warn(`⚠️ Playwright approach failed for ${language}: ${errorMessage}`);
         }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.debug(`Raw notes HTTP API failed: ${errorMessage}, trying OData fallbacks`);
       }
 
       // Fallback to OData endpoints
@@ -240,13 +1010,16 @@ export class SapNotesApiClient {
 
       for (const endpoint of fallbackEndpoints) {
         try {
-          const response = await this.makeRequest(endpoint, token);
-          const note = await this.parseNoteResponse(response, noteId);
+          const response = await this.makeRequest(endpoint, token, lang);
+          const note = await this.parseNoteResponse(response, noteId, lang);
           if (note) {
             logger.info(`✅ Retrieved SAP Note ${noteId} via fallback`);
             return note;
           }
         } catch (error) {
+          if (isSessionExpiredError(error)) {
+            throw error;
+          }
           const errorMessage = error instanceof Error ? error.message : String(error);
           logger.warn(`⚠️ Endpoint ${endpoint} failed: ${errorMessage}`);
         }
@@ -256,6 +1029,9 @@ export class SapNotesApiClient {
       return null;
 
     } catch (error) {
+      if (isSessionExpiredError(error)) {
+        throw error;
+      }
       logger.error(`❌ Failed to get SAP Note ${noteId}:`, error);
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to get SAP Note ${noteId}: ${errorMessage}`);
@@ -435,60 +1211,16 @@ export class SapNotesApiClient {
   private async getCoveoTokenWithPlaywright(sapToken: string): Promise<string> {
     logger.debug('🔑 Fetching Coveo bearer token from SAP session using Playwright');
     
+    let lease: BrowserContextLease | null = null;
     let page: Page | null = null;
+    let sessionExpired = false;
 
     try {
-      // Check if we need to close idle browser
-      const now = Date.now();
-      if (this.browser && (now - this.browserLastUsed > this.BROWSER_IDLE_TIMEOUT)) {
-        logger.debug('🧹 Closing idle browser session');
-        await this.browser.close().catch(() => {});
-        this.browser = null;
-        this.browserContext = null;
-      }
-
-      // Reuse existing browser session or create new one
-      if (!this.browser || !this.browser.isConnected()) {
-        logger.debug('🎭 Launching new persistent browser session');
-        
-        // Detect container environment and force headless mode
-        const isDocker = process.env.DOCKER_ENV === 'true' || 
-                        process.env.NODE_ENV === 'production' ||
-                        !process.env.DISPLAY ||
-                        !process.stdin.isTTY ||
-                        process.env.CI === 'true';
-        
-        // Force headless in container/server environments
-        const forceHeadless = isDocker || process.platform === 'linux';
-        const shouldUseHeadless = forceHeadless || !this.config.headful;
-        
-        const launchOptions = {
-          headless: shouldUseHeadless,
-          args: [
-            '--disable-dev-shm-usage', 
-            '--no-sandbox',
-            '--disable-gpu',
-            '--disable-web-security',
-            '--disable-features=VizDisplayCompositor',
-            '--no-first-run',
-            '--disable-background-timer-throttling',
-            '--disable-backgrounding-occluded-windows',
-            '--disable-renderer-backgrounding'
-          ]
-        };
-        
-        logger.debug(`🔧 Browser launch configuration:`);
-        logger.debug(`   Container detected: ${isDocker}`);
-        logger.debug(`   Force headless: ${forceHeadless}`);
-        logger.debug(`   Config headful: ${this.config.headful}`);
-        logger.debug(`   Final headless: ${shouldUseHeadless}`);
-        logger.debug(`   Platform: ${process.platform}`);
-        logger.debug(`   Display: ${process.env.DISPLAY || 'NOT_SET'}`);
-        logger.debug(`   Launch options: ${JSON.stringify(launchOptions, null, 2)}`);
-        
-        this.browser = await chromium.launch(launchOptions);
-
-        this.browserContext = await this.browser.newContext({
+      // Borrow the warm Coveo context of this session from the shared pool;
+      // it keeps session cookies alive between searches
+      const contextKey = `coveo:${BrowserPool.sessionKey(sapToken)}`;
+      lease = await getBrowserPool().acquire(contextKey, async (browser) => {
+        const context = await browser.newContext({
           userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36'
         });
 
@@ -503,24 +1235,21 @@ export class SapNotesApiClient {
             logger.warn(`⚠️  Found ${sessionCookies.length} session cookies (may expire): ${sessionCookies.map(c => c.name).join(', ')}`);
           }
           
-          await this.browserContext.addCookies(cookies);
+          await context.addCookies(cookies);
           logger.debug(`🍪 Added ${cookies.length} cached cookies (${persistentCookies.length} persistent, ${sessionCookies.length} session)`);
         } else {
           // Fallback to parsing token string
           const parsedCookies = this.parseCookiesFromToken(sapToken);
           if (parsedCookies.length > 0) {
-            await this.browserContext.addCookies(parsedCookies);
+            await context.addCookies(parsedCookies);
             logger.debug(`🍪 Added ${parsedCookies.length} parsed cookies to browser context`);
           }
         }
-        
-        logger.info('✅ Persistent browser session created - session cookies will remain valid');
-      } else {
-        logger.debug('♻️  Reusing existing browser session (session cookies still valid)');
-      }
 
-      this.browserLastUsed = now;
-      page = await this.browserContext.newPage();
+        return context;
+      });
+
+      page = await lease.context.newPage();
       
       if (!page) {
         throw new Error('Failed to create browser page');
@@ -624,10 +1353,9 @@ export class SapNotesApiClient {
 
       // Check if we were redirected to login page
       const currentUrl = page.url();
-      if (wasRedirectedToLogin || currentUrl.includes('authentication.') || currentUrl.includes('saml/login')) {
+      if (wasRedirectedToLogin || isLoginUrl(currentUrl) || response?.status() === 401 || response?.status() === 403) {
         logger.error('❌ Session expired or cookies invalid - redirected to login page');
-        logger.error('💡 Please run fresh authentication to update cached cookies');
-        throw new Error('Session expired - authentication required. Run test:auth to refresh credentials.');
+        throw new SessionExpiredError('SAP home page redirected to the login page');
       }
 
       // Enhanced debugging for page state and timing
@@ -823,49 +1551,146 @@ export class SapNotesApiClient {
         return coveoToken;
       }
 
-      throw new Error('Unable to extract Coveo token from SAP search page');
-      
-    } catch (error) {
-      logger.error('❌ Failed to get Coveo token:', error);
-      
-      // If session expired, throw special error and close browser to force re-auth
-      if (error instanceof Error && error.message.includes('Session expired')) {
-        logger.warn('🔄 Session expired detected - closing browser to force fresh authentication');
-        if (this.browser) {
-          await this.browser.close().catch(() => {});
-          this.browser = null;
-          this.browserContext = null;
-        }
-        throw new Error('SESSION_EXPIRED');
-      }
-      
-      throw new Error(`Failed to get Coveo bearer token: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      // Only close the page, keep browser alive for session cookie persistence
-      if (page) {
-        await page.close().catch(() => {});
+      throw new Error('Unable to extract Coveo token from SAP search page');
+      
+    } catch (error) {
+      logger.error('❌ Failed to get Coveo token:', error);
+      
+      // If session expired, drop the pooled context and let the caller re-authenticate
+      if (isSessionExpiredError(error)) {
+        logger.warn('🔄 Session expired detected - discarding browser context to force fresh authentication');
+        sessionExpired = true;
+        await getBrowserPool().discard(`coveo:${BrowserPool.sessionKey(sapToken)}`);
+        throw error;
+      }
+      
+      throw new Error(`Failed to get Coveo bearer token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      // Only close the page; the context goes back to the pool to keep session cookies alive
+      // (idle contexts are evicted after BROWSER_IDLE_TIMEOUT_S)
+      if (page) {
+        await page.close().catch(() => {});
+      }
+      await lease?.release({ discard: sessionExpired });
+    }
+  }
+  
+  /**
+   * Keep-alive probe: one small authenticated request to me.sap.com.
+   * Returns false if SAP no longer accepts the session (login page, 401/403);
+   * network errors are thrown, as they say nothing about the session.
+   */
+  async probeSession(token: string): Promise<boolean> {
+    const client = await this.getHttpClient(token);
+    const valid = await client.probe();
+    if (!valid) {
+      this.httpClients.delete(BrowserPool.sessionKey(token));
+    }
+    return valid;
+  }
+
+  /**
+   * Run an operation with the current session. If SAP rejects it (login page,
+   * 401/403), re-authenticate once through the authenticator and run the
+   * operation again with the new session.
+   */
+  private async withSessionRetry<T>(token: string, operation: (token: string) => Promise<T>): Promise<T> {
+    const current = this.currentToken(token);
+    try {
+      return await operation(current);
+    } catch (error) {
+      if (!isSessionExpiredError(error) || !this.session) {
+        throw error;
+      }
+      const renewed = await this.renewSession(current);
+      try {
+        return await operation(renewed);
+      } catch (retryError) {
+        if (isSessionExpiredError(retryError)) {
+          throw new Error('SAP rejected the session even after re-authentication - check the certificate and account permissions');
+        }
+        throw retryError;
+      }
+    }
+  }
+
+  /**
+   * Latest session for a token (tokens replaced by a re-authentication map to their successor)
+   */
+  private currentToken(token: string): string {
+    let current = token;
+    for (let renewed = this.renewedTokens.get(current); renewed && renewed !== current; renewed = this.renewedTokens.get(current)) {
+      current = renewed;
+    }
+    return current;
+  }
+
+  /**
+   * Drop everything tied to a rejected session and obtain a new one. Concurrent
+   * callers share one login (single-flight in the authenticator).
+   */
+  private async renewSession(staleToken: string): Promise<string> {
+    if (!this.session) {
+      throw new SessionExpiredError('no authenticator to renew the session');
+    }
+    logger.warn('🔒 SAP session expired - re-authenticating');
+
+    await this.releaseSession(staleToken);
+    const renewed = await this.session.renewSession(staleToken);
+    this.recordSuccessor(staleToken, renewed);
+    return renewed;
+  }
+
+  /**
+   * A background refresh replaced the session: release the old one and send
+   * callers still holding its token to the new session
+   */
+  async replaceSession(previousToken: string, token: string): Promise<void> {
+    await this.releaseSession(previousToken);
+    this.recordSuccessor(previousToken, token);
+  }
+
+  /**
+   * Drop the HTTP client and the idle pooled browser contexts of a session
+   */
+  private async releaseSession(token: string): Promise<void> {
+    const key = BrowserPool.sessionKey(token);
+    this.httpClients.delete(key);
+    await getBrowserPool().discard(`coveo:${key}`);
+    for (const lang of Object.keys(SAP_LANGUAGE_KEYS) as NoteLanguage[]) {
+      await getBrowserPool().discard(`notes:${lang}:${key}`);
+    }
+  }
+
+  /**
+   * Map a replaced token to its successor. Entries leading to the replaced token
+   * are pruned, so only the latest generation is remembered (older tokens fall
+   * back to a renewal, which the authenticator answers with the current session).
+   */
+  private recordSuccessor(staleToken: string, token: string): void {
+    if (token === staleToken) {
+      return;
+    }
+    for (const [previous, successor] of this.renewedTokens) {
+      if (successor === staleToken) {
+        this.renewedTokens.delete(previous);
       }
-      // DON'T close the browser - we need to keep session cookies alive
-      // Browser will be closed after BROWSER_IDLE_TIMEOUT or on explicit cleanup
     }
+    this.renewedTokens.set(staleToken, token);
   }
-  
+
   /**
    * Cleanup method - call this when shutting down the server
    */
   async cleanup(): Promise<void> {
-    if (this.browser) {
-      logger.debug('🧹 Closing persistent browser session');
-      await this.browser.close().catch(() => {});
-      this.browser = null;
-      this.browserContext = null;
-    }
+    this.httpClients.clear();
+    await getBrowserPool().close();
   }
 
   /**
    * Search via SAP internal APIs (fallback when Coveo fails)
    */
-  private async searchViaInternalAPI(query: string, token: string, maxResults: number): Promise<SapNoteResult[]> {
+  private async searchViaInternalAPI(query: string, token: string, maxResults: number, lang: NoteLanguage): Promise<SapNoteResult[]> {
     logger.info(`🔍 Internal API: Searching for "${query}" with multiple endpoint strategies`);
     
     const searchEndpoints = [
@@ -880,19 +1705,19 @@ export class SapNotesApiClient {
       `/support/search?q=${encodeURIComponent(query)}&type=note&format=json`,
       
       // Try backend notes API (used by note retrieval)
-      `/backend/raw/sapnotes/Search?q=${encodeURIComponent(query)}&t=E&maxResults=${maxResults}`
+      `/backend/raw/sapnotes/Search?q=${encodeURIComponent(query)}&t=${SAP_LANGUAGE_KEYS[lang]}&maxResults=${maxResults}`
     ];
     
     for (let i = 0; i < searchEndpoints.length; i++) {
       const endpoint = searchEndpoints[i];
       try {
         logger.info(`🌐 Internal API Strategy ${i + 1}/${searchEndpoints.length}: ${endpoint.substring(0, 80)}...`);
-        const response = await this.makeRequest(endpoint, token);
+        const response = await this.makeRequest(endpoint, token, lang);
         
         logger.debug(`📊 Response status: ${response.status} ${response.statusText}`);
         
         if (response.ok) {
-          const results = await this.parseInternalSearchResponse(response, query);
+          const results = await this.parseInternalSearchResponse(response, query, lang);
           if (results && results.length > 0) {
             logger.info(`✅ Internal API Strategy ${i + 1} SUCCESS: Found ${results.length} results`);
             return results.slice(0, maxResults);
@@ -903,6 +1728,9 @@ export class SapNotesApiClient {
           logger.warn(`❌ Internal API Strategy ${i + 1}: HTTP ${response.status} ${response.statusText}`);
         }
       } catch (error) {
+        if (isSessionExpiredError(error)) {
+          throw error;
+        }
         logger.warn(`❌ Internal API Strategy ${i + 1} failed: ${error instanceof Error ? error.message : String(error)}`);
         continue;
       }
@@ -915,7 +1743,7 @@ export class SapNotesApiClient {
   /**
    * Parse response from internal SAP search APIs
    */
-  private async parseInternalSearchResponse(response: Response, query: string): Promise<SapNoteResult[]> {
+  private async parseInternalSearchResponse(response: Response, query: string, lang: NoteLanguage): Promise<SapNoteResult[]> {
     try {
       const contentType = response.headers.get('content-type') || '';
       logger.debug(`📄 Parsing response with content-type: ${contentType}`);
@@ -934,8 +1762,10 @@ export class SapNotesApiClient {
               title: item.Title || item.title || 'No title',
               summary: item.Summary || item.summary || 'No summary available',
               component: item.Component || undefined,
+              priority: item.Priority || undefined,
+              category: item.Category || undefined,
               releaseDate: item.ReleaseDate || new Date().toISOString(),
-              language: item.Language || 'EN',
+              language: normalizeNoteLanguage(item.Language, lang),
               url: `https://launchpad.support.sap.com/#/notes/${item.Number || item.id}`
             }));
           }
@@ -949,8 +1779,10 @@ export class SapNotesApiClient {
             title: item.title || item.mh_description || 'No title',
             summary: item.summary || item.description || item.mh_description || 'No summary available',
             component: item.mh_app_component || item.component || undefined,
+            priority: item.mh_priority || item.priority || undefined,
+            category: item.mh_category || item.category || undefined,
             releaseDate: item.date || new Date().toISOString(),
-            language: item.language || 'EN',
+            language: normalizeNoteLanguage(item.language, lang),
             url: item.mh_alt_url || `https://launchpad.support.sap.com/#/notes/${item.mh_id || item.id}`
           }));
         }
@@ -964,7 +1796,7 @@ export class SapNotesApiClient {
             summary: item.summary || item.description || item.Summary || 'No summary available',
             component: item.component || undefined,
             releaseDate: item.date || item.ReleaseDate || new Date().toISOString(),
-            language: item.language || item.Language || 'EN',
+            language: normalizeNoteLanguage(item.language || item.Language, lang),
             url: `https://launchpad.support.sap.com/#/notes/${item.id || item.noteId || item.Number}`
           }));
         }
@@ -974,7 +1806,7 @@ export class SapNotesApiClient {
         // Try to parse HTML search results (basic extraction)
         const html = await response.text();
         logger.debug(`📄 Parsing HTML response (length: ${html.length})`);
-        return this.parseHTMLSearchResults(html, query);
+        return this.parseHTMLSearchResults(html, query, lang);
       } else {
         logger.debug(`⚠️ Unsupported content type: ${contentType}`);
       }
@@ -989,7 +1821,7 @@ export class SapNotesApiClient {
   /**
    * Basic HTML parsing for search results (fallback)
    */
-  private parseHTMLSearchResults(html: string, query: string): SapNoteResult[] {
+  private parseHTMLSearchResults(html: string, query: string, lang: NoteLanguage): SapNoteResult[] {
     // This is a basic implementation - could be enhanced with proper HTML parsing
     const results: SapNoteResult[] = [];
     
@@ -1003,7 +1835,7 @@ export class SapNotesApiClient {
         summary: `Found note ID ${id} in search results for "${query}"`,
         component: undefined,
         releaseDate: new Date().toISOString(),
-        language: 'EN',
+        language: lang,
         url: `https://launchpad.support.sap.com/#/notes/${id}`
       })));
     }
@@ -1011,22 +1843,82 @@ export class SapNotesApiClient {
     return results;
   }
 
+  /**
+   * Execute a single Coveo search request in the given language
+   */
+  private async executeCoveoSearch(
+    query: string,
+    token: string,
+    coveoToken: string,
+    maxResults: number,
+    offset: number,
+    lang: NoteLanguage,
+    filters: SapNoteSearchFilters,
+    includeFacets: boolean,
+    sort: SapNoteSortMode
+  ): Promise<any> {
+    // Build Coveo search request
+    const searchUrl = `${this.coveoSearchUrl}?organizationId=${this.coveoOrgId}`;
+    logger.debug(`🌐 Coveo Search URL: ${searchUrl}`);
+
+    const searchBody = this.buildCoveoSearchBody(query, maxResults, offset, lang, filters, includeFacets, sort);
+    logger.debug(`📤 Coveo Search Body: ${JSON.stringify(searchBody, null, 2).substring(0, 500)}...`);
+
+    const response = await fetch(searchUrl, {
+      method: 'POST',
+      headers: {
+        'accept': '*/*',
+        'accept-language': ACCEPT_LANGUAGE_HEADERS[lang],
+        'authorization': `Bearer ${coveoToken}`,
+        'content-type': 'application/json',
+        'cookie': token,
+        'referer': 'https://me.sap.com/',
+        'origin': 'https://me.sap.com'
+      },
+      body: JSON.stringify(searchBody)
+    });
+
+    logger.debug(`📊 Coveo Response: ${response.status} ${response.statusText}`);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.error(`❌ Coveo API error: ${errorText.substring(0, 200)}`);
+      throw new Error(`Coveo API returned ${response.status}: ${errorText.substring(0, 100)}`);
+    }
+
+    const data = await response.json();
+    logger.debug(`📄 Coveo Results (${lang}): ${data.totalCount || 0} results found`);
+    return data;
+  }
+
   /**
    * Build Coveo search request body
    */
-  private buildCoveoSearchBody(query: string, maxResults: number): any {
+  private buildCoveoSearchBody(
+    query: string,
+    maxResults: number,
+    offset: number,
+    lang: NoteLanguage,
+    filters: SapNoteSearchFilters,
+    includeFacets: boolean,
+    sort: SapNoteSortMode
+  ): any {
+    const documentTypes = COVEO_DOCUMENT_TYPES[filters.documentType || 'note'];
+    const advancedQuery = this.buildCoveoFilterExpression(filters);
+
     return {
-      locale: 'en-US',
+      locale: COVEO_LOCALES[lang],
       debug: false,
       tab: 'All',
       referrer: 'SAP for Me search interface',
       timezone: 'Europe/Berlin',
       q: query,
+      ...(advancedQuery ? { aq: advancedQuery } : {}),
       enableQuerySyntax: false,
       searchHub: 'SAP for Me',
-      sortCriteria: 'relevancy',
+      sortCriteria: COVEO_SORT_CRITERIA[sort],
       numberOfResults: maxResults,
-      firstResult: 0,
+      firstResult: offset,
       fieldsToInclude: [
         'author', 'language', 'urihash', 'objecttype', 'collection', 'source',
         'permanentid', 'documenttype', 'date', 'mh_description', 'mh_id',
@@ -1038,11 +1930,18 @@ export class SapNotesApiClient {
         {
           field: 'documenttype',
           type: 'specific',
+          currentValues: documentTypes.map(value => ({ value, state: 'selected' })),
+          numberOfValues: 10
+        },
+        {
+          field: 'language',
+          type: 'specific',
           currentValues: [
-            { value: 'SAP Note', state: 'selected' }
+            { value: COVEO_LANGUAGE_NAMES[lang], state: 'selected' }
           ],
           numberOfValues: 10
-        }
+        },
+        ...(includeFacets ? this.buildCoveoBreakdownFacets() : [])
       ],
       queryCorrection: {
         enabled: true,
@@ -1054,10 +1953,180 @@ export class SapNotesApiClient {
     };
   }
 
+  /**
+   * Build the Coveo facet requests for the component/priority/category/year breakdown.
+   * These facets have no selected values, so they only count and never filter.
+   */
+  private buildCoveoBreakdownFacets(): any[] {
+    const facets: any[] = Object.entries(COVEO_FACET_FIELDS).map(([facetId, field]) => ({
+      facetId,
+      field,
+      type: 'specific',
+      currentValues: [],
+      numberOfValues: COVEO_FACET_MAX_VALUES,
+      preventAutoSelect: true,
+      sortCriteria: 'occurrences'
+    }));
+
+    const currentYear = new Date().getFullYear();
+    const yearRanges = [];
+    for (let year = currentYear; year > currentYear - COVEO_YEAR_FACET_YEARS; year--) {
+      yearRanges.push({
+        start: `${year}/01/01@00:00:00`,
+        end: `${year}/12/31@23:59:59`,
+        endInclusive: true,
+        state: 'idle'
+      });
+    }
+
+    facets.push({
+      facetId: 'year',
+      field: 'date',
+      type: 'dateRange',
+      currentValues: yearRanges,
+      numberOfValues: yearRanges.length,
+      generateAutomaticRanges: false,
+      preventAutoSelect: true
+    });
+
+    return facets;
+  }
+
+  /**
+   * Parse the facet breakdown from a Coveo search response
+   */
+  private parseCoveoFacets(data: any): SapNoteSearchFacets {
+    const facets: SapNoteSearchFacets = { component: [], priority: [], category: [], year: [] };
+    if (!Array.isArray(data.facets)) {
+      logger.debug('⚠️ No facets in Coveo response');
+      return facets;
+    }
+
+    for (const facet of data.facets) {
+      const facetId = facet.facetId as keyof SapNoteSearchFacets;
+      if (!(facetId in facets) || !Array.isArray(facet.values)) {
+        continue;
+      }
+
+      facets[facetId] = facet.values
+        .filter((value: any) => (value.numberOfResults || 0) > 0)
+        .map((value: any) => ({
+          // Date range values have start/end instead of value ("2024/01/01@00:00:00" → "2024")
+          value: facetId === 'year' ? String(value.start || '').substring(0, 4) : String(value.value),
+          count: value.numberOfResults
+        }));
+    }
+
+    logger.debug(`📊 Parsed facets: ${Object.entries(facets).map(([id, values]) => `${id}=${values.length}`).join(', ')}`);
+    return facets;
+  }
+
+  /**
+   * Compute a facet breakdown from a result list (fallback when Coveo is unavailable)
+   */
+  private computeFacetsFromResults(
+    results: Array<Pick<SapNoteResult, 'component' | 'priority' | 'category' | 'releaseDate'>>
+  ): SapNoteSearchFacets {
+    const count = (values: Array<string | undefined>): SapNoteFacetValue[] => {
+      const counts = new Map<string, number>();
+      for (const value of values) {
+        if (value) {
+          counts.set(value, (counts.get(value) || 0) + 1);
+        }
+      }
+      return [...counts.entries()]
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, COVEO_FACET_MAX_VALUES);
+    };
+
+    return {
+      component: count(results.map(r => r.component)),
+      priority: count(results.map(r => r.priority)),
+      category: count(results.map(r => r.category)),
+      year: count(results.map(r => /^\d{4}/.test(r.releaseDate) ? r.releaseDate.substring(0, 4) : undefined))
+        .sort((a, b) => b.value.localeCompare(a.value))
+    };
+  }
+
+  /**
+   * Build the Coveo advanced query expression (aq) for the structured search filters
+   */
+  private buildCoveoFilterExpression(filters: SapNoteSearchFilters): string | undefined {
+    const quote = (value: string) => `"${value.replace(/"/g, '').trim()}"`;
+    const toCoveoDate = (date: string) => date.replace(/-/g, '/');
+    const expressions: string[] = [];
+
+    if (filters.component) {
+      const component = filters.component.trim().toUpperCase();
+      if (component.endsWith('*')) {
+        // Wildcard match on the component and its sub-components (e.g. FI-GL* → FI-GL, FI-GL-GL, ...)
+        expressions.push(`@mh_app_component*=${quote(component)}`);
+      } else {
+        expressions.push(`@mh_app_component==${quote(component)}`);
+      }
+    }
+    if (filters.priority) {
+      expressions.push(`@mh_priority=${quote(filters.priority)}`);
+    }
+    if (filters.category) {
+      expressions.push(`@mh_category=${quote(filters.category)}`);
+    }
+    if (filters.releasedAfter) {
+      expressions.push(`@date>=${toCoveoDate(filters.releasedAfter)}@00:00:00`);
+    }
+    if (filters.releasedBefore) {
+      expressions.push(`@date<=${toCoveoDate(filters.releasedBefore)}@23:59:59`);
+    }
+
+    return expressions.length > 0 ? expressions.join(' ') : undefined;
+  }
+
+  /**
+   * Client-side filter check, used where the backend cannot filter (internal API, direct note lookup)
+   */
+  private matchesSearchFilters(
+    result: Pick<SapNoteResult, 'component' | 'priority' | 'category' | 'releaseDate'>,
+    filters: SapNoteSearchFilters
+  ): boolean {
+    const contains = (value: string | undefined, expected: string) =>
+      !!value && value.toLowerCase().includes(expected.trim().toLowerCase());
+
+    if (filters.component) {
+      const component = filters.component.trim().toUpperCase();
+      const actual = (result.component || '').toUpperCase();
+      const matches = component.endsWith('*')
+        ? actual.startsWith(component.slice(0, -1))
+        : actual === component;
+      if (!matches) {
+        return false;
+      }
+    }
+    if (filters.priority && !contains(result.priority, filters.priority)) {
+      return false;
+    }
+    if (filters.category && !contains(result.category, filters.category)) {
+      return false;
+    }
+    if (filters.releasedAfter || filters.releasedBefore) {
+      const released = Date.parse(result.releaseDate);
+      if (isNaN(released)) {
+        return false;
+      }
+      if (filters.releasedAfter && released < Date.parse(`${filters.releasedAfter}T00:00:00Z`)) {
+        return false;
+      }
+      if (filters.releasedBefore && released > Date.parse(`${filters.releasedBefore}T23:59:59Z`)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
   /**
    * Parse Coveo search response to our SAP Note format
    */
-  private parseCoveoResponse(data: any): SapNoteResult[] {
+  private parseCoveoResponse(data: any, lang: NoteLanguage): SapNoteResult[] {
     const results: SapNoteResult[] = [];
 
     if (!data.results || !Array.isArray(data.results)) {
@@ -1076,13 +2145,16 @@ export class SapNotesApiClient {
                       'unknown';
 
         // Extract language (Coveo returns array like ["English"])
-        const languageArray = item.raw?.language || item.raw?.syslanguage || [];
-        const language = Array.isArray(languageArray) ? languageArray[0] : (languageArray || 'EN');
+        const language = normalizeNoteLanguage(item.raw?.language || item.raw?.syslanguage, lang);
         
         // Extract component (Coveo returns array, take first element)
         const componentArray = item.raw?.mh_app_component || item.raw?.mh_all_hierarchical_component || [];
         const component = Array.isArray(componentArray) ? componentArray[0] : componentArray;
 
+        // Priority and category are also returned as arrays
+        const priority = Array.isArray(item.raw?.mh_priority) ? item.raw.mh_priority[0] : item.raw?.mh_priority;
+        const category = Array.isArray(item.raw?.mh_category) ? item.raw.mh_category[0] : item.raw?.mh_category;
+
         // Format release date from timestamp (milliseconds)
         const releaseDate = item.raw?.date ? 
           new Date(item.raw.date).toISOString().split('T')[0] : 
@@ -1096,6 +2168,8 @@ export class SapNotesApiClient {
           language: language,
           releaseDate: releaseDate,
           component: component,
+          priority: priority || undefined,
+          category: category || undefined,
           url: item.raw?.mh_alt_url || item.clickUri || `https://launchpad.support.sap.com/#/notes/${noteId}`
         };
 
@@ -1113,7 +2187,7 @@ export class SapNotesApiClient {
   /**
    * Make HTTP request to SAP API
    */
-  private async makeRequest(endpoint: string, token: string): Promise<Response> {
+  private async makeRequest(endpoint: string, token: string, lang: NoteLanguage = 'EN'): Promise<Response> {
     const url = `${this.baseUrl}${endpoint}`;
     
     logger.debug(`🌐 Making request to: ${url}`);
@@ -1129,7 +2203,7 @@ export class SapNotesApiClient {
       'Cookie': token,
       'User-Agent': `Mozilla/5.0 (${osUA}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36`,
       'Accept': 'application/json, text/html, */*',
-      'Accept-Language': 'en-US,en;q=0.9',
+      'Accept-Language': ACCEPT_LANGUAGE_HEADERS[lang],
       'Cache-Control': 'no-cache',
       'Pragma': 'no-cache'
     };
@@ -1142,6 +2216,13 @@ export class SapNotesApiClient {
 
     logger.debug(`📊 Response: ${response.status} ${response.statusText}`);
 
+    // Only a redirect to the login page counts as an expired session here: the retired
+    // launchpad endpoints also answer 401 for valid sessions, and treating that as expiry
+    // would trigger a login on every fallback
+    if (isLoginUrl(response.url)) {
+      throw new SessionExpiredError(`${endpoint} redirected to the login page`);
+    }
+
     if (!response.ok && response.status !== 404) {
       const errorText = await response.text();
       throw new Error(`HTTP ${response.status}: ${errorText.substring(0, 200)}`);
@@ -1154,15 +2235,14 @@ export class SapNotesApiClient {
   /**
    * Parse note detail response
    */
-  private async parseNoteResponse(response: Response, noteId: string): Promise<SapNoteDetail | null> {
+  private async parseNoteResponse(response: Response, noteId: string, lang: NoteLanguage): Promise<SapNoteDetail | null> {
     const responseText = await response.text();
     
     // Try JSON first
     try {
-      const jsonData = JSON.parse(responseText);
-      
-      if (jsonData.d) {
-        return this.mapToSapNoteDetail(jsonData.d, noteId);
+      const mapped = mapNoteJson(JSON.parse(responseText), noteId, lang);
+      if (mapped) {
+        return mapped.note;
       }
     } catch (jsonError) {
       // Try HTML parsing
@@ -1170,127 +2250,9 @@ export class SapNotesApiClient {
     }
 
     // Parse HTML for note details
-    return this.parseHtmlForNoteDetail(responseText, noteId);
-  }
-
-
-  /**
-   * Map OData result to our SapNoteDetail format
-   */
-  private mapToSapNoteDetail(item: any, noteId: string): SapNoteDetail {
-    // Extract CVSS from content if available
-    let cvssScore: string | undefined;
-    let cvssVector: string | undefined;
-    
-    const contentStr = item.Content || item.content || item.Text || item.summary || '';
-    
-    // Look for CVSS Score in content
-    const cvssScoreMatch = contentStr.match(/CVSS(?:\s+Base\s+Score)?[\s:]+(\d+\.?\d*)/i);
-    if (cvssScoreMatch) {
-      cvssScore = cvssScoreMatch[1];
-    }
-    
-    // Look for CVSS Vector in content
-    const cvssVectorMatch = contentStr.match(/CVSS:3\.\d\/[A-Z:\/]+/i);
-    if (cvssVectorMatch) {
-      cvssVector = cvssVectorMatch[0];
-    }
-    
-    // Also check if CVSS fields exist directly in the item
-    if (item.CvssScore || item.cvssScore || item.CVSSScore) {
-      cvssScore = item.CvssScore || item.cvssScore || item.CVSSScore;
-    }
-    if (item.CvssVector || item.cvssVector || item.CVSSVector) {
-      cvssVector = item.CvssVector || item.cvssVector || item.CVSSVector;
-    }
-    
-    return {
-      id: item.SapNote || item.Id || item.id || noteId,
-      title: item.Title || item.title || 'Unknown Title',
-      noteVersion: item.Version || item.version || item.NoteVersion || undefined,
-      summary: item.Summary || item.summary || item.Description || 'No summary available',
-      content: contentStr || 'Content not available',
-      language: item.Language || item.language || 'EN',
-      releaseDate: item.ReleaseDate || item.releaseDate || item.CreationDate || 'Unknown',
-      component: item.Component || item.component,
-      priority: item.Priority || item.priority,
-      category: item.Category || item.category,
-      url: `https://launchpad.support.sap.com/#/notes/${noteId}`,
-      cvssScore,
-      cvssVector
-    };
-  }
-
-  /**
-   * Extract CVSS information from content string
-   */
-  private extractCvssFromContent(content: string): { cvssScore?: string; cvssVector?: string } {
-    let cvssScore: string | undefined;
-    let cvssVector: string | undefined;
-    
-    // Extract CVSS Score - look for patterns like "CVSS: 8.1" or "CVSS Base Score: 8.1"
-    const cvssScoreMatch = content.match(/CVSS(?:\s+Base\s+Score)?[\s:]+(\d+\.?\d*)/i);
-    if (cvssScoreMatch) {
-      cvssScore = cvssScoreMatch[1];
-    }
-    
-    // Extract CVSS Vector - look for CVSS:3.0/AV:... or CVSS:3.1/AV:... patterns
-    const cvssVectorMatch = content.match(/CVSS:3\.\d\/[A-Z:\/]+/i);
-    if (cvssVectorMatch) {
-      cvssVector = cvssVectorMatch[0];
-    }
-    
-    return { cvssScore, cvssVector };
+    return this.parseHtmlForNoteDetail(responseText, noteId, lang);
   }
 
-  /**
-   * Extract software component versions from SAP Note JSON
-   */
-  private extractSoftwareComponents(sapNote: any): { component: string; version: string; supportPackage: string }[] {
-    const versions: { component: string; version: string; supportPackage: string }[] = [];
-    // Track seen keys to avoid duplicates across sources
-    const seen = new Set<string>();
-
-    const parseItems = (items: any[], sourceField: string) => {
-      for (const item of items) {
-        const componentVersion = item.SoftwareComponentVersion || '';
-        // Match component names like "S4CORE 102" or "SEM-BW 600"
-        const match = componentVersion.match(/^([A-Z0-9_-]+)\s+(\d+)$/);
-        if (match) {
-          const key = `${match[1]}:${match[2]}`;
-          if (!seen.has(key)) {
-            seen.add(key);
-            versions.push({
-              component: match[1],
-              version: match[2],
-              supportPackage: item.SupportPackage || ''
-            });
-          }
-        }
-      }
-      logger.debug(`📦 Parsed ${sourceField}: ${versions.length} total entries so far`);
-    };
-
-    try {
-      // Primary source: SupportPackage.Items (e.g. S4CORE, S4COREOP)
-      if (sapNote.SupportPackage?.Items && Array.isArray(sapNote.SupportPackage.Items)) {
-        parseItems(sapNote.SupportPackage.Items, 'SupportPackage');
-      }
-
-      // Secondary source: SupportPackagePatch.Items (e.g. SEM-BW, add-on components)
-      if (sapNote.SupportPackagePatch?.Items && Array.isArray(sapNote.SupportPackagePatch.Items)) {
-        parseItems(sapNote.SupportPackagePatch.Items, 'SupportPackagePatch');
-      }
-
-      if (versions.length > 0) {
-        logger.info(`✅ Extracted ${versions.length} software component versions`);
-      }
-    } catch (error) {
-      logger.debug(`⚠️ Failed to extract software components: ${error}`);
-    }
-
-    return versions;
-  }
 
   /**
    * Extract CVSS information from SAP Note page by navigating to CVSS tab
@@ -1401,11 +2363,11 @@ export class SapNotesApiClient {
           }
           return null;
         },
-        // Strategy 3: Look in page text for "CVSS v3.0 Base Score: X.X" pattern (from screenshot)
+        // Strategy 3: Look in page text for "CVSS v3.x Base Score: X.X" pattern (from screenshot)
         async () => {
           const pageText = await page.locator('body').textContent({ timeout: 3000 }).catch(() => '');
           if (pageText) {
-            const match = pageText.match(/CVSS\s*v?3\.0\s*Base Score\s*[:\s]+(\d+\.?\d*)\s*\/\s*10/i);
+            const match = pageText.match(/CVSS\s*v?3\.[01]\s*Base Score\s*[:\s]+(\d+\.?\d*)\s*\/\s*10/i);
             return match ? match[1] : null;
           }
           return null;
@@ -1427,49 +2389,32 @@ export class SapNotesApiClient {
       
       // Build CVSS Vector from table data
       logger.debug(`🔍 Searching for CVSS Vector components...`);
-      const vectorComponents: { [key: string]: string } = {};
-      const metrics = [
-        { key: 'AV', name: 'Attack Vector', map: { 'Network': 'N', 'Adjacent': 'A', 'Local': 'L', 'Physical': 'P' } },
-        { key: 'AC', name: 'Attack Complexity', map: { 'Low': 'L', 'High': 'H' } },
-        { key: 'PR', name: 'Privileges Required', map: { 'None': 'N', 'Low': 'L', 'High': 'H' } },
-        { key: 'UI', name: 'User Interaction', map: { 'None': 'N', 'Required': 'R' } },
-        { key: 'S', name: 'Scope', map: { 'Unchanged': 'U', 'Changed': 'C' } },
-        { key: 'C', name: 'Confidentiality', map: { 'None': 'N', 'Low': 'L', 'High': 'H' } },
-        { key: 'I', name: 'Integrity', map: { 'None': 'N', 'Low': 'L', 'High': 'H' } },
-        { key: 'A', name: 'Availability', map: { 'None': 'N', 'Low': 'L', 'High': 'H' } }
-      ];
-      
-      for (const metric of metrics) {
+      const metricValues: Record<string, string> = {};
+      for (const label of CVSS_BASE_METRIC_LABELS) {
         try {
-          const rowSelector = `tr:has(td:has-text("${metric.name}"))`;
+          const rowSelector = `tr:has(td:has-text("${label}"))`;
           const row = page.locator(rowSelector).first();
           if (await row.isVisible({ timeout: 1000 }).catch(() => false)) {
             const cells = await row.locator('td').allTextContents();
             if (cells.length >= 2) {
-              let value = cells[1].trim();
-              logger.debug(`📊 ${metric.name}: ${value}`);
-              // Map the value to CVSS notation
-              for (const [longForm, shortForm] of Object.entries(metric.map)) {
-                if (value.includes(longForm)) {
-                  vectorComponents[metric.key] = shortForm;
-                  logger.debug(`✅ Mapped ${metric.name} -> ${shortForm}`);
-                  break;
-                }
-              }
+              metricValues[label] = cells[1].trim();
+              logger.debug(`📊 ${label}: ${metricValues[label]}`);
             }
           }
         } catch (e) {
-          logger.debug(`⚠️ Could not extract ${metric.name}`);
+          logger.debug(`⚠️ Could not extract ${label}`);
           continue;
         }
       }
-      
-   // Build CVSS vector string if we have all components
-      if (Object.keys(vectorComponents).length >= 8) {
-        cvssVector = `CVSS:3.0/AV:${vectorComponents.AV}/AC:${vectorComponents.AC}/PR:${vectorComponents.PR}/UI:${vectorComponents.UI}/S:${vectorComponents.S}/C:${vectorComponents.C}/I:${vectorComponents.I}/A:${vectorComponents.A}`;
+
+      // The tab states the CVSS version ("CVSS v3.1 Base Score"); older notes were rated with 3.0
+      const pageText = await page.locator('body').textContent({ timeout: 3000 }).catch(() => '');
+      const version = detectCvssVersion(pageText || '') || '3.0';
+      cvssVector = cvssVectorFromLabels(version, metricValues);
+      if (cvssVector) {
         logger.info(`✅ Built CVSS Vector: ${cvssVector}`);
       } else {
-        logger.warn(`⚠️ Could not build complete CVSS Vector (found ${Object.keys(vectorComponents).length}/8 components)`);
+        logger.warn(`⚠️ Could not build complete CVSS Vector (found ${Object.keys(metricValues).length}/${CVSS_BASE_METRIC_LABELS.length} components)`);
       }
       
       return { cvssScore, cvssVector };
@@ -1485,20 +2430,20 @@ export class SapNotesApiClient {
   /**
    * Parse HTML response to extract note details
    */
-  private parseHtmlForNoteDetail(html: string, noteId: string): SapNoteDetail | null {
+  private parseHtmlForNoteDetail(html: string, noteId: string, lang: NoteLanguage = 'EN'): SapNoteDetail | null {
     // Extract title if available
     const titleMatch = html.match(/<title>(.*?)<\/title>/i);
     const title = titleMatch ? titleMatch[1].replace(/SAP\s*-?\s*/i, '').trim() : `SAP Note ${noteId}`;
     
     // Extract CVSS information
-    const { cvssScore, cvssVector } = this.extractCvssFromContent(html);
+    const { cvssScore, cvssVector } = extractCvssFromContent(html);
     
     return {
       id: noteId,
       title,
       summary: 'SAP Note details available at the provided URL',
       content: 'Please visit the URL for complete note content',
-      language: 'EN',
+      language: lang,
       releaseDate: 'Unknown',
       url: `https://launchpad.support.sap.com/#/notes/${noteId}`,
       cvssScore,
@@ -1507,129 +2452,51 @@ export class SapNotesApiClient {
   }
 
   /**
-   * Make HTTP request to SAP Raw Notes API (me.sap.com)
+   * Browserless HTTP client for a session, seeded with the cached browser cookies (or the token)
    */
-  private async makeRawRequest(endpoint: string, token: string): Promise<Response> {
-    const url = `${this.rawNotesUrl}${endpoint}`;
-    
-    logger.debug(`🌐 Making raw request to: ${url}`);
-
-    // Use browser-like headers (no XMLHttpRequest to avoid 401)
-    const osUA2 = (() => {
-      const platform = process.platform;
-      if (platform === 'win32') return 'Windows NT 10.0; Win64; x64';
-      if (platform === 'linux') return 'X11; Linux x86_64';
-      return 'Macintosh; Intel Mac OS X 10_15_7';
-    })();
-
-    const headers: Record<string, string> = {
-      'Cookie': token,
-      'User-Agent': `Mozilla/5.0 (${osUA2}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36`,
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-      'Accept-Language': 'en-US,en;q=0.9',
-      'Accept-Encoding': 'gzip, deflate, br',
-      'Cache-Control': 'no-cache',
-      'Pragma': 'no-cache',
-      'Referer': 'https://me.sap.com/',
-      'Sec-Fetch-Dest': 'document',
-      'Sec-Fetch-Mode': 'navigate',
-      'Sec-Fetch-Site': 'same-origin',
-      'Upgrade-Insecure-Requests': '1'
-    };
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers,
-      redirect: 'follow' // Follow redirects to get to actual content
-    });
-
-    logger.debug(`📊 Raw response: ${response.status} ${response.statusText} (${response.url})`);
-
-    // For raw notes API, even redirects might be useful
-    if (!response.ok && response.status !== 404 && response.status !== 302 && response.status !== 301) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${errorText.substring(0, 200)}`);
+  private async getHttpClient(token: string): Promise<SapHttpClient> {
+    const key = BrowserPool.sessionKey(token);
+    let client = this.httpClients.get(key);
+    if (!client) {
+      const cookies = await this.getCachedCookies();
+      const jar = cookies.length > 0 ? new CookieJar(cookies) : new CookieJar(this.parseCookiesFromToken(token));
+      logger.debug(`🍪 HTTP client cookie jar seeded with ${jar.size} cookies`);
+      client = new SapHttpClient(jar);
+      this.httpClients.set(key, client);
     }
-
-    return response;
+    return client;
   }
 
-
   /**
-   * Parse raw note response for detailed note information
+   * Get SAP Note details from the raw notes API without a browser.
+   * Returns null if the note has no content in the requested language.
    */
-  private async parseRawNoteDetail(response: Response, noteId: string): Promise<SapNoteDetail | null> {
-    const responseText = await response.text();
-    
+  private async getNoteViaHttp(noteId: string, token: string, lang: NoteLanguage): Promise<SapNoteDetail | null> {
+    const client = await this.getHttpClient(token);
+    const url = `${this.rawNotesUrl}/Detail?q=${noteId}&t=${SAP_LANGUAGE_KEYS[lang]}&isVTEnabled=false`;
+
+    let jsonData: any;
     try {
-      const jsonData = JSON.parse(responseText);
-      
-      // Check if we have a valid note response
-      if (jsonData && (jsonData.SapNote || jsonData.id || jsonData.noteId)) {
-        const content = jsonData.Content || jsonData.content || jsonData.Text || jsonData.LongText || jsonData.Html || 'Note content available at URL';
-        
-        // Extract CVSS from content
-        let cvssScore: string | undefined;
-        let cvssVector: string | undefined;
-        
-        const cvssScoreMatch = content.match(/CVSS(?:\s+Base\s+Score)?[\s:]+(\d+\.?\d*)/i);
-        if (cvssScoreMatch) {
-          cvssScore = cvssScoreMatch[1];
-        }
-        
-        const cvssVectorMatch = content.match(/CVSS:3\.\d\/[A-Z:\/]+/i);
-        if (cvssVectorMatch) {
-          cvssVector = cvssVectorMatch[0];
-        }
-        
-        // Check for direct CVSS fields
-        if (jsonData.CvssScore || jsonData.cvssScore || jsonData.CVSSScore) {
-          cvssScore = jsonData.CvssScore || jsonData.cvssScore || jsonData.CVSSScore;
-        }
-        if (jsonData.CvssVector || jsonData.cvssVector || jsonData.CVSSVector) {
-          cvssVector = jsonData.CvssVector || jsonData.cvssVector || jsonData.CVSSVector;
-        }
-        
-        return {
-          id: jsonData.SapNote || jsonData.id || jsonData.noteId || noteId,
-          title: jsonData.Title || jsonData.title || jsonData.ShortText || `SAP Note ${noteId}`,
-          noteVersion: jsonData.Version || jsonData.version || jsonData.NoteVersion || undefined,
-          summary: jsonData.Summary || jsonData.summary || jsonData.Abstract || jsonData.abstract || 'SAP Note details',
-          content,
-          language: jsonData.Language || jsonData.language || 'EN',
-          releaseDate: jsonData.ReleaseDate || jsonData.releaseDate || jsonData.CreationDate || 'Unknown',
-          component: jsonData.Component || jsonData.component,
-          priority: jsonData.Priority || jsonData.priority,
-          category: jsonData.Category || jsonData.category || jsonData.Type,
-          url: `https://launchpad.support.sap.com/#/notes/${noteId}`,
-          cvssScore,
-          cvssVector
-        };
+      jsonData = await client.getJson(url, ACCEPT_LANGUAGE_HEADERS[lang]);
+    } catch (error) {
+      if (isSessionExpiredError(error)) {
+        this.httpClients.delete(BrowserPool.sessionKey(token));
       }
-    } catch (jsonError) {
-      logger.debug('Raw note response is not JSON, checking for HTML redirect/content');
+      throw error;
     }
 
-    // Check if this is a redirect page that indicates the note exists
-    if (responseText.includes('fragmentAfterLogin') || responseText.includes('document.cookie')) {
-      logger.debug('Detected redirect page, note likely exists but requires browser navigation');
-      
-      // If we got a response for a valid note ID, create a basic result
-      if (noteId && noteId.match(/^\d{6,8}$/)) {
-        return {
-          id: noteId,
-          title: `SAP Note ${noteId}`,
-          summary: 'Note found via raw API - full content requires browser access',
-          content: `This SAP Note exists but its content requires browser navigation to access.\n\nTo view the complete note content:\n1. Visit: https://launchpad.support.sap.com/#/notes/${noteId}\n2. Or access through: https://me.sap.com with your SAP credentials\n\nThe note was successfully located but content extraction requires additional authentication steps.`,
-          language: 'EN',
-          releaseDate: 'Unknown',
-          url: `https://launchpad.support.sap.com/#/notes/${noteId}`
-        };
-      }
-    }
+    return this.parseRawNoteDetail(jsonData, noteId, lang);
+  }
 
-    // Fallback to HTML parsing
-    return this.parseHtmlForNoteDetail(responseText, noteId);
+  /**
+   * Parse a raw notes API JSON response (Response.SAPNote or a flat note object)
+   */
+  private parseRawNoteDetail(jsonData: any, noteId: string, lang: NoteLanguage): SapNoteDetail | null {
+    const mapped = mapNoteJson(jsonData, noteId, lang);
+    if (!mapped) {
+      throw new Error(`Unrecognized raw note response (keys: ${Object.keys(jsonData || {}).join(', ') || 'none'})`);
+    }
+    return mapped.note;
   }
 
   /**
@@ -1670,77 +2537,67 @@ export class SapNotesApiClient {
   }
 
   /**
-   * Get SAP Note details using Playwright to handle authentication and JavaScript
+   * Pool key for note retrieval contexts: one warm context family per session and language
    */
-  private async getNoteWithPlaywright(noteId: string, token: string): Promise<SapNoteDetail | null> {
-    let browser: Browser | null = null;
-    let page: Page | null = null;
+  private noteContextKey(token: string, lang: NoteLanguage): string {
+    return `notes:${lang}:${BrowserPool.sessionKey(token)}`;
+  }
 
-    try {
-      logger.debug(`🎭 Launching browser for note ${noteId}`);
-      
-      // Detect container environment and force headless mode
-      const isDocker = process.env.DOCKER_ENV === 'true' || 
-                      process.env.NODE_ENV === 'production' ||
-                      !process.env.DISPLAY ||
-                      !process.stdin.isTTY ||
-                      process.env.CI === 'true';
-      
-      // Force headless in container/server environments
-      const forceHeadless = isDocker || process.platform === 'linux';
-      const shouldUseHeadless = forceHeadless || !this.config.headful;
-      
-      const launchOptions = {
-        headless: shouldUseHeadless,
-        args: [
-          '--disable-dev-shm-usage', 
-          '--no-sandbox',
-          '--disable-gpu',
-          '--disable-web-security',
-          '--disable-features=VizDisplayCompositor',
-          '--no-first-run',
-          '--disable-background-timer-throttling',
-          '--disable-backgrounding-occluded-windows',
-          '--disable-renderer-backgrounding'
-        ]
-      };
-      
-      logger.debug(`🔧 Note browser launch configuration:`);
-      logger.debug(`   Note ID: ${noteId}`);
-      logger.debug(`   Container detected: ${isDocker}`);
-      logger.debug(`   Force headless: ${forceHeadless}`);
-      logger.debug(`   Config headful: ${this.config.headful}`);
-      logger.debug(`   Final headless: ${shouldUseHeadless}`);
-      logger.debug(`   Platform: ${process.platform}`);
-      logger.debug(`   Display: ${process.env.DISPLAY || 'NOT_SET'}`);
-      logger.debug(`   Launch options: ${JSON.stringify(launchOptions, null, 2)}`);
-      
-      // Launch browser
-      browser = await chromium.launch(launchOptions);
+  /**
+   * Create a browser context carrying the SAP session cookies
+   */
+  private async createNoteContext(browser: Browser, token: string, lang: NoteLanguage): Promise<BrowserContext> {
+    const context = await browser.newContext({
+      userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+      locale: COVEO_LOCALES[lang]
+    });
 
-      // Create context and add cookies
-      const context = await browser.newContext({
-        userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36'
-      });
+    // Get cookies from the cached authentication
+    const cookies = await this.getCachedCookies();
+    if (cookies.length > 0) {
+      await context.addCookies(cookies);
+      logger.debug(`🍪 Added ${cookies.length} cached cookies to browser context`);
+    } else {
+      // Fallback to parsing token string if no cached cookies
+      const parsedCookies = this.parseCookiesFromToken(token);
+      if (parsedCookies.length > 0) {
+        await context.addCookies(parsedCookies);
+        logger.debug(`🍪 Added ${parsedCookies.length} parsed cookies to browser context`);
+      }
+    }
 
-      // Get cookies from the cached authentication
-      const cookies = await this.getCachedCookies();
-      if (cookies.length > 0) {
-        await context.addCookies(cookies);
-        logger.debug(`🍪 Added ${cookies.length} cached cookies to browser context`);
+    return context;
+  }
+
+  /**
+   * Get SAP Note details using Playwright to handle authentication and JavaScript.
+   * Borrows a context from the shared browser pool, or uses the page of a batch worker if a page provider is passed.
+   */
+  private async getNoteWithPlaywright(
+    noteId: string,
+    token: string,
+    lang: NoteLanguage,
+    acquirePage?: () => Promise<Page>
+  ): Promise<SapNoteDetail | null> {
+    let lease: BrowserContextLease | null = null;
+    let page: Page | null = null;
+    let failed = false;
+
+    try {
+      logger.debug(`🎭 Retrieving note ${noteId} via pooled browser context`);
+      if (acquirePage) {
+        // Batch retrieval: reuse the page of the calling worker
+        page = await acquirePage();
       } else {
-        // Fallback to parsing token string if no cached cookies
-        const parsedCookies = this.parseCookiesFromToken(token);
-        if (parsedCookies.length > 0) {
-          await context.addCookies(parsedCookies);
-          logger.debug(`🍪 Added ${parsedCookies.length} parsed cookies to browser context`);
-        }
+        lease = await getBrowserPool().acquire(
+          this.noteContextKey(token, lang),
+          browser => this.createNoteContext(browser, token, lang)
+        );
+        page = await lease.context.newPage();
       }
 
-      page = await context.newPage();
-
       // Navigate to the raw notes endpoint
-      const rawUrl = `https://me.sap.com/backend/raw/sapnotes/Detail?q=${noteId}&t=E&isVTEnabled=false`;
+      const rawUrl = `https://me.sap.com/backend/raw/sapnotes/Detail?q=${noteId}&t=${SAP_LANGUAGE_KEYS[lang]}&isVTEnabled=false`;
       logger.debug(`🌐 Navigating to: ${rawUrl}`);
 
       const response = await page.goto(rawUrl, {
@@ -1748,6 +2605,12 @@ export class SapNotesApiClient {
         timeout: 30000
       });
 
+      if (response && (response.status() === 401 || response.status() === 403)) {
+        throw new SessionExpiredError(`HTTP ${response.status()}`);
+      }
+      if (isLoginUrl(page.url())) {
+        throw new SessionExpiredError('redirected to the login page');
+      }
       if (!response || !response.ok()) {
         throw new Error(`HTTP ${response?.status()}: Failed to load page`);
       }
@@ -1757,6 +2620,9 @@ export class SapNotesApiClient {
 
       // Get page content and check what we received
       const content = await page.content();
+      if (isLoginUrl(page.url()) || isLoginPage(content)) {
+        throw new SessionExpiredError('note page showed the login form');
+      }
       const pageTitle = await page.title();
       const currentUrl = page.url();
       
@@ -1767,202 +2633,31 @@ export class SapNotesApiClient {
       const contentPreview = content.substring(0, 500);
       logger.debug(`📄 Content preview: ${contentPreview}`);
       
-      // Check if page contains JSON data in body text
+      // The raw notes API answers with JSON, which the browser renders as body text
+      let jsonData: unknown;
       try {
-        // First, try to get text content from body
-        const bodyText = await page.locator('body').textContent();
-        if (bodyText) {
-          logger.debug(`📊 Body text length: ${bodyText.length}`);
-          
-          // Try to parse body text as JSON
-          const trimmedBodyText = bodyText.trim();
-                     if (trimmedBodyText.startsWith('{') && trimmedBodyText.endsWith('}')) {
-             const jsonData = JSON.parse(trimmedBodyText);
-             logger.info(`🎉 Successfully parsed JSON from page body!`);
-             logger.debug(`📊 JSON keys: ${Object.keys(jsonData).join(', ')}`);
-             
-             // Handle the actual SAP Note API response structure
-             if (jsonData.Response && jsonData.Response.SAPNote) {
-               const sapNote = jsonData.Response.SAPNote;
-               const header = sapNote.Header || {};
-               
-               logger.info(`📄 Extracting SAP Note data from API response`);
-               
-               const content = sapNote.LongText?.value || 'No content available';
-               
-               // Extract CVSS from JSON structure directly
-               let cvssScore: string | undefined;
-               let cvssVector: string | undefined;
-               
-               if (sapNote.CVSS) {
-                 cvssScore = sapNote.CVSS.CVSS_Score?.value;
-                 cvssVector = sapNote.CVSS.CVSS_Vector?.vectorValue;
-                 if (cvssScore) {
-                   logger.info(`✅ Extracted CVSS Score from JSON: ${cvssScore}`);
-                 }
-                 if (cvssVector) {
-                   logger.info(`✅ Extracted CVSS Vector from JSON: ${cvssVector}`);
-                 }
-               }
-               
-               // Fallback to content extraction if not found in JSON
-               if (!cvssScore || !cvssVector) {
-                 const extracted = this.extractCvssFromContent(content);
-                 cvssScore = cvssScore || extracted.cvssScore;
-                 cvssVector = cvssVector || extracted.cvssVector;
-               }
-               
-               // Extract software component versions
-               const affectedVersions = this.extractSoftwareComponents(sapNote);
-               
-               const noteDetail = {
-                 id: header.Number?.value || noteId,
-                 title: sapNote.Title?.value || `SAP Note ${noteId}`,
-                 noteVersion: header.Version?.value || header.DocumentVersion?.value || undefined,
-                 summary: header.Type?.value || 'SAP Knowledge Base Article',
-                 content,
-                 language: header.Language?.value || 'EN',
-                 releaseDate: header.ReleasedOn?.value || 'Unknown',
-                 component: header.SAPComponentKeyText?.value || header.SAPComponentKey?.value,
-                 priority: header.Priority?.value,
-                 category: header.Category?.value,
-                 url: `https://launchpad.support.sap.com/#/notes/${noteId}`,
-                 cvssScore,
-                 cvssVector,
-                 affectedVersions: affectedVersions.length > 0 ? affectedVersions : undefined
-               };
-               
-               // Only enhance with tab if CVSS is still missing
-               if (!cvssScore || !cvssVector) {
-                 return await this.enhanceWithCvssFromTab(noteDetail, page, noteId);
-               }
-               
-               return noteDetail;
-             }
-             
-             // Fallback to generic JSON parsing for other structures
-             const content = jsonData.Content || jsonData.content || jsonData.Text || jsonData.LongText || jsonData.Html || jsonData.Description || 'Raw note data retrieved successfully';
-             const { cvssScore, cvssVector } = this.extractCvssFromContent(content);
-             
-             const noteDetail = {
-               id: jsonData.SapNote || jsonData.id || noteId,
-               title: jsonData.Title || jsonData.title || jsonData.ShortText || `SAP Note ${noteId}`,
-               noteVersion: jsonData.Version || jsonData.version || jsonData.NoteVersion || undefined,
-               summary: jsonData.Summary || jsonData.summary || jsonData.Abstract || jsonData.Description || 'Note content extracted via Playwright',
-               content,
-               language: jsonData.Language || 'EN',
-               releaseDate: jsonData.ReleaseDate || jsonData.CreationDate || 'Unknown',
-               component: jsonData.Component,
-               priority: jsonData.Priority,
-               category: jsonData.Category || jsonData.Type,
-               url: `https://launchpad.support.sap.com/#/notes/${noteId}`,
-               cvssScore,
-               cvssVector
-             };
-             
-             // Enhance with CVSS from tab if missing
-             return await this.enhanceWithCvssFromTab(noteDetail, page, noteId);
-           }
+        const bodyText = (await page.locator('body').textContent())?.trim() || '';
+        const bodyHtml = content.match(/<body[^>]*>(.*?)<\/body>/s)?.[1]?.trim() || '';
+        const candidate = [bodyText, bodyHtml].find(text => text.startsWith('{') && text.endsWith('}'));
+        if (candidate) {
+          jsonData = JSON.parse(candidate);
         }
       } catch (jsonError) {
         const errorMessage = jsonError instanceof Error ? jsonError.message : String(jsonError);
         logger.debug(`JSON parsing failed: ${errorMessage}`);
       }
-      
-      // Check if the entire page content is JSON
-      try {
-        const jsonMatch = content.match(/<body[^>]*>(.*?)<\/body>/s);
-                 if (jsonMatch && jsonMatch[1]) {
-           const bodyContent = jsonMatch[1].trim();
-           if (bodyContent.startsWith('{') && bodyContent.endsWith('}')) {
-             const jsonData = JSON.parse(bodyContent);
-             logger.info(`🎉 Found JSON in HTML body!`);
-             
-             // Handle the actual SAP Note API response structure
-             if (jsonData.Response && jsonData.Response.SAPNote) {
-               const sapNote = jsonData.Response.SAPNote;
-               const header = sapNote.Header || {};
-               
-               logger.info(`📄 Extracting SAP Note data from HTML body API response`);
-               
-               const content = sapNote.LongText?.value || 'No content available';
-               
-               // Extract CVSS from JSON structure directly
-               let cvssScore: string | undefined;
-               let cvssVector: string | undefined;
-               
-               if (sapNote.CVSS) {
-                 cvssScore = sapNote.CVSS.CVSS_Score?.value;
-                 cvssVector = sapNote.CVSS.CVSS_Vector?.vectorValue;
-                 if (cvssScore) {
-                   logger.info(`✅ Extracted CVSS Score from JSON: ${cvssScore}`);
-                 }
-                 if (cvssVector) {
-                   logger.info(`✅ Extracted CVSS Vector from JSON: ${cvssVector}`);
-                 }
-               }
-               
-               // Fallback to content extraction if not found in JSON
-               if (!cvssScore || !cvssVector) {
-                 const extracted = this.extractCvssFromContent(content);
-                 cvssScore = cvssScore || extracted.cvssScore;
-                 cvssVector = cvssVector || extracted.cvssVector;
-               }
-               
-               // Extract software component versions
-               const affectedVersions = this.extractSoftwareComponents(sapNote);
-               
-               const noteDetail = {
-                 id: header.Number?.value || noteId,
-                 title: sapNote.Title?.value || `SAP Note ${noteId}`,
-                 noteVersion: header.Version?.value || header.DocumentVersion?.value || undefined,
-                 summary: header.Type?.value || 'SAP Knowledge Base Article',
-                 content,
-                 language: header.Language?.value || 'EN',
-                 releaseDate: header.ReleasedOn?.value || 'Unknown',
-                 component: header.SAPComponentKeyText?.value || header.SAPComponentKey?.value,
-                 priority: header.Priority?.value,
-                 category: header.Category?.value,
-                 url: `https://launchpad.support.sap.com/#/notes/${noteId}`,
-                 cvssScore,
-                 cvssVector,
-                 affectedVersions: affectedVersions.length > 0 ? affectedVersions : undefined
-               };
-               
-               // Only enhance with tab if CVSS is still missing
-               if (!cvssScore || !cvssVector) {
-                 return await this.enhanceWithCvssFromTab(noteDetail, page, noteId);
-               }
-               
-               return noteDetail;
-             }
-             
-             // Fallback to generic JSON parsing
-             const content = jsonData.Content || jsonData.content || jsonData.Text || jsonData.LongText || jsonData.Html || 'Note content available';
-             const { cvssScore, cvssVector } = this.extractCvssFromContent(content);
-             
-             const noteDetail = {
-               id: jsonData.SapNote || jsonData.id || noteId,
-               title: jsonData.Title || jsonData.title || jsonData.ShortText || `SAP Note ${noteId}`,
-               noteVersion: jsonData.Version || jsonData.version || jsonData.NoteVersion || undefined,
-               summary: jsonData.Summary || jsonData.summary || jsonData.Abstract || 'Note extracted via Playwright',
-               content,
-               language: jsonData.Language || 'EN',
-               releaseDate: jsonData.ReleaseDate || jsonData.CreationDate || 'Unknown',
-               component: jsonData.Component,
-               priority: jsonData.Priority,
-               category: jsonData.Category || jsonData.Type,
-               url: `https://launchpad.support.sap.com/#/notes/${noteId}`,
-               cvssScore,
-               cvssVector
-             };
-             
-             // Enhance with CVSS from tab if missing
-             return await this.enhanceWithCvssFromTab(noteDetail, page, noteId);
-           }
-         }
-      } catch (htmlJsonError) {
-        logger.debug('No JSON found in HTML body either');
+
+      const mapped = jsonData ? mapNoteJson(jsonData, noteId, lang) : null;
+      if (mapped) {
+        logger.info(`🎉 Parsed note JSON from page`);
+        if (!mapped.note) {
+          return null;
+        }
+        // Only enhance with tab if CVSS is still missing
+        if (!mapped.note.cvssScore || !mapped.note.cvssVector) {
+          return await this.enhanceWithCvssFromTab(mapped.note, page, noteId);
+        }
+        return mapped.note;
       }
 
       // If no JSON, try to extract data from HTML
@@ -2012,14 +2707,14 @@ export class SapNotesApiClient {
         logger.info(`📄 Extracted note data from HTML via Playwright`);
         
         const content = noteData.content || 'Note content extracted via browser automation';
-        const { cvssScore, cvssVector } = this.extractCvssFromContent(content);
+        const { cvssScore, cvssVector } = extractCvssFromContent(content);
         
         const noteDetail = {
           id: noteId,
           title: noteData.title || `SAP Note ${noteId}`,
           summary: noteData.summary || 'Extracted via Playwright',
           content,
-          language: 'EN',
+          language: lang,
           releaseDate: 'Unknown',
           url: `https://launchpad.support.sap.com/#/notes/${noteId}`,
           cvssScore,
@@ -2035,17 +2730,20 @@ export class SapNotesApiClient {
       return null;
 
     } catch (error) {
+      failed = true;
+      if (isSessionExpiredError(error)) {
+        throw error;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`❌ Playwright note extraction failed: ${errorMessage}`);
       throw new Error(`Playwright extraction failed: ${errorMessage}`);
     } finally {
-      // Cleanup
-      if (page) {
+      // Cleanup (pages acquired from a batch stay open for the next note)
+      if (page && !acquirePage) {
         await page.close().catch(() => {});
       }
-      if (browser) {
-        await browser.close().catch(() => {});
-      }
+      // A context that failed (e.g. crashed page, stale cookies) is not returned to the pool
+      await lease?.release({ discard: failed });
     }
   }
 
@@ -2102,33 +2800,24 @@ export class SapNotesApiClient {
   }
 
   /**
-   * Get cached cookies from the token cache file
+   * Get cached cookies from the token store shared with the authenticator
    */
-  private async getCachedCookies(): Promise<Array<{name: string, value: string, domain: string, path: string, expires?: number, secure?: boolean, httpOnly?: boolean, sameSite?: 'Strict' | 'Lax' | 'None'}>> {
+  private async getCachedCookies(): Promise<CachedCookie[]> {
     try {
-      const { readFileSync, existsSync } = await import('fs');
-      const { dirname, join } = await import('path');
-      const { fileURLToPath } = await import('url');
-      
-      // Get the project root directory
-      const currentDir = process.cwd();
-      const tokenCacheFile = process.env.TOKEN_CACHE_PATH || join(currentDir, 'token-cache.json');
-      
-      if (!existsSync(tokenCacheFile)) {
-        logger.debug('No token cache file found');
+      const tokenCache = await this.tokenStore.load();
+      if (!tokenCache) {
+        logger.debug('No cached token in token store');
         return [];
       }
-      
-      const tokenCache = JSON.parse(readFileSync(tokenCacheFile, 'utf8'));
-      
-      if (tokenCache.cookies && Array.isArray(tokenCache.cookies)) {
+
+      if (Array.isArray(tokenCache.cookies)) {
         logger.debug(`📄 Found ${tokenCache.cookies.length} cached cookies`);
         return tokenCache.cookies;
       }
-      
+
       logger.debug('No cookies array found in token cache');
       return [];
-      
+
     } catch (error) {
       logger.warn(`⚠️ Failed to read cached cookies: ${error}`);
       return [];
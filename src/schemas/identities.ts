@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+/**
+ * ============================================
+ * SAP IDENTITIES SCHEMA
+ * ============================================
+ *
+ * Named S-user identities served by one HTTP server (SAP_IDENTITIES_PATH,
+ * JSON or YAML). Each identity logs in with its own SAP Passport certificate;
+ * secrets are usually given as `${ENV_VAR}` references, which are expanded
+ * before validation.
+ */
+
+export const SapIdentityDefinitionSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/, 'Use letters, digits, "-" and "_" only').describe('Identity name, selected with the X-SAP-Identity header'),
+  description: z.string().optional(),
+  pfxPath: z.string().min(1).describe('SAP Passport certificate, relative to the identities file'),
+  pfxPassphrase: z.string().min(1),
+  accessTokens: z.array(z.string().min(1)).default([]).describe('Bearer tokens that select (and are bound to) this identity'),
+  tokenCachePath: z.string().optional().describe('Token store file, relative to the identities file (default token-cache-<name>.json next to TOKEN_CACHE_PATH)'),
+  watchlistPath: z.string().optional().describe('Note watchlist file, relative to the identities file (default note-watchlist-<name>.json next to NOTE_WATCHLIST_PATH)'),
+  maxJwtAgeH: z.number().positive().optional()
+});
+
+export const SapIdentitiesFileSchema = z.object({
+  default: z.string().optional().describe('Identity for callers that neither send a bound token nor the header (default: the first one)'),
+  identities: z.array(SapIdentityDefinitionSchema).min(1)
+}).superRefine((file, ctx) => {
+  const names = new Set<string>();
+  const tokens = new Set<string>();
+  file.identities.forEach((identity, index) => {
+    if (names.has(identity.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['identities', index, 'name'], message: `Duplicate identity "${identity.name}"` });
+    }
+    names.add(identity.name);
+    for (const token of identity.accessTokens) {
+      if (tokens.has(token)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['identities', index, 'accessTokens'], message: 'Access token is assigned to more than one identity' });
+      }
+      tokens.add(token);
+    }
+  });
+  if (file.default && !names.has(file.default)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['default'], message: `Unknown identity "${file.default}"` });
+  }
+});
+
+export type SapIdentityDefinition = z.infer<typeof SapIdentityDefinitionSchema>;
+export type SapIdentitiesFile = z.infer<typeof SapIdentitiesFileSchema>;
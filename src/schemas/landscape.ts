@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+/**
+ * ============================================
+ * LANDSCAPE PROFILE SCHEMA
+ * ============================================
+ *
+ * Local description of the SAP systems a note is checked against
+ * (LANDSCAPE_PROFILE_PATH, JSON or YAML). Releases and SP levels are
+ * accepted as strings or numbers, since YAML turns `757` into a number.
+ */
+
+const VersionString = z.union([z.string(), z.number()]).transform(value => String(value).trim());
+
+export const LandscapeComponentSchema = z.object({
+  name: z.string().min(1).describe('Software component, e.g. "SAP_BASIS", "S4CORE"'),
+  release: VersionString.describe('Installed release, e.g. "757", "106"'),
+  supportPackage: VersionString.optional().describe('Installed SP level, e.g. "0004", "SP04" or "SAPK-10604INS4CORE"')
+});
+
+export const LandscapeSystemSchema = z.object({
+  id: z.string().min(1).describe('System ID, e.g. "S4P"'),
+  description: z.string().optional(),
+  role: z.string().optional().describe('e.g. "production", "quality", "development"'),
+  components: z.array(LandscapeComponentSchema).min(1)
+});
+
+export const LandscapeProfileSchema = z.object({
+  systems: z.array(LandscapeSystemSchema).min(1)
+});
+
+export type LandscapeComponent = z.infer<typeof LandscapeComponentSchema>;
+export type LandscapeSystem = z.infer<typeof LandscapeSystemSchema>;
+export type LandscapeProfile = z.infer<typeof LandscapeProfileSchema>;
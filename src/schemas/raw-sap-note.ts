@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+/**
+ * ============================================
+ * RAW SAP NOTE SCHEMA (me.sap.com backend)
+ * ============================================
+ *
+ * Shape of `Response.SAPNote` as returned by the raw notes API
+ * (`/backend/raw/sapnotes/Detail?q=<id>&t=<E|D>`). Scalar fields come wrapped
+ * as `{ value: ... }`. All objects are passthrough: SAP adds fields without
+ * notice, and the mapper reports them instead of rejecting the note.
+ */
+
+/**
+ * `{ value: "..." }` envelope used for scalar fields
+ */
+export const RawValueSchema = z.object({
+  value: z.union([z.string(), z.number(), z.boolean()]).nullable().optional()
+}).passthrough();
+
+export const RawSapNoteHeaderSchema = z.object({
+  Number: RawValueSchema.optional(),
+  Version: RawValueSchema.optional(),
+  DocumentVersion: RawValueSchema.optional(),
+  Type: RawValueSchema.optional(),
+  Language: RawValueSchema.optional(),
+  ReleasedOn: RawValueSchema.optional(),
+  SAPComponentKey: RawValueSchema.optional(),
+  SAPComponentKeyText: RawValueSchema.optional(),
+  Priority: RawValueSchema.optional(),
+  Category: RawValueSchema.optional(),
+  Status: RawValueSchema.optional()
+}).passthrough();
+
+export const RawSupportPackageItemSchema = z.object({
+  SoftwareComponentVersion: z.string().optional(),
+  SupportPackage: z.string().optional()
+}).passthrough();
+
+export const RawCvssSchema = z.object({
+  CVSS_Score: RawValueSchema.optional(),
+  CVSS_Vector: z.object({ vectorValue: z.string().optional() }).passthrough().optional()
+}).passthrough();
+
+/**
+ * `{ Items: [...] }` list wrapper or plain array (items are read leniently by the mapper)
+ */
+const RawItemListSchema = z.object({ Items: z.array(z.unknown()).optional() }).passthrough();
+const RawListSchema = z.union([RawItemListSchema, z.array(z.unknown())]);
+
+export const RawSapNoteSchema = z.object({
+  Header: RawSapNoteHeaderSchema.optional(),
+  Title: RawValueSchema.optional(),
+  LongText: RawValueSchema.optional(),
+  CVSS: RawCvssSchema.optional(),
+  SupportPackage: z.object({ Items: z.array(RawSupportPackageItemSchema).optional() }).passthrough().optional(),
+  SupportPackagePatch: z.object({ Items: z.array(RawSupportPackageItemSchema).optional() }).passthrough().optional(),
+  References: z.object({
+    RefTo: RawListSchema.optional(),
+    RefBy: RawListSchema.optional()
+  }).passthrough().optional(),
+  RefTo: RawListSchema.optional(),
+  RefBy: RawListSchema.optional(),
+  Preconditions: RawListSchema.optional(),
+  Prerequisites: RawListSchema.optional(),
+  SideEffects: RawListSchema.optional(),
+  SideEffectsCausing: RawListSchema.optional(),
+  SideEffectsSolving: RawListSchema.optional(),
+  Validity: RawListSchema.optional(),
+  CorrectionInstructions: RawListSchema.optional(),
+  ManualActivities: RawListSchema.optional(),
+  ManualActions: RawListSchema.optional(),
+  ManualPreImplementationSteps: RawListSchema.optional(),
+  ManualPostImplementationSteps: RawListSchema.optional(),
+  Attachments: RawListSchema.optional()
+}).passthrough();
+
+export const RawNoteResponseSchema = z.object({
+  Response: z.object({
+    SAPNote: z.unknown()
+  }).passthrough()
+}).passthrough();
+
+// Fields the mapper reads or knowingly ignores; anything else is reported as unknown
+export const KNOWN_RAW_NOTE_FIELDS = Object.keys(RawSapNoteSchema.shape);
+export const KNOWN_RAW_HEADER_FIELDS = Object.keys(RawSapNoteHeaderSchema.shape);
+
+export type RawValue = z.infer<typeof RawValueSchema>;
+export type RawSapNoteHeader = z.infer<typeof RawSapNoteHeaderSchema>;
+export type RawSupportPackageItem = z.infer<typeof RawSupportPackageItemSchema>;
+export type RawSapNote = z.infer<typeof RawSapNoteSchema>;
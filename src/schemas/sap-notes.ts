@@ -48,10 +48,127 @@ Avoid vague queries like: "SAP problem", "not working", "help"`
 • EN (English) - Default and recommended, most comprehensive coverage
 • DE (German) - Available for German-language notes
 
+If no notes match in the requested language, the search falls back to the other language. Check the "language" field of each result.
+
 Use EN unless user specifically requests German content.`
     ),
+
+  limit: z
+    .number()
+    .int()
+    .min(1, "Limit must be at least 1")
+    .max(50, "Limit must be at most 50")
+    .default(10)
+    .describe(
+      `Maximum number of results to return per page (1-50, default 10).
+
+Keep the default for targeted queries. Increase it only for broad queries where the relevant note may be ranked lower.`
+    ),
+
+  offset: z
+    .number()
+    .int()
+    .min(0, "Offset cannot be negative")
+    .max(4950, "Offset must be at most 4950")
+    .default(0)
+    .describe(
+      `Number of results to skip (default 0). Use this or "cursor" to page through results.
+
+Example: limit=10, offset=20 returns results 21-30.`
+    ),
+
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      `Opaque pagination cursor from the "nextCursor" field of a previous sap_note_search response.
+
+Pass it together with the SAME query, filters and sort to fetch the next page (a cursor from a different search is rejected). When a cursor is given, "offset" is ignored.`
+    ),
+
+  component: z
+    .string()
+    .regex(/^[A-Za-z0-9_-]+\*?$/, "Component must look like 'BC-CST' or 'FI-GL*'")
+    .optional()
+    .describe(
+      `Filter by SAP application component.
+• Exact match: "BC-CST" (only notes assigned to BC-CST)
+• Prefix match with trailing "*": "FI-GL*" (FI-GL and all sub-components like FI-GL-GL)
+
+Omit to search all components.`
+    ),
+
+  priority: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      `Filter by note priority (e.g. "Very High", "High", "Medium", "Low", "Recommendations/Additional Info").
+
+Omit to include all priorities.`
+    ),
+
+  category: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      `Filter by note category (e.g. "Security", "Correction", "Performance", "Consulting", "Legal Change").
+
+Example: category="Security" with component="BC-CST*" finds security notes for the kernel.`
+    ),
+
+  releasedAfter: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe('Only return notes released on or after this date (YYYY-MM-DD), e.g. "2025-01-01"'),
+
+  releasedBefore: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe('Only return notes released on or before this date (YYYY-MM-DD), e.g. "2025-06-30"'),
+
+  documentType: z
+    .enum(['note', 'kba', 'all'])
+    .default('note')
+    .describe(
+      `Type of documents to search.
+• note - SAP Notes only (default: corrections, security patches, etc.)
+• kba - SAP Knowledge Base Articles only (how-to and troubleshooting articles)
+• all - Both SAP Notes and KBAs`
+    ),
+
+  includeFacets: z
+    .boolean()
+    .default(false)
+    .describe(
+      `Set to true to also return a breakdown of ALL matching notes by component, priority, category and release year.
+
+Use for broad queries to see where hits concentrate, then refine with the component/priority/category/releasedAfter filters.`
+    ),
+
+  sort: z
+    .enum(['relevance', 'newest', 'oldest', 'priority'])
+    .default('relevance')
+    .describe(
+      `Result ordering.
+• relevance - Best matches first (default, use for troubleshooting)
+• newest - Most recently released first (patch-day triage, "latest notes for ...")
+• oldest - Oldest first (audits, history of an issue)
+• priority - Most urgent first (Very High → High → Medium → Low), applied within each page of results`
+    ),
 };
 
+/**
+ * Output schema for a single facet value (value + number of matching notes)
+ */
+const FacetValueSchema = z.object({
+  value: z.string().describe('Facet value (e.g. "BC-CST", "Very High", "Security", "2024")'),
+  count: z.number().int().min(0).describe('Number of matching notes with this value'),
+});
+
 /**
  * Output schema shape for individual note in search results
  */
@@ -92,6 +209,16 @@ Component format: [Application Area]-[Module]-[Submodule]
 
 null if component is not specified.`
     ),
+
+  priority: z
+    .string()
+    .nullable()
+    .describe('Note priority (e.g. "Very High", "High", "Medium"). null if not available.'),
+
+  category: z
+    .string()
+    .nullable()
+    .describe('Note category (e.g. "Security", "Correction", "Performance"). null if not available.'),
   
   releaseDate: z
     .string()
@@ -126,7 +253,7 @@ export const NoteSearchOutputSchema = {
 • 1-5 results: High relevance, likely good matches
 • 6+ results: Multiple relevant notes found
 
-Results are ranked by relevance (best matches first).`
+Results are ranked by relevance (best matches first) unless another "sort" was requested.`
     ),
   
   query: z
@@ -146,6 +273,42 @@ Typical workflow after getting results:
 
 Do NOT fetch all notes - only retrieve details for the most relevant ones.`
     ),
+
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .describe('Offset of the first result in this page (0-based)'),
+
+  hasMore: z
+    .boolean()
+    .describe(
+      'true if more results are available beyond this page. Use "nextCursor" to fetch the next page.'
+    ),
+
+  nextCursor: z
+    .string()
+    .nullable()
+    .describe(
+      `Cursor for the next page of results. Call sap_note_search again with the same query and cursor=<nextCursor>.
+
+null if this is the last page.`
+    ),
+
+  facets: z
+    .object({
+      component: z.array(FacetValueSchema).describe('Top components among matching notes'),
+      priority: z.array(FacetValueSchema).describe('Matching notes per priority'),
+      category: z.array(FacetValueSchema).describe('Matching notes per category'),
+      year: z.array(FacetValueSchema).describe('Matching notes per release year (most recent first)'),
+    })
+    .nullable()
+    .optional()
+    .describe(
+      `Breakdown of all matching notes by component, priority, category and year (only when includeFacets=true).
+
+Use it to suggest refinements, e.g. "Most hits are in BC-CST (42) - filter with component='BC-CST*'?"`
+    ),
 };
 
 /**
@@ -187,10 +350,70 @@ If user input includes text (e.g., "Note 2744792" or "SAP Note 2744792"), extrac
 • EN (English) - Default, recommended for most cases
 • DE (German) - Use if note exists in German and user requests it
 
-Note: Not all notes are available in both languages.`
+Note: Not all notes are available in both languages. If the note has not been translated, the other language version is returned and the "language" field of the result says which one was served.`
+    ),
+
+  format: z
+    .enum(['html', 'markdown', 'text'])
+    .default('markdown')
+    .describe(
+      `Output format for "content" and "sections".
+• markdown - Default, recommended. GitHub-flavoured Markdown with tables (e.g. support package validity), fenced code blocks (ABAP snippets), lists and absolute links to other notes
+• text - Plain text without any markup (smallest output)
+• html - Raw HTML as delivered by SAP (only if you need the original markup)`
+    ),
+
+  maxChars: z
+    .number()
+    .int()
+    .min(1000, "maxChars must be at least 1000")
+    .max(200000, "maxChars cannot exceed 200000")
+    .optional()
+    .describe(
+      `Maximum characters of "content" per response. Long notes (correction notes, collective notes) are split into parts at section/paragraph boundaries.
+
+Recommended: 20000 for large notes. Omit to get the full content in one response.
+The response lists "totalParts" and a "tableOfContents" with the part each section starts in.`
+    ),
+
+  part: z
+    .number()
+    .int()
+    .min(1, "part must be at least 1")
+    .default(1)
+    .describe(
+      `Which part to return when "maxChars" splits the note (1-based, default 1).
+
+Example: the table of contents shows Solution in part 3 → call again with the same maxChars and part=3.`
+    ),
+
+  refresh: z
+    .boolean()
+    .default(false)
+    .describe(
+      `Bypass the local note cache and download the note from SAP again (default false).
+
+Notes are cached for a limited time. Only set this if the user needs the very latest version of a note (e.g. it was updated today).`
     ),
 };
 
+/**
+ * Output schema for a reference from one note to another
+ */
+const NoteReferenceSchema = z.object({
+  noteId: z.string().describe('ID of the referenced/referencing note'),
+  title: z.string().nullable().describe('Title of that note if known (null otherwise)'),
+  direction: z
+    .enum(['outbound', 'inbound'])
+    .describe('outbound: this note refers to noteId; inbound: noteId refers to this note'),
+  kind: z
+    .enum(['prerequisite', 'sideEffect', 'related', 'reference', 'mention'])
+    .describe(
+      'Relation: prerequisite (implement first), sideEffect (side-effect note), related (See Also), reference (reference list), mention (mentioned in the text)'
+    ),
+  source: z.enum(['content', 'metadata']).describe('Where the reference was found: note text or the note\'s reference lists'),
+});
+
 /**
  * Output schema shape for sap_note_get (for MCP SDK)
  */
@@ -257,7 +480,7 @@ null if category is not specified.`
   
   language: z
     .string()
-    .describe('Language of the note content (EN or DE)'),
+    .describe('Language of the note content that was actually served (EN or DE). May differ from the requested language if no translation exists.'),
   
   url: z
     .string()
@@ -265,11 +488,23 @@ null if category is not specified.`
     .describe(
       'Direct URL to view the note on SAP Support Portal. Share this link with users so they can access the official source.'
     ),
+
+  fromCache: z
+    .boolean()
+    .describe('true if the note was served from the local note cache instead of being downloaded from SAP'),
+
+  fetchedAt: z
+    .string()
+    .describe('When the note was downloaded from SAP (ISO 8601). For cached notes this is the time of the original download.'),
+
+  format: z
+    .enum(['html', 'markdown', 'text'])
+    .describe('Format of "content" and "sections" (markdown, text or html), as requested'),
   
   content: z
     .string()
     .describe(
-      `Full HTML content of the SAP Note including all sections:
+      `Content of the SAP Note in the requested format (markdown by default). If "maxChars" was set, only the requested part - otherwise the full note including all sections:
 
 Typical sections in note content:
 • Symptom - Description of the problem/error
@@ -279,15 +514,128 @@ Typical sections in note content:
 • Related Notes - Links to other relevant notes
 • Additional Information - Extra context, warnings, or tips
 
-Important: This is raw HTML content. You should:
-1. Parse the HTML to extract key sections
+Important: You should:
+1. Prefer the pre-extracted "sections" field for Symptom, Reason and Solution
 2. Summarize the Symptom and Solution for the user
 3. Keep technical details but make them readable
 4. Preserve any code snippets, configuration steps, or warnings
-5. If content is very long (>5000 chars), focus on Symptom and Solution sections
+5. If content is very long (>5000 chars), focus on Symptom and Solution sections, or request it in parts via "maxChars"
+
+Links to other SAP Notes point to https://me.sap.com/notes/<id> - use sap_note_get to follow them.`
+    ),
+
+  part: z
+    .number()
+    .describe('Part of the content that was returned (1-based). Always 1 if "maxChars" was not set.'),
+
+  totalParts: z
+    .number()
+    .describe('Total number of parts at the requested "maxChars". Fetch further parts with the "part" parameter.'),
+
+  tableOfContents: z
+    .array(
+      z.object({
+        title: z.string().describe('Heading text as it appears in the note'),
+        section: z
+          .enum(['symptom', 'reasonAndPrerequisites', 'solution', 'otherTerms', 'seeAlso'])
+          .nullable()
+          .describe('Standard section this heading starts (null for other headings)'),
+        part: z.number().describe('Part in which this heading starts'),
+      })
+    )
+    .describe('Headings of the note in document order, with the part each one starts in. Use it to fetch e.g. the Solution part directly.'),
+
+  sections: z
+    .object({
+      symptom: z.string().nullable().describe('Symptom: description of the problem or error'),
+      reasonAndPrerequisites: z
+        .string()
+        .nullable()
+        .describe('Reason and Prerequisites (KBA: Cause): root cause and conditions under which the problem occurs'),
+      solution: z
+        .string()
+        .nullable()
+        .describe('Solution (KBA: Resolution): steps, corrections or support packages that fix the problem'),
+      otherTerms: z
+        .string()
+        .nullable()
+        .describe('Other Terms (KBA: Keywords): search terms, transaction codes, messages'),
+      seeAlso: z.string().nullable().describe('See Also: related notes and documentation'),
+    })
+    .nullable()
+    .optional()
+    .describe(
+      `Standard note sections extracted from "content" (same format as content). Works for English and German notes.
 
-Do not return raw HTML to the user - extract and format the relevant information.`
+Each field is null if the note does not contain that section. Use "solution" to answer "how do I fix this?" without reading the full content.
+Omitted (null) when the content is split into several parts - use "tableOfContents" and "part" instead.`
     ),
+
+  references: z
+    .array(NoteReferenceSchema)
+    .nullable()
+    .optional()
+    .describe(
+      `SAP Notes this note refers to (direction "outbound") or is referenced by (direction "inbound"), from content links and the note's reference lists.
+
+Use kind "prerequisite" to find notes that must be implemented first. Call sap_note_references to follow the references over several levels.`
+    ),
+  
+  validity: z
+    .array(
+      z.object({
+        softwareComponent: z.string().describe('Software component, e.g. "SAP_BASIS", "S4CORE"'),
+        from: z.string().nullable().describe('First release the note applies to, e.g. "700"'),
+        to: z.string().nullable().describe('Last release the note applies to, e.g. "758"'),
+      })
+    )
+    .nullable()
+    .optional()
+    .describe('Software component release ranges the note is valid for. A system is only affected if its component release lies in one of these ranges.'),
+
+  correctionInstructions: z
+    .array(
+      z.object({
+        id: z.string().nullable().describe('Correction instruction number'),
+        softwareComponent: z.string().nullable().describe('Software component the correction applies to'),
+        validFrom: z.string().nullable().describe('First release (or SP) the correction applies to'),
+        validTo: z.string().nullable().describe('Last release (or SP) the correction applies to'),
+        lastChanged: z.string().nullable().describe('When the correction instruction was last changed'),
+      })
+    )
+    .nullable()
+    .optional()
+    .describe('Correction instructions that can be implemented with transaction SNOTE. null if the note only ships via support packages or is a consulting note.'),
+
+  manualActivities: z
+    .array(
+      z.object({
+        phase: z
+          .enum(['pre', 'post', 'other'])
+          .describe('"pre": before implementing the corrections, "post": afterwards, "other": phase not stated'),
+        title: z.string().nullable().describe('Short title of the manual step'),
+        description: z.string().nullable().describe('What to do, in the requested format'),
+        softwareComponent: z.string().nullable().describe('Software component the step applies to'),
+        validFrom: z.string().nullable().describe('First release the step applies to'),
+        validTo: z.string().nullable().describe('Last release the step applies to'),
+      })
+    )
+    .nullable()
+    .optional()
+    .describe('Manual pre-/post-implementation steps SNOTE cannot perform (customizing, DDIC changes, ...). These drive the implementation effort - always mention them.'),
+
+  attachments: z
+    .array(
+      z.object({
+        fileName: z.string().describe('File name of the attachment'),
+        url: z.string().nullable().describe('Download URL (requires an SAP login)'),
+        size: z.string().nullable().describe('File size as reported by SAP'),
+        mimeType: z.string().nullable().describe('MIME type of the attachment'),
+      })
+    )
+    .nullable()
+    .optional()
+    .describe('Files attached to the note (e.g. correction reports, documentation)'),
   
   cvssScore: z
     .string()
@@ -325,6 +673,557 @@ This provides detailed vulnerability characteristics:
 
 null or undefined if not a security note or CVSS not available.`
     ),
+
+  cves: z
+    .array(z.string())
+    .nullable()
+    .optional()
+    .describe('CVE identifiers named in the note (e.g. ["CVE-2025-31324"]). null if the note names none.'),
+
+  cvss: z
+    .object({
+      version: z.enum(['3.0', '3.1']).nullable().describe('CVSS version of the vector'),
+      vector: z.string().nullable().describe('Validated, canonical base vector'),
+      baseScore: z.number().nullable().describe("Base score (SAP's value, or computed from the vector if SAP gives none)"),
+      computedScore: z.number().nullable().describe('Base score calculated from the vector'),
+      scoreMatches: z
+        .boolean()
+        .nullable()
+        .describe("false if SAP's score disagrees with the vector - mention this, SAP's value is authoritative"),
+      severity: z.enum(['None', 'Low', 'Medium', 'High', 'Critical']).nullable().describe('Severity rating of the base score'),
+      metrics: z
+        .object({
+          attackVector: z.enum(['Network', 'Adjacent', 'Local', 'Physical']),
+          attackComplexity: z.enum(['Low', 'High']),
+          privilegesRequired: z.enum(['None', 'Low', 'High']),
+          userInteraction: z.enum(['None', 'Required']),
+          scope: z.enum(['Unchanged', 'Changed']),
+          confidentiality: z.enum(['None', 'Low', 'High']),
+          integrity: z.enum(['None', 'Low', 'High']),
+          availability: z.enum(['None', 'Low', 'High']),
+        })
+        .nullable()
+        .describe('Decoded base metrics of the vector'),
+      error: z.string().nullable().describe('Why the vector could not be decoded (null if valid)'),
+    })
+    .nullable()
+    .optional()
+    .describe(
+      `Decoded CVSS rating for security notes: version, validated vector, severity and the base metrics as fields.
+
+Use "metrics" to explain the vulnerability (e.g. attackVector "Network" + privilegesRequired "None" = remotely exploitable without login).
+null if the note has no CVSS data.`
+    ),
+};
+
+/**
+ * ============================================
+ * SAP NOTE GET MANY SCHEMAS
+ * ============================================
+ */
+
+export const MAX_BATCH_NOTE_IDS = 10;
+
+/**
+ * Input schema shape for sap_note_get_many (for MCP SDK)
+ */
+export const NoteGetManyInputSchema = {
+  ids: z
+    .array(NoteGetInputSchema.id)
+    .min(1, "Provide at least one note ID")
+    .max(MAX_BATCH_NOTE_IDS, `At most ${MAX_BATCH_NOTE_IDS} note IDs per call`)
+    .describe(
+      `SAP Note IDs to fetch (1-${MAX_BATCH_NOTE_IDS}), e.g. ["2744792", "438342"]. Duplicates are fetched once.
+
+Use this instead of several sap_note_get calls after a search - the notes are fetched in parallel.`
+    ),
+
+  lang: NoteGetInputSchema.lang,
+
+  format: NoteGetInputSchema.format,
+
+  maxCharsPerNote: z
+    .number()
+    .int()
+    .min(1000, "maxCharsPerNote must be at least 1000")
+    .max(200000, "maxCharsPerNote cannot exceed 200000")
+    .optional()
+    .describe(
+      `Maximum characters of "content" per note. Longer notes are cut at a section/paragraph boundary (the first part is returned, "totalParts" tells how many there are).
+
+Fetch the remaining parts with sap_note_get(id, maxChars, part). Omit to get full content.`
+    ),
+
+  refresh: NoteGetInputSchema.refresh,
+};
+
+/**
+ * Output schema shape for sap_note_get_many (for MCP SDK)
+ */
+export const NoteGetManyOutputSchema = {
+  results: z
+    .array(
+      z.object({
+        id: z.string().describe('Requested SAP Note ID'),
+        success: z.boolean().describe('true if the note was retrieved'),
+        error: z.string().nullable().describe('Why the note could not be retrieved (null on success)'),
+        note: z
+          .object({
+            title: z.string().describe('Full note title'),
+            noteVersion: z.string().nullable().describe('Note version'),
+            summary: z.string().describe('Executive summary of the note'),
+            component: z.string().nullable().describe('SAP component'),
+            priority: z.string().nullable().describe('Note priority'),
+            category: z.string().nullable().describe('Note category'),
+            releaseDate: z.string().describe('Release date'),
+            language: z.string().describe('Language that was actually served (EN or DE)'),
+            url: z.string().describe('Direct URL to the note on SAP for Me'),
+            content: z.string().describe('Note content in the requested format (first part only if maxCharsPerNote cut it)'),
+            totalParts: z.number().describe('Number of parts at maxCharsPerNote (1 = complete content)'),
+            fromCache: z.boolean().describe('true if served from the local note cache'),
+            fetchedAt: z.string().describe('When the note was downloaded from SAP (ISO 8601)'),
+            cvssScore: z.string().nullable().describe('CVSS base score for security notes'),
+            cvssVector: z.string().nullable().describe('CVSS vector for security notes'),
+            cves: z.array(z.string()).nullable().describe('CVE identifiers named in the note'),
+          })
+          .nullable()
+          .describe('Note details (null on failure)'),
+      })
+    )
+    .describe('One entry per requested note ID, in request order. A failed note does not affect the others.'),
+
+  retrieved: z.number().describe('Number of notes retrieved successfully'),
+
+  failed: z.number().describe('Number of notes that could not be retrieved'),
+};
+
+/**
+ * ============================================
+ * SAP NOTE REFERENCES SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Input schema shape for sap_note_references (for MCP SDK)
+ */
+export const NoteReferencesInputSchema = {
+  id: NoteGetInputSchema.id,
+
+  depth: z
+    .number()
+    .int()
+    .min(1, "Depth must be at least 1")
+    .max(3, "Depth cannot exceed 3")
+    .default(1)
+    .describe(
+      `How many levels of references to follow (1-3, default 1).
+• 1 - Direct references of the note
+• 2-3 - References of references, e.g. to find prerequisite chains
+
+Every level fetches each newly found note, so higher depths take considerably longer.`
+    ),
+
+  direction: z
+    .enum(['outbound', 'inbound', 'both'])
+    .default('outbound')
+    .describe(
+      `Which references to follow:
+• outbound - Notes referenced by the note (default)
+• inbound - Notes that reference the note
+• both - Both directions`
+    ),
+
+  kinds: z
+    .array(z.enum(['prerequisite', 'sideEffect', 'related', 'reference', 'mention']))
+    .optional()
+    .describe(
+      `Only follow these relation kinds. Example: ["prerequisite"] to get the prerequisite chain only. Default: all kinds.`
+    ),
+
+  maxNotes: z
+    .number()
+    .int()
+    .min(1, "maxNotes must be at least 1")
+    .max(100, "maxNotes cannot exceed 100")
+    .default(25)
+    .describe('Maximum number of notes to fetch while walking the graph (1-100, default 25). The result is marked "truncated" if the limit was hit.'),
+
+  lang: NoteGetInputSchema.lang,
+};
+
+/**
+ * Output schema shape for sap_note_references (for MCP SDK)
+ */
+export const NoteReferencesOutputSchema = {
+  root: z.string().describe('Note ID the graph starts from'),
+
+  depth: z.number().describe('Depth that was requested'),
+
+  nodes: z
+    .array(
+      z.object({
+        id: z.string().describe('SAP Note ID'),
+        title: z.string().nullable().describe('Note title (null if unknown)'),
+        component: z.string().nullable().describe('SAP component (null if the note was not fetched)'),
+        depth: z.number().describe('Distance from the root note (root = 0)'),
+        resolved: z
+          .boolean()
+          .describe('true if the note was fetched; false for leaf notes beyond the depth/maxNotes limit or inaccessible notes'),
+      })
+    )
+    .describe('All notes in the graph, in breadth-first order'),
+
+  edges: z
+    .array(
+      z.object({
+        from: z.string().describe('Referencing note'),
+        to: z.string().describe('Referenced note'),
+        kind: z
+          .enum(['prerequisite', 'sideEffect', 'related', 'reference', 'mention'])
+          .describe('Relation kind (see sap_note_get "references")'),
+      })
+    )
+    .describe('References between the notes. For prerequisite chains follow edges of kind "prerequisite" from the root.'),
+
+  truncated: z.boolean().describe('true if maxNotes stopped the traversal before the requested depth was reached'),
+};
+
+/**
+ * ============================================
+ * SAP NOTE APPLICABILITY SCHEMAS
+ * ============================================
+ */
+
+const ApplicabilityStatusSchema = z
+  .enum(['relevant', 'contained', 'notApplicable', 'unknown'])
+  .describe(
+    `Verdict:
+• relevant - An affected release is installed below the SP that contains the fix: implement the note (or update the SP)
+• contained - The installed SP already contains the fix: nothing to do
+• notApplicable - The note's components/releases are not installed
+• unknown - Note or landscape profile lack the data to decide (e.g. no SP level in the profile, consulting note)`
+  );
+
+/**
+ * Input schema shape for sap_note_applicability (for MCP SDK)
+ */
+export const NoteApplicabilityInputSchema = {
+  id: NoteGetInputSchema.id,
+
+  systems: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Only check these system IDs from the landscape profile, e.g. ["S4P", "S4Q"]. Default: all systems.'),
+
+  lang: NoteGetInputSchema.lang,
+
+  refresh: NoteGetInputSchema.refresh,
+};
+
+/**
+ * Output schema shape for sap_note_applicability (for MCP SDK)
+ */
+export const NoteApplicabilityOutputSchema = {
+  noteId: z.string().describe('SAP Note ID that was checked'),
+  title: z.string().describe('Note title'),
+  noteVersion: z.string().nullable().describe('Note version the verdict is based on'),
+  profilePath: z.string().describe('Landscape profile file that was used'),
+
+  systems: z
+    .array(
+      z.object({
+        system: z.string().describe('System ID from the landscape profile'),
+        description: z.string().nullable().describe('System description from the profile'),
+        role: z.string().nullable().describe('System role from the profile (e.g. production)'),
+        status: ApplicabilityStatusSchema,
+        reason: z.string().describe('Why this verdict was reached (the decisive component)'),
+        components: z
+          .array(
+            z.object({
+              component: z.string().describe('Installed software component that the note refers to'),
+              installedRelease: z.string().describe('Installed release of the component'),
+              installedSupportPackage: z.string().nullable().describe('Installed SP level from the profile'),
+              fixSupportPackage: z.string().nullable().describe('Support package that contains the fix for this release'),
+              status: ApplicabilityStatusSchema,
+              reason: z.string().describe('Reasoning for this component'),
+            })
+          )
+          .describe('Per-component reasoning for the components the note and the system have in common'),
+      })
+    )
+    .describe('Verdict per system'),
+
+  summary: z
+    .object({
+      relevant: z.number(),
+      contained: z.number(),
+      notApplicable: z.number(),
+      unknown: z.number(),
+    })
+    .describe('Number of systems per verdict'),
+};
+
+/**
+ * ============================================
+ * SAP SECURITY PATCH DAY SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Input schema shape for sap_security_patch_day (for MCP SDK)
+ */
+export const SecurityPatchDayInputSchema = {
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be YYYY-MM, e.g. 2025-06")
+    .optional()
+    .describe(
+      `Month of the patch day as YYYY-MM, e.g. "2025-06". Default: the current month.
+
+Covers all security notes released in that month - the patch day itself (second Tuesday) and out-of-band releases.`
+    ),
+
+  format: z
+    .enum(['markdown', 'json'])
+    .default('markdown')
+    .describe(
+      `Text output format:
+• markdown - Digest table ranked by CVSS score, ready to share (default)
+• json - The structured digest as JSON text
+
+The structured result is returned in both cases.`
+    ),
+
+  maxNotes: z
+    .number()
+    .int()
+    .min(1, "maxNotes must be at least 1")
+    .max(100, "maxNotes cannot exceed 100")
+    .default(50)
+    .describe('Maximum number of security notes to collect and fetch (1-100, default 50). The result is marked "truncated" if more were found.'),
+
+  lang: NoteGetInputSchema.lang,
+
+  refresh: NoteGetInputSchema.refresh,
+};
+
+/**
+ * Output schema shape for sap_security_patch_day (for MCP SDK)
+ */
+export const SecurityPatchDayOutputSchema = {
+  month: z.string().describe('Month of the digest (YYYY-MM)'),
+  patchDay: z.string().describe('SAP Security Patch Day of the month (second Tuesday, YYYY-MM-DD)'),
+  from: z.string().describe('First release date covered (YYYY-MM-DD)'),
+  to: z.string().describe('Last release date covered (YYYY-MM-DD)'),
+
+  notes: z
+    .array(
+      z.object({
+        id: z.string().describe('SAP Note ID'),
+        title: z.string().describe('Note title'),
+        cvssScore: z.number().nullable().describe('CVSS base score (null if the note has no rating or could not be fetched)'),
+        cvssVector: z.string().nullable().describe('CVSS vector string'),
+        priority: z.string().nullable().describe('Note priority (e.g. "HotNews", "High")'),
+        category: z.string().nullable().describe('Note category'),
+        component: z.string().nullable().describe('SAP application component'),
+        releaseDate: z.string().describe('Release date'),
+        affectedComponents: z
+          .array(z.string())
+          .describe('Affected software components with their releases, e.g. "S4CORE 102, 103"'),
+        url: z.string().describe('Direct URL to the note on SAP for Me'),
+        error: z.string().nullable().describe('Why the note could not be fetched (null on success)'),
+      })
+    )
+    .describe('Security notes ranked by CVSS score (highest first), then priority'),
+
+  truncated: z.boolean().describe('true if more security notes were found than maxNotes'),
+};
+
+/**
+ * ============================================
+ * SAP NOTE BY CVE SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Input schema shape for sap_note_by_cve (for MCP SDK)
+ */
+export const NoteByCveInputSchema = {
+  cve: z
+    .string()
+    .trim()
+    .regex(/^CVE-\d{4}-\d{4,7}$/i, "CVE id must look like CVE-2025-31324")
+    .describe(
+      `CVE identifier as reported by vulnerability scanners, e.g. "CVE-2025-31324".
+
+Case-insensitive. Only one CVE per call.`
+    ),
+
+  maxCandidates: z
+    .number()
+    .int()
+    .min(1, "maxCandidates must be at least 1")
+    .max(20, "maxCandidates cannot exceed 20")
+    .default(10)
+    .describe('Number of search hits to fetch and check for the CVE (1-20, default 10)'),
+
+  lang: NoteGetInputSchema.lang,
+};
+
+/**
+ * Output schema shape for sap_note_by_cve (for MCP SDK)
+ */
+export const NoteByCveOutputSchema = {
+  cve: z.string().describe('Normalized CVE identifier that was looked up'),
+
+  notes: z
+    .array(
+      z.object({
+        id: z.string().describe('SAP Note ID'),
+        title: z.string().describe('Note title'),
+        component: z.string().nullable().describe('SAP component'),
+        priority: z.string().nullable().describe('Note priority'),
+        category: z.string().nullable().describe('Note category'),
+        releaseDate: z.string().describe('Release date'),
+        noteVersion: z.string().nullable().describe('Note version'),
+        cvssScore: z.string().nullable().describe('CVSS base score'),
+        cvssVector: z.string().nullable().describe('CVSS vector'),
+        severity: z.enum(['None', 'Low', 'Medium', 'High', 'Critical']).nullable().describe('CVSS severity rating'),
+        cves: z.array(z.string()).describe('All CVE identifiers named in the note (a note can fix several)'),
+        url: z.string().describe('Direct URL to the note on SAP for Me'),
+      })
+    )
+    .describe('Notes that name the CVE. Empty if SAP has not published a note for it (or it is not found by search).'),
+
+  unverified: z
+    .array(
+      z.object({
+        id: z.string().describe('SAP Note ID from the search'),
+        title: z.string().describe('Title from the search result'),
+        error: z.string().describe('Why the note could not be fetched to check for the CVE'),
+      })
+    )
+    .describe('Search hits that could not be fetched - they may or may not fix the CVE'),
+
+  candidates: z.number().describe('Number of search hits that were checked'),
+};
+
+/**
+ * ============================================
+ * SAP NOTE WATCHLIST SCHEMAS
+ * ============================================
+ */
+
+const WatchedNoteSchema = z.object({
+  id: z.string().describe('SAP Note ID'),
+  lang: z.enum(['EN', 'DE']).describe('Language the note is watched in'),
+  title: z.string().describe('Title at the last check'),
+  noteVersion: z.string().nullable().describe('Version seen at the last check (or when added)'),
+  releaseDate: z.string().describe('Release date seen at the last check'),
+  comment: z.string().nullable().describe('Why the note is watched'),
+  addedAt: z.string().describe('When the note was added (ISO 8601)'),
+  lastCheckedAt: z.string().nullable().describe('Last sap_note_watch_check of this note (ISO 8601)'),
+  lastChangedAt: z.string().nullable().describe('Last check that found a change (ISO 8601)'),
+});
+
+/**
+ * Input schema shape for sap_note_watch_add (for MCP SDK)
+ */
+export const NoteWatchAddInputSchema = {
+  id: NoteGetInputSchema.id,
+
+  lang: NoteGetInputSchema.lang,
+
+  comment: z
+    .string()
+    .max(500, "Comment cannot exceed 500 characters")
+    .optional()
+    .describe('Why the note is watched, e.g. "HANA revision strategy for S4P"'),
+};
+
+/**
+ * Output schema shape for sap_note_watch_add (for MCP SDK)
+ */
+export const NoteWatchAddOutputSchema = {
+  note: WatchedNoteSchema.describe('The watched note with its baseline'),
+  added: z.boolean().describe('false if the note was already watched (its baseline is kept)'),
+  total: z.number().describe('Number of watched notes'),
+};
+
+/**
+ * Input schema shape for sap_note_watch_remove (for MCP SDK)
+ */
+export const NoteWatchRemoveInputSchema = {
+  id: NoteGetInputSchema.id,
+
+  lang: z
+    .enum(['EN', 'DE'])
+    .optional()
+    .describe('Only stop watching the note in this language. Default: all languages.'),
+};
+
+/**
+ * Output schema shape for sap_note_watch_remove (for MCP SDK)
+ */
+export const NoteWatchRemoveOutputSchema = {
+  id: z.string().describe('SAP Note ID'),
+  removed: z.number().describe('Number of watchlist entries removed (0 if the note was not watched)'),
+  total: z.number().describe('Number of watched notes left'),
+};
+
+/**
+ * Input schema shape for sap_note_watch_list (for MCP SDK)
+ */
+export const NoteWatchListInputSchema = {};
+
+/**
+ * Output schema shape for sap_note_watch_list (for MCP SDK)
+ */
+export const NoteWatchListOutputSchema = {
+  path: z.string().describe('Watchlist file'),
+  notes: z.array(WatchedNoteSchema).describe('Watched notes in the order they were added'),
+};
+
+/**
+ * Input schema shape for sap_note_watch_check (for MCP SDK)
+ */
+export const NoteWatchCheckInputSchema = {
+  ids: z
+    .array(NoteGetInputSchema.id)
+    .optional()
+    .describe('Only check these watched notes. Default: all watched notes.'),
+};
+
+/**
+ * Output schema shape for sap_note_watch_check (for MCP SDK)
+ */
+export const NoteWatchCheckOutputSchema = {
+  results: z
+    .array(
+      z.object({
+        id: z.string().describe('SAP Note ID'),
+        lang: z.enum(['EN', 'DE']).describe('Language the note is watched in'),
+        title: z.string().describe('Current note title'),
+        previousVersion: z.string().nullable().describe('Version at the previous check'),
+        currentVersion: z.string().nullable().describe('Version now on SAP (null if the note could not be fetched)'),
+        changed: z.boolean().describe('true if anything changed since the previous check'),
+        changes: z
+          .array(
+            z.object({
+              field: z.string().describe('What changed, e.g. "noteVersion", "supportPackages", "sections.solution"'),
+              summary: z.string().describe('Human-readable description of the change'),
+              before: z.string().nullable().describe('Previous value (or removed items)'),
+              after: z.string().nullable().describe('New value (or added items)'),
+            })
+          )
+          .describe('Changes since the previous check'),
+        error: z.string().nullable().describe('Why the note could not be checked (null on success)'),
+      })
+    )
+    .describe('One entry per checked note. Changed notes have their new state stored as baseline for the next check.'),
+
+  changed: z.number().describe('Number of notes with changes'),
+  failed: z.number().describe('Number of notes that could not be fetched'),
 };
 
 /**
@@ -384,6 +1283,10 @@ Examples:
     • "S/4HANA migration performance" (product + issue)
     • "Note 2744792" (direct note ID lookup)
   
+  ✓ GOOD (with filters):
+    • q="memory leak", component="BC-CST*", category="Security", releasedAfter="2025-01-01"
+    • q="posting period", component="FI-GL*", documentType="kba"
+  
   ✗ BAD:
     • "how to configure SAP" (too vague, use sap_help_search)
     • "mm22" (transaction only, no issue context)
@@ -410,10 +1313,11 @@ IMPORTANT NOTES:
 • SAP Notes require S-user credentials to access full content
 • Note IDs are typically alphanumeric (e.g., "2744792", "438342", "123ABC")
 • Results are ranked by relevance (best matches first)
+• Results are paginated: if "hasMore" is true, pass "nextCursor" as "cursor" to get the next page
 • Empty results suggest trying sap_help_search instead
 • Language parameter defaults to English (EN)`;
 
-export const SAP_NOTE_GET_DESCRIPTION = `Fetch complete content and metadata for a specific SAP Note by ID. Returns full HTML content, solution details, and all metadata.
+export const SAP_NOTE_GET_DESCRIPTION = `Fetch complete content and metadata for a specific SAP Note by ID. Returns full content (Markdown by default), solution details, and all metadata.
 
 SAP Notes contain:
 • Detailed problem description
@@ -496,9 +1400,200 @@ BEST PRACTICES:
 1. Always validate Note ID format (alphanumeric) before calling
 2. Only fetch notes that are clearly relevant from search results
 3. Limit to 2-3 note fetches per user query
-4. Parse and summarize the HTML content field for users
+4. Use the pre-parsed "sections" field (symptom, reasonAndPrerequisites, solution, otherTerms, seeAlso) instead of parsing the full content yourself
 5. Include the note URL in your response
-6. Extract key sections: Symptom, Solution, Affected Releases`;
+6. Summarize key sections for users: Symptom, Solution, Affected Releases`;
+
+export const SAP_NOTE_GET_MANY_DESCRIPTION = `Fetch several SAP Notes by ID in one call (up to ${MAX_BATCH_NOTE_IDS}). Notes are retrieved in parallel and each one reports success or its own error, so one bad ID never fails the batch.
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+USE WHEN:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• You want the details of the top 2-3 (or more) notes from sap_note_search
+• User asks to compare several notes
+• You need multiple notes from a reference graph (sap_note_references)
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+DO NOT USE WHEN:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• You only need one note (use sap_note_get - it also returns sections and references)
+• You don't have Note IDs yet (use sap_note_search first)
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+EXAMPLE:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+sap_note_search(q="OData 415 error") → ids 2744792, 438342, 3089413
+sap_note_get_many(ids=["2744792", "438342", "3089413"], maxCharsPerNote=10000)
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+BEST PRACTICES:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+1. Set maxCharsPerNote when fetching more than 2 notes to keep the response small
+2. Check "success" per entry and mention notes that could not be retrieved
+3. Use sap_note_get with "part" to read the rest of a cut note`;
+
+export const SAP_NOTE_REFERENCES_DESCRIPTION = `Walk the reference graph of an SAP Note: which notes it refers to (prerequisites, side-effect notes, related notes, mentions) and, optionally, which notes refer to it. Follows references over up to 3 levels.
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+USE WHEN:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• User asks which notes must be implemented before a note (prerequisite chain)
+• User wants to know which notes are related to or build on a note
+• You need the full set of notes to implement for a correction
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+DO NOT USE WHEN:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• You only need the direct references of one note (sap_note_get already returns "references")
+• You don't have a specific Note ID (use sap_note_search first)
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+EXAMPLES:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• Prerequisite chain: sap_note_references(id="2744792", depth=3, kinds=["prerequisite"])
+• Everything around a note: sap_note_references(id="2744792", direction="both")
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+BEST PRACTICES:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+1. Start with depth=1 and increase only if needed - every level fetches each new note
+2. Restrict "kinds" for prerequisite chains to keep the graph small
+3. Check "truncated" and tell the user if the graph is incomplete
+4. Use sap_note_get on individual nodes for their content`;
+
+export const SAP_NOTE_APPLICABILITY_DESCRIPTION = `Check whether an SAP Note applies to the systems in the local landscape profile. For every system it says whether the note is relevant, already contained in the installed support package, or not applicable - reasoned from the note's validity ranges and support package data.
+
+The landscape profile (LANDSCAPE_PROFILE_PATH, JSON or YAML) lists each system with its software components, releases and SP levels.
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+USE WHEN:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• User asks "do we need note 3687749?" or "which of our systems are affected?"
+• Deciding whether a security or correction note must be implemented
+• Checking if an SP update already delivered a fix
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+DO NOT USE WHEN:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• You only need the note content (use sap_note_get)
+• No landscape profile is configured (the tool reports where it looked)
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+EXAMPLES:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• All systems: sap_note_applicability(id="3687749")
+• Production only: sap_note_applicability(id="3687749", systems=["S4P"])
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+BEST PRACTICES:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+1. Report the verdict per system together with its "reason"
+2. For "unknown", say what data is missing instead of guessing
+3. For "relevant" systems, mention correction instructions and manual activities from sap_note_get
+4. Consulting notes and KBAs have no validity data - their verdict is "unknown"`;
+
+export const SAP_SECURITY_PATCH_DAY_DESCRIPTION = `Digest of the SAP security notes released in a month (SAP Security Patch Day, second Tuesday). Finds notes of category "Security" and notes with a CVSS rating, fetches each one for its CVSS score/vector and affected components, and ranks them by CVSS score.
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+USE WHEN:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• User asks "what came out on this month's patch day?" or "which security notes were released in June?"
+• Preparing the monthly security patch review
+• User wants the most critical security notes of a month
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+DO NOT USE WHEN:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• Searching security notes for a topic or component (use sap_note_search with category="Security")
+• You need the full text of a note (use sap_note_get)
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+EXAMPLES:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• Current month: sap_security_patch_day()
+• June 2025 as JSON: sap_security_patch_day(month="2025-06", format="json")
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+BEST PRACTICES:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+1. Lead with the highest CVSS scores and HotNews notes
+2. Check relevance per system with sap_note_applicability for the critical notes
+3. Mention notes with an "error" - their CVSS rating is missing, not zero
+4. Check "truncated" and tell the user if the digest is incomplete
+5. Fetching every note takes a while - keep maxNotes small for quick overviews`;
+
+export const SAP_NOTE_BY_CVE_DESCRIPTION = `Find the SAP Note(s) for a CVE identifier. Searches for the CVE id, fetches each hit and keeps only notes that name the exact CVE, with CVSS score and severity.
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+USE WHEN:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• A vulnerability scanner or advisory reports a CVE (e.g. "CVE-2025-31324") and the user wants the SAP Note
+• User asks "which SAP note fixes CVE-...?"
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+DO NOT USE WHEN:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• You already have the note ID (use sap_note_get)
+• User wants all security notes of a month (use sap_security_patch_day)
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+EXAMPLE:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+sap_note_by_cve(cve="CVE-2025-31324") → note 3594142
+sap_note_applicability(id="3594142") → which systems need it
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+BEST PRACTICES:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+1. Several notes can name the same CVE (e.g. an original and an updated fix) - list all of them
+2. An empty result does not prove that SAP is unaffected - mention "unverified" hits and suggest checking SAP's security notes page
+3. Follow up with sap_note_get for the solution and sap_note_applicability for the affected systems`;
+
+export const SAP_NOTE_WATCH_ADD_DESCRIPTION = `Add an SAP Note to the local watchlist. Its current version, release date and content fingerprint are stored as baseline; sap_note_watch_check later reports what changed.
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+USE WHEN:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• User wants to be told when a note is updated ("keep an eye on note 2235581")
+• Notes that are revised often: HANA revision notes, release strategy notes, security notes under revision
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+EXAMPLE:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+sap_note_watch_add(id="2235581", comment="HANA supported OS for S4P")
+
+Adding a note that is already watched keeps its baseline and only updates the comment.`;
+
+export const SAP_NOTE_WATCH_REMOVE_DESCRIPTION = `Remove an SAP Note from the local watchlist.
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+EXAMPLE:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+sap_note_watch_remove(id="2235581")`;
+
+export const SAP_NOTE_WATCH_LIST_DESCRIPTION = `List the SAP Notes on the local watchlist with the version seen at the last check, when they were last checked and when they last changed. Does not contact SAP - use sap_note_watch_check to look for updates.`;
+
+export const SAP_NOTE_WATCH_CHECK_DESCRIPTION = `Check the watched SAP Notes for updates. Every watched note is downloaded again and compared with the state at the previous check: version, release date, title, priority, CVSS score, support packages, correction instructions, manual activities, attachments and the text of each section.
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+USE WHEN:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• User asks "did any of our watched notes change?"
+• Regular review of critical notes (e.g. weekly)
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+EXAMPLES:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+• All watched notes: sap_note_watch_check()
+• Selected notes: sap_note_watch_check(ids=["2235581"])
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+BEST PRACTICES:
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+1. Report changed notes first, with their "changes" summaries
+2. A check stores the new state - the same change is reported only once, so pass it on to the user
+3. For changed sections, fetch the note with sap_note_get to show the new text
+4. Checking many notes takes a while - every note is downloaded again`;
 
 /**
  * ============================================
@@ -511,3 +1606,14 @@ export type NoteSearchOutput = z.infer<z.ZodObject<typeof NoteSearchOutputSchema
 export type NoteSearchResult = z.infer<z.ZodObject<typeof NoteSearchResultSchema>>;
 export type NoteGetInput = z.infer<z.ZodObject<typeof NoteGetInputSchema>>;
 export type NoteGetOutput = z.infer<z.ZodObject<typeof NoteGetOutputSchema>>;
+export type NoteReferencesInput = z.infer<z.ZodObject<typeof NoteReferencesInputSchema>>;
+export type NoteReferencesOutput = z.infer<z.ZodObject<typeof NoteReferencesOutputSchema>>;
+export type NoteGetManyInput = z.infer<z.ZodObject<typeof NoteGetManyInputSchema>>;
+export type NoteGetManyOutput = z.infer<z.ZodObject<typeof NoteGetManyOutputSchema>>;
+export type NoteApplicabilityInput = z.infer<z.ZodObject<typeof NoteApplicabilityInputSchema>>;
+export type NoteApplicabilityOutput = z.infer<z.ZodObject<typeof NoteApplicabilityOutputSchema>>;
+export type SecurityPatchDayInput = z.infer<z.ZodObject<typeof SecurityPatchDayInputSchema>>;
+export type SecurityPatchDayOutput = z.infer<z.ZodObject<typeof SecurityPatchDayOutputSchema>>;
+export type NoteByCveInput = z.infer<z.ZodObject<typeof NoteByCveInputSchema>>;
+export type NoteByCveOutput = z.infer<z.ZodObject<typeof NoteByCveOutputSchema>>;
+export type NoteWatchCheckOutput = z.infer<z.ZodObject<typeof NoteWatchCheckOutputSchema>>;
@@ -0,0 +1,52 @@
+import type { CachedCookie } from './token-store.js';
+
+// Cookies that carry the SAP session; consent, analytics and load balancer cookies say nothing about it
+const SESSION_COOKIE_PATTERNS = [
+  /^JSESSIONID$/i,
+  /^MYSAPSSO2$/i,
+  /^SAP_SESSIONID_/i,
+  /^__VCAP_ID__$/i
+];
+
+/**
+ * End of the session according to its cookies
+ */
+export interface SessionCookieExpiry {
+  expiresAt: number;    // Milliseconds since epoch
+  cookie: string;       // Name of the cookie that expires first
+}
+
+/**
+ * Check whether a cookie belongs to the SAP session
+ */
+export function isSessionCookie(cookie: Pick<CachedCookie, 'name'>): boolean {
+  return SESSION_COOKIE_PATTERNS.some(pattern => pattern.test(cookie.name));
+}
+
+/**
+ * Earliest expiry of the SAP session cookies. Browser-session cookies (expires -1)
+ * carry no lifetime of their own, so undefined means that only the configured
+ * maximum age (and a probe) can tell when the session ends.
+ */
+export function sessionCookieExpiry(cookies: CachedCookie[] = []): SessionCookieExpiry | undefined {
+  let earliest: SessionCookieExpiry | undefined;
+  for (const cookie of cookies) {
+    if (!isSessionCookie(cookie) || cookie.expires === undefined || cookie.expires < 0) {
+      continue;
+    }
+    const expiresAt = cookie.expires * 1000;
+    if (!earliest || expiresAt < earliest.expiresAt) {
+      earliest = { expiresAt, cookie: cookie.name };
+    }
+  }
+  return earliest;
+}
+
+/**
+ * When a session issued at `issuedAt` ends: the earliest session cookie expiry,
+ * but never later than the configured maximum age
+ */
+export function sessionExpiresAt(cookies: CachedCookie[], issuedAt: number, maxAgeMs: number): number {
+  const cookieExpiry = sessionCookieExpiry(cookies);
+  return Math.min(issuedAt + maxAgeMs, cookieExpiry?.expiresAt ?? Infinity);
+}
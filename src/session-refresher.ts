@@ -0,0 +1,200 @@
+import { logger } from './logger.js';
+import type { SapSessionState } from './auth.js';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * What the refresher needs from the authenticator
+ */
+export interface RefreshableSession {
+  getSessionState(): SapSessionState;
+  refreshSession(): Promise<string>;
+}
+
+/**
+ * Keep-alive probe: true while SAP accepts the session, false once it asks for a login
+ */
+export type SessionProbe = (token: string) => Promise<boolean>;
+
+export interface SessionRefresherOptions {
+  maxAgeMs: number;                 // Session lifetime (MAX_JWT_AGE_H), used if the login time is unknown
+  refreshFraction?: number;         // Log in again after this share of the lifetime (0 disables)
+  keepAliveIntervalMs?: number;     // Probe interval (0 disables the probe)
+  checkIntervalMs?: number;
+  retryDelayMs?: number;            // Wait after a failed refresh
+  onSessionReplaced?: (previousToken: string, token: string) => Promise<void>;   // Release what was tied to the old session
+}
+
+export type SessionRefreshReason = 'age' | 'probe';
+
+/**
+ * Refresher state for monitoring (exposed on /health)
+ */
+export interface SessionRefreshStatus {
+  enabled: boolean;
+  refreshFraction: number;
+  keepAliveIntervalMin: number;
+  authenticated: boolean;
+  expiresAt?: string;
+  nextRefreshAt?: string;
+  refreshing: boolean;
+  refreshes: number;
+  failures: number;
+  lastRefreshAt?: string;
+  lastRefreshReason?: SessionRefreshReason;
+  lastError?: string;
+  lastProbeAt?: string;
+  lastProbeResult?: 'valid' | 'expired' | 'error';
+}
+
+/**
+ * Background session refresh.
+ *
+ * Re-authenticates once a configurable share of the session lifetime has passed,
+ * or as soon as the keep-alive probe finds the session rejected, so that tool
+ * calls do not wait for a Playwright login after expiry. The authenticator swaps
+ * the session only after the new login succeeded; until then the old one keeps
+ * serving calls. Nothing happens before the first login.
+ */
+export class SessionRefresher {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private maxAgeMs: number;
+  private refreshFraction: number;
+  private keepAliveIntervalMs: number;
+  private checkIntervalMs: number;
+  private retryDelayMs: number;
+  private onSessionReplaced?: (previousToken: string, token: string) => Promise<void>;
+  private retryAt = 0;
+  private lastProbeAt = Date.now();
+  private status: Pick<SessionRefreshStatus, 'refreshes' | 'failures' | 'lastRefreshAt' | 'lastRefreshReason' | 'lastError' | 'lastProbeAt' | 'lastProbeResult'> = {
+    refreshes: 0,
+    failures: 0
+  };
+
+  constructor(private session: RefreshableSession, private probe: SessionProbe, options: SessionRefresherOptions) {
+    this.maxAgeMs = options.maxAgeMs;
+    this.refreshFraction = options.refreshFraction ?? parseFloat(process.env.SESSION_REFRESH_FRACTION || '0.8');
+    this.keepAliveIntervalMs = options.keepAliveIntervalMs ?? parseFloat(process.env.SESSION_KEEPALIVE_INTERVAL_MIN || '15') * 60 * 1000;
+    this.checkIntervalMs = options.checkIntervalMs ?? CHECK_INTERVAL_MS;
+    this.retryDelayMs = options.retryDelayMs ?? RETRY_DELAY_MS;
+    this.onSessionReplaced = options.onSessionReplaced;
+  }
+
+  get enabled(): boolean {
+    return (this.refreshFraction > 0 && this.refreshFraction < 1) || this.keepAliveIntervalMs > 0;
+  }
+
+  start(): void {
+    if (this.timer || !this.enabled) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.debug(`Session refresh check failed: ${error}`));
+    }, this.checkIntervalMs);
+    // Never keep the process alive just for the refresher
+    this.timer.unref();
+    logger.info(`🔄 Session refresher started (refresh at ${Math.round(this.refreshFraction * 100)}% of ${this.maxAgeMs / 3600000}h, keep-alive every ${this.keepAliveIntervalMs / 60000} min)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * One check: refresh if the session is old enough, otherwise probe it when due
+   */
+  async tick(now: number = Date.now()): Promise<void> {
+    const state = this.session.getSessionState();
+    if (this.ticking || state.authenticating || !state.token || !state.expiresAt) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      const refreshAt = this.refreshAt(state.expiresAt, state.issuedAt);
+      if (refreshAt !== undefined && now >= refreshAt) {
+        await this.refresh('age', now);
+        return;
+      }
+
+      if (this.keepAliveIntervalMs > 0 && now - this.lastProbeAt >= this.keepAliveIntervalMs) {
+        this.lastProbeAt = now;
+        this.status.lastProbeAt = new Date(now).toISOString();
+        let valid: boolean;
+        try {
+          valid = await this.probe(state.token);
+        } catch (error) {
+          // Network trouble says nothing about the session; try again at the next interval
+          this.status.lastProbeResult = 'error';
+          logger.warn(`⚠️ Session keep-alive probe failed: ${error instanceof Error ? error.message : error}`);
+          return;
+        }
+        this.status.lastProbeResult = valid ? 'valid' : 'expired';
+        if (!valid && now >= this.retryAt) {
+          logger.warn('🔒 Keep-alive probe: SAP no longer accepts the session');
+          await this.refresh('probe', now);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  getStatus(): SessionRefreshStatus {
+    const state = this.session.getSessionState();
+    const refreshAt = state.expiresAt ? this.refreshAt(state.expiresAt, state.issuedAt) : undefined;
+    return {
+      enabled: this.enabled,
+      refreshFraction: this.refreshFraction,
+      keepAliveIntervalMin: this.keepAliveIntervalMs / 60000,
+      authenticated: state.authenticated,
+      expiresAt: state.expiresAt ? new Date(state.expiresAt).toISOString() : undefined,
+      nextRefreshAt: refreshAt !== undefined ? new Date(refreshAt).toISOString() : undefined,
+      refreshing: state.authenticating,
+      ...this.status
+    };
+  }
+
+  /**
+   * When the session is due for a refresh (after a failure: not before the retry delay).
+   * The lifetime is the real one if the login time is known - session cookies may
+   * expire well before MAX_JWT_AGE_H.
+   */
+  private refreshAt(expiresAt: number, issuedAt: number = expiresAt - this.maxAgeMs): number | undefined {
+    if (!(this.refreshFraction > 0 && this.refreshFraction < 1)) {
+      return undefined;
+    }
+    return Math.max(issuedAt + this.refreshFraction * (expiresAt - issuedAt), this.retryAt);
+  }
+
+  private async refresh(reason: SessionRefreshReason, now: number): Promise<void> {
+    logger.warn(`🔄 Refreshing SAP session in the background (${reason === 'age' ? 'session age' : 'keep-alive probe failed'})`);
+    const startTime = Date.now();
+    const previousToken = this.session.getSessionState().token;
+    try {
+      const token = await this.session.refreshSession();
+      this.status.refreshes++;
+      this.status.lastRefreshAt = new Date(now).toISOString();
+      this.status.lastRefreshReason = reason;
+      this.status.lastError = undefined;
+      this.retryAt = 0;
+      this.lastProbeAt = now;
+      logger.warn(`✅ SAP session refreshed in ${Date.now() - startTime}ms`);
+      if (previousToken && previousToken !== token && this.onSessionReplaced) {
+        await this.onSessionReplaced(previousToken, token).catch(error =>
+          logger.warn(`⚠️ Failed to release the replaced session: ${error instanceof Error ? error.message : error}`)
+        );
+      }
+    } catch (error) {
+      this.status.failures++;
+      this.status.lastError = error instanceof Error ? error.message : String(error);
+      this.retryAt = now + this.retryDelayMs;
+      logger.error(`❌ Background session refresh failed (retry in ${this.retryDelayMs / 60000} min): ${this.status.lastError}`);
+    }
+  }
+}
@@ -0,0 +1,293 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { readFileSync } from 'fs';
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { logger } from './logger.js';
+
+const DEFAULT_TOKEN_CACHE_PATH = 'token-cache.json';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+
+export type TokenStoreBackend = 'encrypted' | 'plain' | 'memory';
+
+/**
+ * SAP session cookie as captured from the browser context after login
+ */
+export interface CachedCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires?: number;         // Seconds since epoch, -1 for session cookies
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * Authentication state that survives a restart
+ */
+export interface CachedToken {
+  access_token: string;     // Cookie header string used as token
+  cookies: CachedCookie[];
+  issuedAt?: number;        // Login time (missing in caches written by earlier versions)
+  expiresAt: number;        // Earliest session cookie expiry, at most MAX_JWT_AGE_H after login
+}
+
+/**
+ * Where the cached SAP session lives. Implementations never throw on load:
+ * a missing, unreadable or undecryptable cache simply means "log in again".
+ */
+export interface TokenStore {
+  readonly backend: TokenStoreBackend;
+  load(): Promise<CachedToken | null>;
+  save(token: CachedToken): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface TokenStoreOptions {
+  backend?: TokenStoreBackend;
+  path?: string;
+  passphrase?: string;
+  keyFile?: string;
+}
+
+/**
+ * On-disk layout of the encrypted cache. The salt is renewed on every save,
+ * so the same session never produces the same file twice.
+ */
+interface EncryptedTokenFile {
+  version: 1;
+  algorithm: typeof ALGORITHM;
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function isCachedToken(value: any): value is CachedToken {
+  return !!value && typeof value.access_token === 'string' && typeof value.expiresAt === 'number';
+}
+
+/**
+ * Write through a temporary file, readable by the owner only
+ */
+async function writeAtomic(path: string, content: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tempPath, content, { mode: 0o600 });
+  await rename(tempPath, path);
+}
+
+async function removeFile(path: string): Promise<void> {
+  try {
+    await unlink(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Keeps the session in process memory only; every restart requires a new login
+ */
+export class MemoryTokenStore implements TokenStore {
+  readonly backend = 'memory' as const;
+  private token: CachedToken | null = null;
+
+  async load(): Promise<CachedToken | null> {
+    return this.token;
+  }
+
+  async save(token: CachedToken): Promise<void> {
+    this.token = token;
+  }
+
+  async clear(): Promise<void> {
+    this.token = null;
+  }
+}
+
+/**
+ * Plaintext JSON file, as written by earlier versions. Meant for development,
+ * where inspecting the cookies is more useful than protecting them.
+ */
+export class PlainFileTokenStore implements TokenStore {
+  readonly backend = 'plain' as const;
+  readonly path: string;
+
+  constructor(path: string = DEFAULT_TOKEN_CACHE_PATH) {
+    this.path = resolve(path);
+  }
+
+  async load(): Promise<CachedToken | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, 'utf-8');
+    } catch {
+      return null;
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      return isCachedToken(parsed) ? parsed : null;
+    } catch (error) {
+      logger.warn(`⚠️ Token cache ${this.path} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  async save(token: CachedToken): Promise<void> {
+    await writeAtomic(this.path, JSON.stringify(token, null, 2));
+  }
+
+  async clear(): Promise<void> {
+    await removeFile(this.path);
+  }
+}
+
+/**
+ * AES-256-GCM encrypted file. The key is derived with scrypt from a passphrase
+ * or from the contents of a key file; GCM authentication rejects a wrong key as
+ * well as a modified file.
+ */
+export class EncryptedFileTokenStore implements TokenStore {
+  readonly backend = 'encrypted' as const;
+  readonly path: string;
+  private secret: string;
+  private keys = new Map<string, Promise<Buffer>>();
+
+  constructor(secret: string, path: string = DEFAULT_TOKEN_CACHE_PATH) {
+    if (!secret) {
+      throw new Error('Encrypted token store requires a non-empty passphrase or key file');
+    }
+    this.secret = secret;
+    this.path = resolve(path);
+  }
+
+  /**
+   * Create a store whose secret is the content of a key file
+   * (e.g. generated with `openssl rand -base64 32`)
+   */
+  static fromKeyFile(keyFile: string, path?: string): EncryptedFileTokenStore {
+    let secret: string;
+    try {
+      secret = readFileSync(keyFile, 'utf-8').trim();
+    } catch (error) {
+      throw new Error(`Cannot read token cache key file ${keyFile}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!secret) {
+      throw new Error(`Token cache key file ${keyFile} is empty`);
+    }
+    return new EncryptedFileTokenStore(secret, path);
+  }
+
+  async load(): Promise<CachedToken | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    try {
+      const file = JSON.parse(raw) as Partial<EncryptedTokenFile>;
+      if (file.algorithm !== ALGORITHM || !file.salt || !file.iv || !file.tag || !file.data) {
+        // Most likely a plaintext cache from before encryption was enabled; it is replaced on the next login
+        logger.warn(`⚠️ Token cache ${this.path} is not encrypted - ignoring it`);
+        return null;
+      }
+
+      const key = await this.deriveKey(Buffer.from(file.salt, 'base64'));
+      const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      const token = JSON.parse(plaintext.toString('utf-8'));
+      return isCachedToken(token) ? token : null;
+    } catch (error) {
+      logger.warn(`⚠️ Could not decrypt token cache ${this.path} (wrong key or corrupted file): ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  async save(token: CachedToken): Promise<void> {
+    const salt = randomBytes(SALT_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const key = await this.deriveKey(salt);
+
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(token), 'utf-8'), cipher.final()]);
+    const file: EncryptedTokenFile = {
+      version: 1,
+      algorithm: ALGORITHM,
+      kdf: 'scrypt',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+    await writeAtomic(this.path, JSON.stringify(file, null, 2));
+  }
+
+  async clear(): Promise<void> {
+    await removeFile(this.path);
+  }
+
+  /**
+   * scrypt is deliberately slow, so keys are remembered per salt
+   * (the cache is read on every HTTP client and browser context creation)
+   */
+  private deriveKey(salt: Buffer): Promise<Buffer> {
+    const id = salt.toString('base64');
+    let key = this.keys.get(id);
+    if (!key) {
+      key = new Promise<Buffer>((resolveKey, reject) =>
+        scrypt(this.secret, salt, KEY_LENGTH, (error, derived) => error ? reject(error) : resolveKey(derived))
+      );
+      this.keys.clear();
+      this.keys.set(id, key);
+    }
+    return key;
+  }
+}
+
+/**
+ * Create the token store configured through the environment:
+ * TOKEN_STORE (encrypted | plain | memory), TOKEN_CACHE_PATH and either
+ * TOKEN_CACHE_PASSPHRASE or TOKEN_CACHE_KEY_FILE. Without TOKEN_STORE the
+ * cache is encrypted whenever a passphrase or key file is configured.
+ */
+export function createTokenStore(options: TokenStoreOptions = {}): TokenStore {
+  const path = options.path ?? (process.env.TOKEN_CACHE_PATH || DEFAULT_TOKEN_CACHE_PATH);
+  const passphrase = options.passphrase ?? process.env.TOKEN_CACHE_PASSPHRASE;
+  const keyFile = options.keyFile ?? process.env.TOKEN_CACHE_KEY_FILE;
+  const backend = options.backend ?? (process.env.TOKEN_STORE as TokenStoreBackend | undefined) ?? (passphrase || keyFile ? 'encrypted' : 'plain');
+
+  switch (backend) {
+    case 'memory':
+      logger.info('🔑 Token store: memory (login required after every restart)');
+      return new MemoryTokenStore();
+
+    case 'plain':
+      logger.warn(`⚠️ Token store: plaintext file ${resolve(path)} - set TOKEN_CACHE_PASSPHRASE or TOKEN_CACHE_KEY_FILE to encrypt it`);
+      return new PlainFileTokenStore(path);
+
+    case 'encrypted':
+      if (passphrase) {
+        logger.info(`🔑 Token store: encrypted file ${resolve(path)} (passphrase)`);
+        return new EncryptedFileTokenStore(passphrase, path);
+      }
+      if (keyFile) {
+        logger.info(`🔑 Token store: encrypted file ${resolve(path)} (key file ${keyFile})`);
+        return EncryptedFileTokenStore.fromKeyFile(keyFile, path);
+      }
+      throw new Error('TOKEN_STORE=encrypted requires TOKEN_CACHE_PASSPHRASE or TOKEN_CACHE_KEY_FILE');
+
+    default:
+      throw new Error(`Unknown TOKEN_STORE "${backend}" (expected encrypted, plain or memory)`);
+  }
+}
@@ -10,14 +10,17 @@ export interface ToolResult {
   isError?: boolean;
 }
 
+// Languages supported by SAP Notes (search locale and note translation)
+export type NoteLanguage = 'EN' | 'DE';
+
 export interface SapNoteSearchParams {
   q: string;
-  lang?: 'EN' | 'DE';
+  lang?: NoteLanguage;
 }
 
 export interface SapNoteGetParams {
   id: string;
-  lang?: 'EN' | 'DE';
+  lang?: NoteLanguage;
 }
 
 // SAP Note data structures (from SAP Notes API)
@@ -67,6 +70,7 @@ export interface ApiError {
 // Authentication state
 export interface AuthState {
   token?: string;
+  issuedAt?: number;
   expiresAt?: number;
   isAuthenticated: boolean;
 }
@@ -0,0 +1,43 @@
+/**
+ * Shared helpers for the offline tests: each check logs one line, finish() reports
+ * the summary and sets a failing exit code if any check failed
+ */
+
+let failures = 0;
+
+/**
+ * Record a check whose outcome the test computed itself (detail is shown on failure)
+ */
+export function checkThat(label, ok, detail) {
+  console.log(`   ${ok ? '✅' : '❌'} ${label}${ok ? '' : `\n${detail}`}`);
+  if (!ok) failures++;
+}
+
+/**
+ * Compare with ===
+ */
+export function check(label, actual, expected) {
+  const ok = actual === expected;
+  console.log(`   ${ok ? '✅' : '❌'} ${label}${ok ? '' : ` (expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)})`}`);
+  if (!ok) failures++;
+}
+
+/**
+ * Compare arrays and objects by their JSON form
+ */
+export function checkJson(label, actual, expected) {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  console.log(`   ${ok ? '✅' : '❌'} ${label}${ok ? '' : ` (expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)})`}`);
+  if (!ok) failures++;
+}
+
+/**
+ * Print the summary for `subject` ("token store" → "All token store checks passed!")
+ */
+export function finish(subject) {
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} ${subject} check(s) failed`);
+    process.exit(1);
+  }
+  console.log(`\n🎉 All ${subject} checks passed!`);
+}
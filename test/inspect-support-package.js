@@ -1,7 +1,6 @@
 import { config } from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import { readFileSync, existsSync } from 'fs';
 import { chromium } from 'playwright';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -10,13 +9,12 @@ config({ path: join(__dirname, '..', '.env') });
 
 console.log('🔍 Inspecting SupportPackage structure...\n');
 
-const tokenCacheFile = join(__dirname, '..', 'token-cache.json');
-if (!existsSync(tokenCacheFile)) {
+const { createTokenStore } = await import('../dist/token-store.js');
+const tokenCache = await createTokenStore({ path: process.env.TOKEN_CACHE_PATH || join(__dirname, '..', 'token-cache.json') }).load();
+if (!tokenCache) {
   console.error('❌ No cached token found');
   process.exit(1);
 }
-
-const tokenCache = JSON.parse(readFileSync(tokenCacheFile, 'utf8'));
 const browser = await chromium.launch({ headless: true });
 const context = await browser.newContext();
 
@@ -0,0 +1,80 @@
+import { check, finish } from './helpers.js';
+
+console.log('🧪 Testing CVSS vector parsing and scoring...\n');
+
+const {
+  parseCvssVector,
+  computeCvssBaseScore,
+  cvssSeverity,
+  detectCvssVersion,
+  cvssVectorFromLabels,
+  assessCvss
+} = await import('../dist/cvss.js');
+const { extractCvssFromContent } = await import('../dist/note-mapper.js');
+
+const score = vector => computeCvssBaseScore(parseCvssVector(vector).vector);
+
+console.log('🔢 Base scores (FIRST/NVD reference values)');
+check('network, no privileges, full impact', score('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H'), 9.8);
+check('scope changed, low privileges', score('CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:C/C:H/I:H/A:H'), 9.9);
+check('reflected XSS', score('CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N'), 6.1);
+check('local information disclosure', score('CVSS:3.1/AV:L/AC:L/PR:L/UI:N/S:U/C:H/I:N/A:N'), 5.5);
+check('high complexity', score('CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:H/I:N/A:N'), 5.9);
+check('no impact scores 0', score('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:N/A:N'), 0);
+check('3.0 vector', score('CVSS:3.0/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:H/A:N'), 8.1);
+
+console.log('\n🔍 Parsing and validation');
+const parsed = parseCvssVector('cvss:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:H/A:N/E:P/RL:O');
+check('lowercase prefix and temporal metrics accepted', parsed.error, undefined);
+check('canonical base vector', parsed.vector.vector, 'CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:H/A:N');
+check('decoded attack vector', parsed.vector.metrics.attackVector, 'Network');
+check('decoded privileges required', parsed.vector.metrics.privilegesRequired, 'Low');
+check('decoded availability', parsed.vector.metrics.availability, 'None');
+check('CVSS 2 rejected', parseCvssVector('AV:N/AC:L/Au:N/C:P/I:P/A:P').error !== undefined, true);
+check('CVSS 4.0 rejected', parseCvssVector('CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N').error, 'Unsupported CVSS version 4.0 (only 3.0 and 3.1)');
+check('missing metric reported', parseCvssVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H').error, 'Missing base metric(s) A');
+check('invalid value reported', parseCvssVector('CVSS:3.1/AV:X/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H').error, 'Invalid value AV:X (allowed: N, A, L, P)');
+check('duplicate metric reported', parseCvssVector('CVSS:3.1/AV:N/AV:L/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H').error, 'Metric AV appears more than once');
+check('unknown metric reported', parseCvssVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H/ZZ:1').error, 'Unknown metric ZZ');
+
+console.log('\n🏷️ Severity');
+check('0.0 → None', cvssSeverity(0), 'None');
+check('3.9 → Low', cvssSeverity(3.9), 'Low');
+check('4.0 → Medium', cvssSeverity(4), 'Medium');
+check('8.9 → High', cvssSeverity(8.9), 'High');
+check('9.0 → Critical', cvssSeverity(9), 'Critical');
+
+console.log('\n📋 CVSS tab and note text');
+check('version from "CVSS v3.1 Base Score"', detectCvssVersion('CVSS v3.1 Base Score: 9.9 / 10'), '3.1');
+check('version from vector', detectCvssVersion('Vector: CVSS:3.0/AV:N'), '3.0');
+check('no version', detectCvssVersion('Base Score: 9.9'), undefined);
+const labels = {
+  'Attack Vector': 'Adjacent Network (A)',
+  'Attack Complexity': 'Low (L)',
+  'Privileges Required': 'None (N)',
+  'User Interaction': 'Required (R)',
+  'Scope': 'Unchanged (U)',
+  'Confidentiality': 'High (H)',
+  'Integrity': 'Low (L)',
+  'Availability': 'None (N)'
+};
+check('vector from tab labels uses the detected version', cvssVectorFromLabels('3.1', labels), 'CVSS:3.1/AV:A/AC:L/PR:N/UI:R/S:U/C:H/I:L/A:N');
+check('incomplete tab gives no vector', cvssVectorFromLabels('3.1', { 'Attack Vector': 'Network' }), undefined);
+
+const extracted = extractCvssFromContent('<p>CVSS v3.1 Base Score: 8.4 / 10</p><p>Vector: CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H</p>');
+check('score from note text', extracted.cvssScore, '8.4');
+check('vector from note text', extracted.cvssVector, 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H');
+check('vector version is not taken as score', extractCvssFromContent('See CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H').cvssScore, undefined);
+check('invalid vector skipped', extractCvssFromContent('CVSS:3.1/AV:N/AC:L').cvssVector, undefined);
+
+console.log('\n🧮 Assessment');
+const assessment = assessCvss('9.9', 'CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:C/C:H/I:H/A:H');
+check('SAP score kept', assessment.baseScore, 9.9);
+check('score matches vector', assessment.scoreMatches, true);
+check('severity derived', assessment.severity, 'Critical');
+check('mismatch detected', assessCvss('7.5', 'CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:C/C:H/I:H/A:H').scoreMatches, false);
+check('score computed without SAP score', assessCvss(undefined, 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H').baseScore, 9.8);
+check('invalid vector keeps SAP score', assessCvss('6.5', 'CVSS:3.1/AV:N').severity, 'Medium');
+check('no CVSS data', assessCvss(undefined, undefined), undefined);
+
+finish('CVSS');
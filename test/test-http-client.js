@@ -0,0 +1,125 @@
+import { createServer } from 'http';
+import { check, finish } from './helpers.js';
+
+console.log('🧪 Testing browserless SAP HTTP client...\n');
+
+const { CookieJar, SapHttpClient, SessionExpiredError, isLoginPage, isLoginUrl, isSessionExpiredError, findAutoSubmitForm } = await import('../dist/sap-http-client.js');
+
+// Local stand-in for me.sap.com + the SAP ID service:
+// /note → 302 to /idp (unless the app session cookie is present), /idp → auto-post SAML form,
+// /acs → sets the app session and redirects back, /shell → script redirect, /login → login form
+const server = createServer((req, res) => {
+  const url = new URL(req.url, 'http://127.0.0.1');
+  const cookies = req.headers.cookie || '';
+
+  if (url.pathname === '/note') {
+    if (cookies.includes('JSESSIONID=app')) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ Response: { SAPNote: { Title: { value: 'Test note' }, lang: req.headers['accept-language'] } } }));
+      return;
+    }
+    res.writeHead(302, { Location: '/idp?SAMLRequest=abc' });
+    res.end();
+  } else if (url.pathname === '/idp') {
+    if (!cookies.includes('IDP_SESSION=valid')) {
+      res.writeHead(302, { Location: '/login' });
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(`<html><body onload="document.forms[0].submit()"><form method="post" action="/acs?a=1&amp;b=2">
+      <input type="hidden" name="SAMLResponse" value="PHNhbWw+"/><input type="hidden" name="RelayState" value="/note"/>
+      </form></body></html>`);
+  } else if (url.pathname === '/acs') {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const form = new URLSearchParams(body);
+      const ok = req.method === 'POST' && form.get('SAMLResponse') === 'PHNhbWw+' && url.search === '?a=1&b=2';
+      res.writeHead(ok ? 302 : 400, {
+        Location: form.get('RelayState') || '/',
+        'Set-Cookie': ['JSESSIONID=app; Path=/; HttpOnly', 'OLD=gone; Max-Age=0']
+      });
+      res.end();
+    });
+  } else if (url.pathname === '/shell') {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(`<html><script>document.cookie = "fragmentAfterLogin=" + location.hash; location.replace("/note");</script></html>`);
+  } else if (url.pathname === '/login') {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(`<html><body onload="init()"><form id="logOnForm" action="/login">
+      <input type="hidden" name="xsrfProtection" value="x"/><input name="j_username"/><input type="password" name="j_password"/>
+      </form></body></html>`);
+  } else if (url.pathname === '/forbidden') {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end('{}');
+  } else if (url.pathname === '/loop') {
+    res.writeHead(302, { Location: '/loop' });
+    res.end();
+  } else {
+    res.writeHead(404);
+    res.end();
+  }
+});
+
+await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+const base = `http://127.0.0.1:${server.address().port}`;
+
+try {
+  console.log('🍪 Cookie jar');
+  const jar = CookieJar.fromCookieHeader('IDP_SESSION=valid; OLD=1', '127.0.0.1');
+  check('cookies parsed from header', jar.size, 2);
+  jar.setCookies(new URL('https://me.sap.com/'), ['SECURE=1; Domain=sap.com; Secure', 'EXPIRED=1; Expires=Thu, 01 Jan 1970 00:00:00 GMT']);
+  check('domain cookie sent to subdomain', new CookieJar(jar.toJSON()).getCookieHeader(new URL('https://accounts.sap.com/')), 'SECURE=1');
+  check('secure cookie not sent over http', jar.getCookieHeader(new URL('http://accounts.sap.com/')), '');
+  check('expired cookie discarded', jar.toJSON().some(cookie => cookie.name === 'EXPIRED'), false);
+
+  console.log('\n🔁 Redirect dance');
+  const client = new SapHttpClient(jar, { acceptLanguage: 'de-DE' });
+  const note = await client.getJson(`${base}/note`);
+  check('SAML form posted and JSON returned', note.Response?.SAPNote?.Title?.value, 'Test note');
+  check('accept-language forwarded', note.Response?.SAPNote?.lang, 'de-DE');
+  check('session cookie stored from ACS', jar.getCookieHeader(new URL(`${base}/note`)).includes('JSESSIONID=app'), true);
+  check('Max-Age=0 deletes cookie', jar.toJSON().some(cookie => cookie.name === 'OLD'), false);
+
+  const viaShell = await client.getJson(`${base}/shell`);
+  check('script redirect followed', viaShell.Response?.SAPNote?.Title?.value, 'Test note');
+
+  console.log('\n🔒 Session expiry');
+  let error = null;
+  try {
+    await new SapHttpClient(new CookieJar()).getJson(`${base}/note`);
+  } catch (caught) {
+    error = caught;
+  }
+  check('login page reported as SESSION_EXPIRED', error?.message, 'SESSION_EXPIRED');
+  check('login page raises SessionExpiredError', error instanceof SessionExpiredError, true);
+
+  error = null;
+  try {
+    await new SapHttpClient(new CookieJar()).getJson(`${base}/forbidden`);
+  } catch (caught) {
+    error = caught;
+  }
+  check('403 reported as expired session', isSessionExpiredError(error), true);
+  check('plain SESSION_EXPIRED error recognized', isSessionExpiredError(new Error('SESSION_EXPIRED')), true);
+  check('other errors are not session errors', isSessionExpiredError(new Error('HTTP 500')), false);
+  check('probe reports a rejected session', await new SapHttpClient(new CookieJar()).probe(`${base}/forbidden`), false);
+  check('probe accepts a valid session', await client.probe(`${base}/note`), true);
+  check('IdP login URL detected', isLoginUrl('https://accounts.sap.com/saml2/idp/sso/accounts.sap.com'), true);
+  check('note URL is not a login URL', isLoginUrl('https://me.sap.com/backend/raw/sapnotes/Detail?q=1'), false);
+  check('login page detected', isLoginPage('<input type="password" name="j_password">'), true);
+  check('plain forms are not auto-submitted', !!findAutoSubmitForm('<form action="/x"><input type="text" name="q"></form>', base), false);
+
+  error = null;
+  try {
+    await new SapHttpClient(new CookieJar(), { maxHops: 3 }).get(`${base}/loop`);
+  } catch (caught) {
+    error = caught.message;
+  }
+  check('redirect loops are bounded', /Too many redirects/.test(error || ''), true);
+} finally {
+  server.close();
+}
+
+finish('HTTP client');
@@ -0,0 +1,111 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { check, finish } from './helpers.js';
+
+console.log('🧪 Testing SAP identity registry...\n');
+
+const dir = mkdtempSync(join(tmpdir(), 'identities-test-'));
+
+// Keep the test from touching token cache files
+process.env.TOKEN_STORE = 'memory';
+
+const { IdentityRegistry, IdentitySelectionError, loadIdentitiesFile } = await import('../dist/identities.js');
+
+// Set after the import, the way dotenv sets it after the servers' imports
+process.env.NOTE_WATCHLIST_PATH = join(dir, 'state', 'note-watchlist.json');
+
+function selectionError(registry, bound, requested) {
+  try {
+    registry.select(bound, requested);
+    return null;
+  } catch (error) {
+    return error instanceof IdentitySelectionError ? error.status : error.message;
+  }
+}
+
+function loadError(path) {
+  try {
+    loadIdentitiesFile(path);
+    return '';
+  } catch (error) {
+    return error.message;
+  }
+}
+
+const baseConfig = { pfxPath: '', pfxPassphrase: '', maxJwtAgeH: 12, headful: false, logLevel: 'info' };
+try {
+  process.env.TEST_BASIS_PASSPHRASE = 'basis-secret';
+  process.env.TEST_BASIS_TOKEN = 'basis-token';
+  const path = join(dir, 'identities.yaml');
+  writeFileSync(path, `
+default: finance
+identities:
+  - name: basis
+    description: Basis team
+    pfxPath: certs/basis.pfx
+    pfxPassphrase: \${TEST_BASIS_PASSPHRASE}
+    accessTokens: ["\${TEST_BASIS_TOKEN}"]
+  - name: finance
+    pfxPath: /etc/sap/finance.pfx
+    pfxPassphrase: finance-secret
+    maxJwtAgeH: 4
+    watchlistPath: finance/watchlist.json
+  - name: home
+    pfxPath: ~/certs/home.pfx
+    pfxPassphrase: home-secret
+  - name: tilde
+    pfxPath: ~tilde.pfx
+    pfxPassphrase: tilde-secret
+`);
+
+  console.log('📄 Identities file');
+  const registry = IdentityRegistry.fromEnvironment(baseConfig, path);
+  check('all identities loaded', registry.names.join(','), 'basis,finance,home,tilde');
+  check('configured default', registry.default.name, 'finance');
+  check('passphrase expanded from environment', registry.get('basis').config.pfxPassphrase, 'basis-secret');
+  check('relative certificate path starts at the file', registry.get('basis').config.pfxPath, join(dir, 'certs', 'basis.pfx'));
+  check('absolute certificate path kept', registry.get('finance').config.pfxPath, '/etc/sap/finance.pfx');
+  check('per-identity session lifetime', registry.get('finance').config.maxJwtAgeH, 4);
+  check('lifetime falls back to the server setting', registry.get('basis').config.maxJwtAgeH, 12);
+  check('"~/" starts at the home directory', registry.get('home').config.pfxPath, join(process.env.HOME, 'certs', 'home.pfx'));
+  check('other "~" names are relative', registry.get('tilde').config.pfxPath, join(dir, '~tilde.pfx'));
+  check('own watchlist next to NOTE_WATCHLIST_PATH', registry.get('basis').watchlist.path, join(dir, 'state', 'note-watchlist-basis.json'));
+  check('watchlist path starts at the file', registry.get('finance').watchlist.path, join(dir, 'finance', 'watchlist.json'));
+  check('own authenticator per identity', registry.get('basis').authenticator !== registry.get('finance').authenticator, true);
+
+  console.log('\n🔑 Identity selection');
+  check('bound token maps to its identity', registry.forAccessToken('basis-token')?.name, 'basis');
+  check('unknown token is not bound', registry.forAccessToken('other'), undefined);
+  check('identity tokens require authentication', registry.hasAccessTokens, true);
+  const basis = registry.forAccessToken('basis-token');
+  check('bound token selects its identity', registry.select(basis, undefined).name, 'basis');
+  check('bound token with matching header', registry.select(basis, 'basis').name, 'basis');
+  check('bound token cannot switch identity', selectionError(registry, basis, 'finance'), 403);
+  check('header selects an identity', registry.select(undefined, 'basis').name, 'basis');
+  check('no header uses the default', registry.select(undefined, undefined).name, 'finance');
+  check('unknown identity rejected', selectionError(registry, undefined, 'sales'), 400);
+  check('status lists every identity', registry.getStatus().map(status => `${status.name}:${status.default}`).join(','), 'basis:false,finance:true,home:false,tilde:false');
+
+  console.log('\n👤 Single identity');
+  const single = IdentityRegistry.fromEnvironment({ ...baseConfig, pfxPath: '/certs/sap.pfx' }, '');
+  check('server certificate becomes the default identity', single.default.name, 'default');
+  check('no identity tokens', single.hasAccessTokens, false);
+
+  console.log('\n⚠️ Invalid files');
+  const write = (name, content) => {
+    const file = join(dir, name);
+    writeFileSync(file, content);
+    return file;
+  };
+  const identity = name => `  - name: ${name}\n    pfxPath: a.pfx\n    pfxPassphrase: x\n`;
+  check('unset environment variable reported', /TEST_UNSET_VARIABLE/.test(loadError(write('env.yaml', `identities:\n  - name: a\n    pfxPath: a.pfx\n    pfxPassphrase: \${TEST_UNSET_VARIABLE}\n`))), true);
+  check('duplicate names rejected', /Duplicate identity "a"/.test(loadError(write('dup.yaml', `identities:\n${identity('a')}${identity('a')}`))), true);
+  check('unknown default rejected', /Unknown identity "b"/.test(loadError(write('default.yaml', `default: b\nidentities:\n${identity('a')}`))), true);
+  check('shared access token rejected', /more than one identity/.test(loadError(write('token.yaml', `identities:\n${identity('a')}    accessTokens: [t]\n${identity('b')}    accessTokens: [t]\n`))), true);
+  check('missing file reported', /Cannot read identities file/.test(loadError(join(dir, 'missing.yaml'))), true);
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
+
+finish('identity');
@@ -0,0 +1,85 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { check, finish } from './helpers.js';
+
+console.log('🧪 Testing landscape profile and note applicability...\n');
+
+const { loadLandscapeProfile, assessNoteApplicability, parseSupportPackageLevel } = await import('../dist/landscape.js');
+
+const dir = mkdtempSync(join(tmpdir(), 'landscape-test-'));
+
+try {
+  console.log('📄 Profile loading');
+  const yamlPath = join(dir, 'landscape.yaml');
+  writeFileSync(yamlPath, `systems:
+  - id: S4P
+    components:
+      - { name: S4CORE, release: 102, supportPackage: "0003" }
+      - { name: SAP_BASIS, release: 757, supportPackage: SP06 }
+  - id: S4Q
+    components:
+      - { name: S4CORE, release: 102, supportPackage: "0009" }
+  - id: S4D
+    components:
+      - { name: S4CORE, release: 102 }
+  - id: OLD
+    components:
+      - { name: S4CORE, release: 100, supportPackage: "0001" }
+  - id: BW
+    components:
+      - { name: DW4CORE, release: 200, supportPackage: "0002" }
+`);
+  const { profile } = await loadLandscapeProfile(yamlPath);
+  check('YAML profile loaded', profile.systems.length, 5);
+  check('numeric release read as string', profile.systems[0].components[0].release, '102');
+
+  const jsonPath = join(dir, 'landscape.json');
+  writeFileSync(jsonPath, JSON.stringify({ systems: [{ id: 'X', components: [{ name: 'SAP_BASIS', release: '750' }] }] }));
+  check('JSON profile loaded', (await loadLandscapeProfile(jsonPath)).profile.systems[0].id, 'X');
+
+  let error = null;
+  try {
+    await loadLandscapeProfile(join(dir, 'missing.yaml'));
+  } catch (caught) {
+    error = caught.message;
+  }
+  check('missing profile explained', /LANDSCAPE_PROFILE_PATH/.test(error || ''), true);
+
+  writeFileSync(join(dir, 'bad.yaml'), 'systems:\n  - id: S4P\n');
+  error = null;
+  try {
+    await loadLandscapeProfile(join(dir, 'bad.yaml'));
+  } catch (caught) {
+    error = caught.message;
+  }
+  check('invalid profile reports the field', /systems\.0\.components/.test(error || ''), true);
+
+  console.log('\n📄 SP levels');
+  check('patch name', parseSupportPackageLevel('SAPK-10208INS4CORE'), 8);
+  check('SAP_BASIS patch name', parseSupportPackageLevel('SAPKB75706'), 6);
+  check('SP notation', parseSupportPackageLevel('SP04'), 4);
+  check('zero padded', parseSupportPackageLevel('0012'), 12);
+
+  console.log('\n📄 Applicability');
+  const note = {
+    id: '3687749',
+    validity: [{ softwareComponent: 'S4CORE', from: '102', to: '108' }],
+    affectedVersions: [{ component: 'S4CORE', version: '102', supportPackage: 'SAPK-10208INS4CORE' }]
+  };
+  const verdicts = Object.fromEntries(assessNoteApplicability(note, profile.systems).map(verdict => [verdict.system, verdict]));
+  check('below fix SP → relevant', verdicts.S4P.status, 'relevant');
+  check('unrelated component ignored', verdicts.S4P.components.length, 1);
+  check('fix SP installed → contained', verdicts.S4Q.status, 'contained');
+  check('no SP level in profile → unknown', verdicts.S4D.status, 'unknown');
+  check('release outside validity → not applicable', verdicts.OLD.status, 'notApplicable');
+  check('component not installed → not applicable', verdicts.BW.status, 'notApplicable');
+
+  const inRangeWithoutSp = assessNoteApplicability({ ...note, affectedVersions: [] }, [profile.systems[1]])[0];
+  check('in validity without SP data → relevant', inRangeWithoutSp.status, 'relevant');
+  check('consulting note → unknown', assessNoteApplicability({ id: '1' }, profile.systems)[0].status, 'unknown');
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
+
+finish('landscape');
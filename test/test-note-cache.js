@@ -0,0 +1,43 @@
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { check, finish } from './helpers.js';
+
+console.log('🧪 Testing SAP Note cache...\n');
+
+const { NoteCache } = await import('../dist/note-cache.js');
+
+const dir = mkdtempSync(join(tmpdir(), 'note-cache-test-'));
+
+try {
+  console.log('📄 Hits and versions');
+  const cache = new NoteCache({ dir, ttlHours: 1, maxSizeMb: 10 });
+  check('miss before download', await cache.get('2744792', 'EN'), null);
+
+  await cache.set('2744792', 'EN', { id: '2744792', noteVersion: '3', content: 'v3' });
+  const hit = await cache.get('2744792', 'EN');
+  check('hit after download', hit?.note.content, 'v3');
+  check('fetchedAt recorded', typeof hit?.fetchedAt, 'string');
+  check('languages are separate', await cache.get('2744792', 'DE'), null);
+
+  await cache.set('2744792', 'EN', { id: '2744792', noteVersion: '12', content: 'v12' });
+  check('newer version served', (await cache.get('2744792', 'EN'))?.note.content, 'v12');
+  check('superseded version removed', readdirSync(dir).filter(file => file.startsWith('2744792_EN')).length, 1);
+
+  console.log('\n📄 TTL');
+  const expired = new NoteCache({ dir, ttlHours: 1e-9, maxSizeMb: 10 });
+  await new Promise(resolve => setTimeout(resolve, 10));
+  check('expired entry not served', await expired.get('2744792', 'EN'), null);
+
+  console.log('\n📄 Size limit');
+  const small = new NoteCache({ dir, ttlHours: 1, maxSizeMb: 0.002 });
+  await small.set('1000001', 'EN', { id: '1000001', noteVersion: '1', content: 'x'.repeat(1500) });
+  await new Promise(resolve => setTimeout(resolve, 20));
+  await small.set('1000002', 'EN', { id: '1000002', noteVersion: '1', content: 'y'.repeat(1500) });
+  check('oldest entry evicted', await small.get('1000001', 'EN'), null);
+  check('newest entry kept', (await small.get('1000002', 'EN'))?.note.id, '1000002');
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
+
+finish('note cache');
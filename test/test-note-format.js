@@ -0,0 +1,53 @@
+import { checkThat, finish } from './helpers.js';
+
+console.log('🧪 Testing SAP Note content rendering and chunking...\n');
+
+const { renderNoteContent } = await import('../dist/note-format.js');
+const { chunkNoteContent } = await import('../dist/note-chunker.js');
+
+const note = `
+<h3>Solution</h3>
+<p>Import the Support Package listed below or see SAP Note <a href="#/notes/2744792">2744792</a>
+and <a href="/sap/support/notes/438342">438342</a>.</p>
+<table>
+  <tr><td>Software Component</td><td>Release</td><td>Support Package</td></tr>
+  <tr><td>SAP_BASIS</td><td>750</td><td>SAPK-75025INSAPBASIS</td></tr>
+</table>
+<ul><li>Run report&nbsp;RSCHECK</li><li>Restart the system</li></ul>
+<pre>DATA lv_count TYPE i.
+SELECT COUNT(*) FROM mara INTO lv_count.</pre>`;
+
+console.log('📄 Markdown');
+const markdown = renderNoteContent(note, 'markdown');
+checkThat('heading', markdown.includes('### Solution'), markdown);
+checkThat('note links are absolute', markdown.includes('[2744792](https://me.sap.com/notes/2744792)')
+  && markdown.includes('[438342](https://me.sap.com/notes/438342)'), markdown);
+checkThat('table header row', markdown.includes('| Software Component | Release | Support Package |\n| --- | --- | --- |'), markdown);
+checkThat('table body row', markdown.includes('| SAP\\_BASIS | 750 | SAPK-75025INSAPBASIS |'), markdown);
+checkThat('list items', /^-\s+Run report\s+RSCHECK$/m.test(markdown), markdown);
+checkThat('ABAP code block', markdown.includes('```abap\nDATA lv_count TYPE i.\nSELECT COUNT(*) FROM mara INTO lv_count.\n```'), markdown);
+
+console.log('\n📄 Text');
+const text = renderNoteContent(note, 'text');
+checkThat('no markup', !/<[^>]+>/.test(text), text);
+checkThat('entities decoded', text.includes('Run report RSCHECK'), text);
+checkThat('code kept verbatim', text.includes('DATA lv_count TYPE i.\nSELECT COUNT(*)'), text);
+
+console.log('\n📄 HTML');
+checkThat('unchanged', renderNoteContent(note, 'html') === note, '');
+
+console.log('\n📄 Chunking');
+const paragraphs = (count) => Array.from({ length: count }, (_, i) => `Paragraph ${i} `.repeat(30)).join('\n\n');
+const longNote = `### Symptom\n\n${paragraphs(5)}\n\n### Solution\n\n${paragraphs(3)}\n\n\`\`\`abap\nDATA a.\n\nDATA b.\n\`\`\``;
+const chunked = chunkNoteContent(longNote, 'markdown', 2000);
+checkThat('split into parts', chunked.parts.length === 2, JSON.stringify(chunked.parts.map(p => p.length)));
+checkThat('parts respect maxChars', chunked.parts.every(p => p.length <= 2000), JSON.stringify(chunked.parts.map(p => p.length)));
+checkThat('Solution starts its own part', chunked.parts[1].startsWith('### Solution'), chunked.parts[1].slice(0, 40));
+checkThat('table of contents', JSON.stringify(chunked.tableOfContents) === JSON.stringify([
+  { title: 'Symptom', section: 'symptom', part: 1 },
+  { title: 'Solution', section: 'solution', part: 2 }
+]), JSON.stringify(chunked.tableOfContents));
+checkThat('code block not split', chunked.parts[1].includes('DATA a.\n\nDATA b.'), chunked.parts[1]);
+checkThat('single part without maxChars', chunkNoteContent(longNote, 'markdown').parts.length === 1, '');
+
+finish('rendering and chunking');
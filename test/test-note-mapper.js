@@ -0,0 +1,83 @@
+import { check, finish } from './helpers.js';
+
+console.log('🧪 Testing raw SAP Note mapping...\n');
+
+const { extractCveIds, mapNoteJson, mapRawSapNote, normalizeNoteLanguage } = await import('../dist/note-mapper.js');
+
+const rawNote = {
+  Header: {
+    Number: { value: '3687749' },
+    Version: { value: '4' },
+    Type: { value: 'SAP Security Note' },
+    Language: { value: 'E' },
+    ReleasedOn: { value: '2025-12-09' },
+    SAPComponentKey: { value: 'FI-GL' },
+    Priority: { value: 'Hot News' },
+    Category: { value: 'Program error' }
+  },
+  Title: { value: 'SQL Injection vulnerability in S/4HANA' },
+  LongText: { value: '<h3>Symptom</h3><p>See SAP Note 2744792.</p>' },
+  CVSS: { CVSS_Score: { value: '9.9' }, CVSS_Vector: { vectorValue: 'CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:C/C:H/I:H/A:H' } },
+  SupportPackage: { Items: [{ SoftwareComponentVersion: 'S4CORE 102', SupportPackage: 'SAPK-10208INS4CORE' }] },
+  References: { RefTo: { Items: [{ RefNumber: { value: '0002744792' }, RefTitle: { value: 'Prerequisite' } }] } },
+  Validity: { Items: [{ SoftwareComponent: 'S4CORE', From: '102', To: '108' }, { SoftwareComponent: 'SAP_BASIS 758' }] },
+  CorrectionInstructions: { Items: [{ Number: '2175542', SoftwareComponent: 'S4CORE', ValidFrom: '102', ValidTo: '102' }] },
+  ManualActivities: { Items: [
+    { Type: 'Manual Pre-Implementation Step', Title: 'Create message class', Text: '<p>Use SE91</p>' },
+    { Type: 'Manuelle Tätigkeit nach der Implementierung', Title: 'Activate BAdI' }
+  ] },
+  Attachments: { Items: [{ FileName: 'fix.zip', URL: '/backend/raw/attachments/fix.zip', FileSize: '12 KB' }] }
+};
+
+console.log('📄 Response.SAPNote');
+const mapped = mapNoteJson({ Response: { SAPNote: rawNote } }, '3687749', 'EN');
+check('title mapped', mapped?.note?.title, 'SQL Injection vulnerability in S/4HANA');
+check('version mapped', mapped?.note?.noteVersion, '4');
+check('language normalized', mapped?.note?.language, 'EN');
+check('component mapped', mapped?.note?.component, 'FI-GL');
+check('CVSS from JSON', mapped?.note?.cvssScore, '9.9');
+check('software components', mapped?.note?.affectedVersions?.[0]?.component, 'S4CORE');
+check('metadata references', mapped?.note?.references?.[0]?.noteId, '2744792');
+check('no warnings for known fields', mapped?.warnings.length, 0);
+
+console.log('\n📄 Validity, corrections, manual activities, attachments');
+const detail = mapped?.note;
+check('validity range', `${detail?.validity?.[0]?.softwareComponent} ${detail?.validity?.[0]?.from}-${detail?.validity?.[0]?.to}`, 'S4CORE 102-108');
+check('combined component/release split', `${detail?.validity?.[1]?.softwareComponent} ${detail?.validity?.[1]?.from}`, 'SAP_BASIS 758');
+check('correction instruction', detail?.correctionInstructions?.[0]?.id, '2175542');
+check('pre-implementation step', detail?.manualActivities?.[0]?.phase, 'pre');
+check('manual step description kept as HTML', detail?.manualActivities?.[0]?.description, '<p>Use SE91</p>');
+check('German post-implementation step', detail?.manualActivities?.[1]?.phase, 'post');
+check('attachment URL made absolute', detail?.attachments?.[0]?.url, 'https://me.sap.com/backend/raw/attachments/fix.zip');
+
+console.log('\n📄 Schema drift');
+const drifted = mapRawSapNote({ ...rawNote, Header: { ...rawNote.Header, Version: undefined, NewFlag: { value: 'X' } }, Attachmentz: [] }, '3687749', 'EN');
+check('unknown note field reported', drifted.warnings.includes('Unknown field SAPNote.Attachmentz'), true);
+check('unknown header field reported', drifted.warnings.includes('Unknown field SAPNote.Header.NewFlag'), true);
+check('missing version reported', drifted.warnings.includes('Missing field SAPNote.Header.Version'), true);
+
+const malformed = mapRawSapNote({ ...rawNote, Title: 'Plain title', LongText: { value: ['x'] } }, '3687749', 'EN');
+check('malformed field reported', malformed.warnings.some(warning => warning.startsWith('Malformed field SAPNote.')), true);
+check('plain string still mapped', malformed.note?.title, 'Plain title');
+
+const renamed = mapRawSapNote({ Header: rawNote.Header, Titel: { value: 'x' }, LongText: rawNote.LongText }, '3687749', 'EN');
+check('missing title reported', renamed.warnings.includes('Missing field SAPNote.Title'), true);
+check('missing title falls back to note number', renamed.note?.title, 'SAP Note 3687749');
+
+console.log('\n📄 Empty translation and other shapes');
+check('no content in language → null note', mapRawSapNote({ Header: rawNote.Header, Title: {}, LongText: {} }, '3687749', 'DE').note, null);
+const odata = mapNoteJson({ d: { results: [{ SapNote: '2744792', Title: 'OData note', Content: 'CVSS Base Score: 7.5' }] } }, '2744792', 'EN');
+check('OData entity mapped', odata?.note?.title, 'OData note');
+check('CVSS from content', odata?.note?.cvssScore, '7.5');
+check('generic mapping reported', odata?.warnings.length, 1);
+check('unrelated JSON is not a note', mapNoteJson({ error: 'nope' }, '1', 'EN'), null);
+check('language names normalized', normalizeNoteLanguage('Deutsch'), 'DE');
+
+console.log('\n📄 CVE identifiers');
+check('CVEs from title and content, deduplicated in order',
+  extractCveIds('[CVE-2025-31324] Missing Authorization check', '<a href="https://www.cve.org/CVERecord?id=CVE-2025-31324">CVE-2025-31324</a> and cve-2025-42999').join(','),
+  'CVE-2025-31324,CVE-2025-42999');
+check('long sequence numbers accepted', extractCveIds('CVE-2024-1234567').join(','), 'CVE-2024-1234567');
+check('malformed ids ignored', extractCveIds('CVE-25-1234, CVE-2025-123, XCVE-2025-12345').length, 0);
+
+finish('note mapping');
@@ -0,0 +1,38 @@
+import { checkJson, finish } from './helpers.js';
+
+console.log('🧪 Testing SAP Note reference extraction...\n');
+
+const { extractContentReferences, extractRawReferences, mergeNoteReferences } = await import('../dist/note-references.js');
+
+const content = `
+<h3>Symptom</h3><p>Dump in MM02, see also SAP Note 1111111.</p>
+<h3>Reason and Prerequisites</h3><p>Implement <a href="https://me.sap.com/notes/2222222">SAP Note 2222222</a> first.</p>
+<h3>Solution</h3><p>Apply the correction.</p>
+<h3>See Also</h3><p><a href="#/notes/0003333333">Related fix</a></p>`;
+
+console.log('📄 Content references');
+const fromContent = extractContentReferences(content);
+const byId = (refs, id) => refs.find(reference => reference.noteId === id);
+checkJson('prerequisite from Reason and Prerequisites', byId(fromContent, '2222222')?.kind, 'prerequisite');
+checkJson('related from See Also (leading zeros stripped)', byId(fromContent, '3333333')?.kind, 'related');
+checkJson('link title kept', byId(fromContent, '3333333')?.title, 'Related fix');
+checkJson('text mention', byId(fromContent, '1111111')?.kind, 'mention');
+checkJson('one entry per note', fromContent.length, 3);
+
+console.log('\n📄 Raw Response.SAPNote references');
+const raw = extractRawReferences({
+  References: {
+    RefTo: { Items: [{ RefNumber: '2222222', RefTitle: 'Prerequisite fix' }] },
+    RefBy: { Items: [{ RefNumber: { value: '4444444' }, RefTitle: { value: 'Follow-up note' } }] }
+  }
+});
+checkJson('RefTo is outbound', raw[0], { noteId: '2222222', title: 'Prerequisite fix', direction: 'outbound', kind: 'reference', source: 'metadata' });
+checkJson('RefBy is inbound', raw[1], { noteId: '4444444', title: 'Follow-up note', direction: 'inbound', kind: 'reference', source: 'metadata' });
+
+console.log('\n📄 Merging');
+const merged = mergeNoteReferences(raw, fromContent);
+checkJson('most specific kind wins', byId(merged, '2222222')?.kind, 'prerequisite');
+checkJson('metadata source wins', byId(merged, '2222222')?.source, 'metadata');
+checkJson('all notes kept', merged.length, 4);
+
+finish('reference extraction');
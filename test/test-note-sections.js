@@ -0,0 +1,57 @@
+import { check, finish } from './helpers.js';
+
+console.log('🧪 Testing SAP Note section parsing...\n');
+
+const { parseNoteSections } = await import('../dist/note-sections.js');
+
+// English note with <h3> headings (typical Response.SAPNote LongText markup)
+const englishNote = `
+<h3 data-toc-skip class="section" id="Symptom">Symptom</h3>
+<p>Dump CX_SY_ZERODIVIDE in transaction MM02.</p>
+<h3 data-toc-skip class="section" id="Other Terms">Other Terms</h3>
+<p>MM02, material master</p>
+<h3 data-toc-skip class="section" id="Reason and Prerequisites">Reason and Prerequisites</h3>
+<p>Program error.</p>
+<h3 data-toc-skip class="section" id="Solution">Solution</h3>
+<p>Implement the attached correction instructions.</p>
+<h3 data-toc-skip class="section" id="See Also">See Also</h3>
+<p><a href="/notes/2744792">2744792</a></p>`;
+
+console.log('📄 English note with <h3> headings');
+const en = parseNoteSections(englishNote);
+check('symptom', en.symptom, '<p>Dump CX_SY_ZERODIVIDE in transaction MM02.</p>');
+check('otherTerms', en.otherTerms, '<p>MM02, material master</p>');
+check('reasonAndPrerequisites', en.reasonAndPrerequisites, '<p>Program error.</p>');
+check('solution', en.solution, '<p>Implement the attached correction instructions.</p>');
+check('seeAlso', en.seeAlso, '<p><a href="/notes/2744792">2744792</a></p>');
+
+// German note with bold paragraph headings
+const germanNote = `
+<p><strong>Symptom</strong></p><p>Kurzdump beim Buchen.</p>
+<p><b>Weitere Begriffe:</b></p><p>FB01</p>
+<p><strong>Ursache und Voraussetzungen</strong></p><p>Programmfehler.</p>
+<p><strong>L&ouml;sung</strong></p><p>Spielen Sie den Support Package ein.</p>`;
+
+console.log('\n📄 German note with bold paragraph headings');
+const de = parseNoteSections(germanNote);
+check('symptom', de.symptom, '<p>Kurzdump beim Buchen.</p>');
+check('otherTerms', de.otherTerms, '<p>FB01</p>');
+check('reasonAndPrerequisites', de.reasonAndPrerequisites, '<p>Programmfehler.</p>');
+check('solution', de.solution, '<p>Spielen Sie den Support Package ein.</p>');
+check('seeAlso', de.seeAlso, undefined);
+
+// KBA headings map onto the same sections
+const kba = `<h2>Symptom</h2><p>Error</p><h2>Cause</h2><p>Config</p><h2>Resolution</h2><p>Fix it</p><h2>Keywords</h2><p>abc</p>`;
+
+console.log('\n📄 KBA headings');
+const k = parseNoteSections(kba);
+check('reasonAndPrerequisites (Cause)', k.reasonAndPrerequisites, '<p>Config</p>');
+check('solution (Resolution)', k.solution, '<p>Fix it</p>');
+check('otherTerms (Keywords)', k.otherTerms, '<p>abc</p>');
+
+// Inline bold text must not be treated as a heading
+console.log('\n📄 Content without headings');
+const none = parseNoteSections('<p>Use the <strong>Solution</strong> manager to apply this.</p>');
+check('no sections found', Object.keys(none).length, 0);
+
+finish('section parsing');
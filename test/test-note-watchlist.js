@@ -0,0 +1,96 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { check, finish } from './helpers.js';
+
+console.log('🧪 Testing note watchlist...\n');
+
+const { NoteWatchlist, createNoteSnapshot, diffNoteSnapshots } = await import('../dist/note-watchlist.js');
+
+const note = {
+  id: '2235581',
+  title: 'SAP HANA: Supported Operating Systems',
+  noteVersion: '120',
+  summary: 'SAP Note',
+  content: '<h3>Symptom</h3><p>Which OS releases are supported?</p><h3>Solution</h3><p>SLES 15 SP5</p>',
+  language: 'EN',
+  releaseDate: '2025-05-02',
+  priority: 'Normal',
+  url: 'https://me.sap.com/notes/2235581',
+  affectedVersions: [{ component: 'HDB', version: '200', supportPackage: 'SP07' }]
+};
+
+const revised = {
+  ...note,
+  noteVersion: '121',
+  releaseDate: '2025-06-12',
+  content: '<h3>Symptom</h3><p>Which OS releases are supported?</p><h3>Solution</h3><p>SLES 15 SP5, SLES 15 SP6</p>',
+  affectedVersions: [...note.affectedVersions, { component: 'HDB', version: '200', supportPackage: 'SP08' }]
+};
+
+console.log('🔍 Change detection');
+const changes = diffNoteSnapshots(createNoteSnapshot(note), createNoteSnapshot(revised));
+const summaries = changes.map(change => change.summary);
+check('version change reported', summaries.includes('Version: 120 → 121'), true);
+check('release date change reported', summaries.includes('Release date: 2025-05-02 → 2025-06-12'), true);
+check('new support package reported', summaries.includes('Support packages added: HDB 200: SP08'), true);
+check('changed section reported', summaries.includes('Solution section changed'), true);
+check('unchanged section not reported', summaries.some(summary => summary.startsWith('Symptom')), false);
+check('identical notes have no changes', diffNoteSnapshots(createNoteSnapshot(note), createNoteSnapshot({ ...note })).length, 0);
+check('whitespace-only edits ignored', diffNoteSnapshots(createNoteSnapshot(note), createNoteSnapshot({ ...note, content: note.content.replace('<p>', '<p>  ') })).length, 0);
+
+const dir = mkdtempSync(join(tmpdir(), 'watchlist-test-'));
+
+try {
+  console.log('\n📋 Watchlist file');
+  const watchlist = new NoteWatchlist(join(dir, 'watchlist.json'));
+  check('empty watchlist without file', (await watchlist.list()).length, 0);
+
+  const first = await watchlist.add(note, 'EN', 'HANA OS support');
+  check('note added', first.added, true);
+  const again = await watchlist.add(revised, 'EN');
+  check('second add keeps baseline', again.entry.snapshot.noteVersion, '120');
+  check('second add reports existing note', again.added, false);
+  check('comment kept', again.entry.comment, 'HANA OS support');
+  await Promise.all([
+    watchlist.add({ ...note, id: '1000001' }, 'EN'),
+    watchlist.add({ ...note, id: '1000002' }, 'DE')
+  ]);
+  check('concurrent adds are not lost', (await watchlist.list()).length, 3);
+  check('file holds no note text', readFileSync(join(dir, 'watchlist.json'), 'utf-8').includes('SLES'), false);
+
+  console.log('\n🔔 Check');
+  const fetched = { '2235581': revised, '1000001': { ...note, id: '1000001' } };
+  const requested = [];
+  const fetchNotes = async (ids, lang) => {
+    requested.push(`${lang}:${ids.join(',')}`);
+    return ids.map(id => fetched[id] ? { id, note: fetched[id] } : { id, error: 'not accessible' });
+  };
+
+  const results = await watchlist.check(fetchNotes);
+  const byId = Object.fromEntries(results.map(result => [result.id, result]));
+  check('notes fetched per language', requested.join(' | '), 'EN:2235581,1000001 | DE:1000002');
+  check('revised note reports new version', byId['2235581'].currentVersion, '121');
+  check('revised note has changes', byId['2235581'].changes.length > 0, true);
+  check('unchanged note has no changes', byId['1000001'].changes.length, 0);
+  check('failed note reports error', byId['1000002'].error, 'not accessible');
+
+  const stored = Object.fromEntries((await watchlist.list()).map(entry => [entry.id, entry]));
+  check('new version stored as baseline', stored['2235581'].snapshot.noteVersion, '121');
+  check('change time recorded', typeof stored['2235581'].lastChangedAt, 'string');
+  check('unchanged note has no change time', stored['1000001'].lastChangedAt, undefined);
+  check('failed note was not marked checked', stored['1000002'].lastCheckedAt, undefined);
+
+  const secondCheck = await watchlist.check(fetchNotes, ['2235581']);
+  check('check limited to requested IDs', secondCheck.length, 1);
+  check('change reported only once', secondCheck[0].changes.length, 0);
+
+  console.log('\n🗑️ Remove');
+  check('remove in one language', await watchlist.remove('1000002', 'EN'), 0);
+  check('remove in all languages', await watchlist.remove('1000002'), 1);
+  check('remaining notes', (await watchlist.list()).length, 2);
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
+
+finish('watchlist');
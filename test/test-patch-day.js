@@ -0,0 +1,61 @@
+import { check, finish } from './helpers.js';
+
+console.log('🧪 Testing security patch day digest...\n');
+
+const { securityPatchDayWindow, summarizeAffectedComponents, toSecurityPatchDayNote, formatSecurityPatchDayDigest } =
+  await import('../dist/patch-day.js');
+const { sortSecurityNotes } = await import('../dist/sap-notes-api.js');
+
+console.log('📅 Patch day window');
+const june = securityPatchDayWindow('2025-06');
+check('June 2025 patch day', june.patchDay, '2025-06-10');
+check('June 2025 range start', june.from, '2025-06-01');
+check('June 2025 range end', june.to, '2025-06-30');
+check('month starting on a Tuesday', securityPatchDayWindow('2025-04').patchDay, '2025-04-08');
+check('month starting on a Wednesday', securityPatchDayWindow('2025-10').patchDay, '2025-10-14');
+check('leap year February ends on the 29th', securityPatchDayWindow('2024-02').to, '2024-02-29');
+check('default is the current month', securityPatchDayWindow(undefined, new Date('2025-11-20T12:00:00Z')).month, '2025-11');
+let rejected = false;
+try {
+  securityPatchDayWindow('2025-13');
+} catch {
+  rejected = true;
+}
+check('invalid month is rejected', rejected, true);
+
+console.log('\n🧩 Affected components');
+check('support packages grouped per component',
+  summarizeAffectedComponents({
+    affectedVersions: [
+      { component: 'S4CORE', version: '102', supportPackage: 'SAPK-10214INS4CORE' },
+      { component: 'S4CORE', version: '103', supportPackage: 'SAPK-10312INS4CORE' },
+      { component: 'SAP_BASIS', version: '757', supportPackage: 'SAPK-75705INSAPBASIS' }
+    ]
+  }).join(' | '),
+  'S4CORE 102, 103 | SAP_BASIS 757');
+check('validity used without support packages',
+  summarizeAffectedComponents({ validity: [{ softwareComponent: 'SAP_BASIS', from: '700', to: '758' }] }).join(' | '),
+  'SAP_BASIS 700-758');
+
+console.log('\n📊 Ranking');
+const hit = (id, priority) => ({ id, title: `Note ${id}`, summary: '', releaseDate: '2025-06-10', language: 'EN', url: `https://me.sap.com/notes/${id}`, priority });
+const ranked = sortSecurityNotes([
+  toSecurityPatchDayNote(hit('3000001', 'Medium'), { ...hit('3000001', 'Medium'), content: '', cvssScore: '5.4' }),
+  toSecurityPatchDayNote(hit('3000002', 'High'), undefined, 'timeout'),
+  toSecurityPatchDayNote(hit('3000003', 'HotNews'), { ...hit('3000003', 'HotNews'), content: '', cvssScore: '9.9', cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:C/C:H/I:H/A:H' }),
+  toSecurityPatchDayNote(hit('3000004', 'Very High'), { ...hit('3000004', 'Very High'), content: '', cvssScore: '5.4' })
+]);
+check('ranked by CVSS, then priority, unrated last', ranked.map(note => note.id).join(','), '3000003,3000004,3000001,3000002');
+check('score parsed as number', ranked[0].cvssScore, 9.9);
+check('failed note keeps its error', ranked[3].error, 'timeout');
+
+console.log('\n📝 Markdown digest');
+const markdown = formatSecurityPatchDayDigest({ ...june, notes: ranked, truncated: true });
+check('heading names the month', markdown.startsWith('# SAP Security Patch Day 2025-06'), true);
+check('table row for the top note', markdown.includes('| 9.9 | [3000003](https://me.sap.com/notes/3000003) |'), true);
+check('truncation is mentioned', markdown.includes('increase maxNotes'), true);
+check('failed notes are listed', markdown.includes('could not be fetched and are listed without CVSS data: 3000002'), true);
+check('vectors are listed', markdown.includes('`CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:C/C:H/I:H/A:H`'), true);
+check('empty month', formatSecurityPatchDayDigest({ ...june, notes: [], truncated: false }).includes('No security notes found'), true);
+
+finish('patch day');
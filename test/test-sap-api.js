@@ -1,7 +1,6 @@
 import { config } from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import { readFileSync, existsSync } from 'fs';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -10,13 +9,12 @@ config({ path: join(__dirname, '..', '.env') });
 console.log('🧪 Testing SAP Notes API with cached token...\n');
 
 // Read cached token
-const tokenCacheFile = join(__dirname, '..', 'token-cache.json');
-if (!existsSync(tokenCacheFile)) {
+const { createTokenStore } = await import('../dist/token-store.js');
+const tokenCache = await createTokenStore({ path: process.env.TOKEN_CACHE_PATH || join(__dirname, '..', 'token-cache.json') }).load();
+if (!tokenCache) {
   console.error('❌ No cached token found. Run authentication first with: npm run test-auth');
   process.exit(1);
 }
-
-const tokenCache = JSON.parse(readFileSync(tokenCacheFile, 'utf8'));
 const token = tokenCache.access_token;
 
 console.log('📋 Using cached authentication token');
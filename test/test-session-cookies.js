@@ -0,0 +1,33 @@
+import { check, finish } from './helpers.js';
+
+console.log('🧪 Testing session cookie expiry...\n');
+
+const { isSessionCookie, sessionCookieExpiry, sessionExpiresAt } = await import('../dist/session-cookies.js');
+
+const HOUR = 60 * 60 * 1000;
+const now = Date.UTC(2025, 5, 10, 8, 0, 0);
+const seconds = ms => Math.floor(ms / 1000);
+
+const cookies = [
+  { name: 'JSESSIONID', value: 'a', domain: 'me.sap.com', path: '/', expires: -1 },
+  { name: 'MYSAPSSO2', value: 'b', domain: '.sap.com', path: '/', expires: seconds(now + 4 * HOUR) },
+  { name: 'SAP_SESSIONID_ABC_001', value: 'c', domain: 'me.sap.com', path: '/', expires: seconds(now + 6 * HOUR) },
+  { name: 'OptanonConsent', value: 'd', domain: '.sap.com', path: '/', expires: seconds(now + 1 * HOUR) }
+];
+
+console.log('🍪 Session cookies');
+check('SSO ticket is a session cookie', isSessionCookie({ name: 'MYSAPSSO2' }), true);
+check('system session id is a session cookie', isSessionCookie({ name: 'SAP_SESSIONID_PRD_100' }), true);
+check('consent cookie is not', isSessionCookie({ name: 'OptanonConsent' }), false);
+
+console.log('\n⏰ Expiry');
+const expiry = sessionCookieExpiry(cookies);
+check('earliest session cookie wins', expiry?.cookie, 'MYSAPSSO2');
+check('expiry in milliseconds', expiry?.expiresAt, seconds(now + 4 * HOUR) * 1000);
+check('browser-session cookies have no expiry', sessionCookieExpiry([cookies[0]]), undefined);
+check('no cookies, no expiry', sessionCookieExpiry([]), undefined);
+check('cookie expiry before the maximum age', sessionExpiresAt(cookies, now, 12 * HOUR), seconds(now + 4 * HOUR) * 1000);
+check('maximum age before the cookie expiry', sessionExpiresAt(cookies, now, 2 * HOUR), now + 2 * HOUR);
+check('only the maximum age without cookie lifetimes', sessionExpiresAt([cookies[0]], now, 12 * HOUR), now + 12 * HOUR);
+
+finish('session cookie');
@@ -0,0 +1,109 @@
+import { check, finish } from './helpers.js';
+
+console.log('🧪 Testing background session refresh...\n');
+
+const { SessionRefresher } = await import('../dist/session-refresher.js');
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+const start = Date.now();
+
+/**
+ * Stand-in for SapAuthenticator: the token only changes once a refresh completes
+ */
+function fakeSession({ fail = false } = {}) {
+  const session = {
+    token: 'session-1',
+    expiresAt: start + 12 * HOUR,
+    logins: 0,
+    fail,
+    getSessionState() {
+      return { authenticated: true, token: session.token, expiresAt: session.expiresAt, authenticating: false };
+    },
+    async refreshSession() {
+      session.logins++;
+      if (session.fail) {
+        throw new Error('Certificate rejected');
+      }
+      session.token = `session-${session.logins + 1}`;
+      session.expiresAt = start + 24 * HOUR;
+      return session.token;
+    }
+  };
+  return session;
+}
+
+console.log('⏰ Refresh by age');
+const aged = fakeSession();
+const replaced = [];
+const ageRefresher = new SessionRefresher(aged, async () => true, {
+  maxAgeMs: 12 * HOUR,
+  refreshFraction: 0.8,
+  keepAliveIntervalMs: 0,
+  onSessionReplaced: async (previousToken, token) => { replaced.push(`${previousToken}>${token}`); }
+});
+await ageRefresher.tick(start + 9 * HOUR);
+check('no refresh before 80% of the lifetime', aged.logins, 0);
+check('refresh time reported', ageRefresher.getStatus().nextRefreshAt, new Date(start + 9.6 * HOUR).toISOString());
+await ageRefresher.tick(start + 9.6 * HOUR);
+check('refresh at 80% of the lifetime', aged.logins, 1);
+check('new token in use after refresh', aged.getSessionState().token, 'session-2');
+check('replaced session released', replaced.join(','), 'session-1>session-2');
+check('refresh counted', ageRefresher.getStatus().refreshes, 1);
+check('refresh reason recorded', ageRefresher.getStatus().lastRefreshReason, 'age');
+await ageRefresher.tick(start + 10 * HOUR);
+check('refreshed session not refreshed again', aged.logins, 1);
+
+const shortLived = fakeSession();
+shortLived.getSessionState = () => ({ authenticated: true, token: shortLived.token, issuedAt: start, expiresAt: start + 2 * HOUR, authenticating: false });
+const cookieRefresher = new SessionRefresher(shortLived, async () => true, { maxAgeMs: 12 * HOUR, refreshFraction: 0.8, keepAliveIntervalMs: 0 });
+check('refresh follows the real session lifetime', cookieRefresher.getStatus().nextRefreshAt, new Date(start + 1.6 * HOUR).toISOString());
+await cookieRefresher.tick(start + HOUR);
+check('short-lived session not refreshed early', shortLived.logins, 0);
+
+console.log('\n📡 Keep-alive probe');
+const probed = fakeSession();
+const probeResults = [true, false];
+const probedTokens = [];
+const probeRefresher = new SessionRefresher(probed, async token => {
+  probedTokens.push(token);
+  return probeResults.shift();
+}, { maxAgeMs: 12 * HOUR, refreshFraction: 0, keepAliveIntervalMs: 15 * MINUTE });
+await probeRefresher.tick(start + 5 * MINUTE);
+check('no probe before the interval', probedTokens.length, 0);
+await probeRefresher.tick(start + 16 * MINUTE);
+check('probe runs after the interval', probedTokens.join(','), 'session-1');
+check('accepted session not refreshed', probed.logins, 0);
+await probeRefresher.tick(start + 32 * MINUTE);
+check('rejected session refreshed', probed.logins, 1);
+check('probe result recorded', probeRefresher.getStatus().lastProbeResult, 'expired');
+check('refresh reason is the probe', probeRefresher.getStatus().lastRefreshReason, 'probe');
+
+const flaky = fakeSession();
+const flakyRefresher = new SessionRefresher(flaky, async () => { throw new Error('ETIMEDOUT'); }, { maxAgeMs: 12 * HOUR, refreshFraction: 0, keepAliveIntervalMs: 15 * MINUTE });
+await flakyRefresher.tick(start + 20 * MINUTE);
+check('network error does not trigger a login', flaky.logins, 0);
+check('network error recorded', flakyRefresher.getStatus().lastProbeResult, 'error');
+
+console.log('\n💥 Failed refresh');
+const failing = fakeSession({ fail: true });
+const failRefresher = new SessionRefresher(failing, async () => true, { maxAgeMs: 12 * HOUR, refreshFraction: 0.5, keepAliveIntervalMs: 0, retryDelayMs: 5 * MINUTE });
+await failRefresher.tick(start + 6 * HOUR);
+check('old session kept after failure', failing.getSessionState().token, 'session-1');
+check('failure counted', failRefresher.getStatus().failures, 1);
+check('error reported', failRefresher.getStatus().lastError, 'Certificate rejected');
+await failRefresher.tick(start + 6 * HOUR + 2 * MINUTE);
+check('no retry within the retry delay', failing.logins, 1);
+failing.fail = false;
+await failRefresher.tick(start + 6 * HOUR + 5 * MINUTE);
+check('retry after the delay', failing.logins, 2);
+check('error cleared after success', failRefresher.getStatus().lastError, undefined);
+
+console.log('\n💤 Idle');
+const idle = { getSessionState: () => ({ authenticated: false, authenticating: false }), refreshSession: async () => { throw new Error('unexpected login'); } };
+const idleRefresher = new SessionRefresher(idle, async () => true, { maxAgeMs: 12 * HOUR });
+await idleRefresher.tick(start + 24 * HOUR);
+check('nothing happens before the first login', idleRefresher.getStatus().failures, 0);
+check('disabled without fraction and probe', new SessionRefresher(idle, async () => true, { maxAgeMs: HOUR, refreshFraction: 0, keepAliveIntervalMs: 0 }).enabled, false);
+
+finish('session refresh');
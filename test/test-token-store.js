@@ -0,0 +1,94 @@
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { check, finish } from './helpers.js';
+
+console.log('🧪 Testing token store...\n');
+
+const { EncryptedFileTokenStore, PlainFileTokenStore, MemoryTokenStore, createTokenStore } = await import('../dist/token-store.js');
+
+const token = {
+  access_token: 'JSESSIONID=abc123; MYSAPSSO2=secret-sso-ticket',
+  cookies: [
+    { name: 'JSESSIONID', value: 'abc123', domain: 'me.sap.com', path: '/', expires: -1 },
+    { name: 'MYSAPSSO2', value: 'secret-sso-ticket', domain: '.sap.com', path: '/', expires: 1767225600, secure: true, httpOnly: true, sameSite: 'None' }
+  ],
+  expiresAt: Date.now() + 60 * 60 * 1000
+};
+
+const dir = mkdtempSync(join(tmpdir(), 'token-store-test-'));
+
+try {
+  console.log('🔐 Encrypted file');
+  const path = join(dir, 'token-cache.json');
+  const store = new EncryptedFileTokenStore('correct horse battery staple', path);
+  check('no file loads as empty', await store.load(), null);
+  await store.save(token);
+  const raw = readFileSync(path, 'utf-8');
+  check('cookie values not in file', raw.includes('secret-sso-ticket'), false);
+  check('file records algorithm', JSON.parse(raw).algorithm, 'aes-256-gcm');
+  check('file readable by owner only', statSync(path).mode & 0o777, 0o600);
+  const loaded = await store.load();
+  check('round trip keeps token', loaded?.access_token, token.access_token);
+  check('round trip keeps cookies', loaded?.cookies[1].value, 'secret-sso-ticket');
+  check('second instance with same passphrase decrypts', (await new EncryptedFileTokenStore('correct horse battery staple', path).load())?.expiresAt, token.expiresAt);
+  check('wrong passphrase loads as empty', await new EncryptedFileTokenStore('wrong passphrase', path).load(), null);
+
+  await store.save(token);
+  check('every save uses a fresh salt', JSON.parse(readFileSync(path, 'utf-8')).salt !== JSON.parse(raw).salt, true);
+
+  const tampered = JSON.parse(readFileSync(path, 'utf-8'));
+  const data = Buffer.from(tampered.data, 'base64');
+  data[0] ^= 0xff;
+  writeFileSync(path, JSON.stringify({ ...tampered, data: data.toString('base64') }));
+  check('modified file loads as empty', await store.load(), null);
+
+  writeFileSync(path, JSON.stringify(token));
+  check('plaintext cache ignored', await store.load(), null);
+
+  await store.clear();
+  check('cleared store loads as empty', await store.load(), null);
+  await store.clear();
+  check('clearing twice is harmless', await store.load(), null);
+
+  console.log('\n🗝️ Key file');
+  const keyFile = join(dir, 'token.key');
+  writeFileSync(keyFile, 'q3Jv0u3fYx2d1Zb7c9Jq8Xw5Lk4Pm6Nn2Rt0Sy1Az8=\n');
+  const keyStore = EncryptedFileTokenStore.fromKeyFile(keyFile, join(dir, 'key-cache.json'));
+  await keyStore.save(token);
+  check('key file store round trip', (await EncryptedFileTokenStore.fromKeyFile(keyFile, join(dir, 'key-cache.json')).load())?.access_token, token.access_token);
+  let missingKey = false;
+  try {
+    EncryptedFileTokenStore.fromKeyFile(join(dir, 'missing.key'));
+  } catch {
+    missingKey = true;
+  }
+  check('missing key file rejected', missingKey, true);
+
+  console.log('\n📄 Plain file and memory');
+  const plain = new PlainFileTokenStore(join(dir, 'plain.json'));
+  await plain.save(token);
+  check('plain file is readable JSON', JSON.parse(readFileSync(join(dir, 'plain.json'), 'utf-8')).access_token, token.access_token);
+  check('plain round trip', (await plain.load())?.cookies.length, 2);
+  const memory = new MemoryTokenStore();
+  await memory.save(token);
+  check('memory round trip', (await memory.load())?.access_token, token.access_token);
+  await memory.clear();
+  check('memory cleared', await memory.load(), null);
+
+  console.log('\n⚙️ Configuration');
+  check('passphrase selects encryption', createTokenStore({ path, passphrase: 'secret' }).backend, 'encrypted');
+  check('key file selects encryption', createTokenStore({ path, keyFile }).backend, 'encrypted');
+  check('explicit memory backend', createTokenStore({ backend: 'memory', passphrase: 'secret' }).backend, 'memory');
+  let noKey = false;
+  try {
+    createTokenStore({ backend: 'encrypted', path, passphrase: '', keyFile: '' });
+  } catch {
+    noKey = true;
+  }
+  check('encryption without key rejected', noKey, true);
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
+
+finish('token store');